@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getOidcSettings } from '@/lib/db';
+import { signInWithOidc } from '@/lib/auth-providers';
+import { clearLoginFailures } from '@/lib/login-throttle';
+import { completeOidcAuthorization, discoverOidcProvider } from '@/lib/oidc';
+import { getRequestOrigin, startSession, takePendingOidcLogin } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Where the identity provider sends the browser back to. Issues the session like the password
+// login does; users with 2FA continue on the login page with a pending session.
+export async function GET(request: Request) {
+    const origin = await getRequestOrigin(request);
+    const redirectTo = (path: string) => NextResponse.redirect(new URL(path, origin));
+
+    const pending = await takePendingOidcLogin();
+    const settings = await getOidcSettings();
+    if (!pending || !settings.enabled) {
+        return redirectTo('/login?sso_error=expired');
+    }
+
+    let user;
+    try {
+        const config = await discoverOidcProvider(settings);
+        const identity = await completeOidcAuthorization(config, settings, new URL(request.url), pending);
+        user = await signInWithOidc(settings, identity);
+    } catch (error) {
+        console.error('[OIDC] The sign-in failed:', error);
+        return redirectTo('/login?sso_error=failed');
+    }
+    if (!user) {
+        return redirectTo('/login?sso_error=denied');
+    }
+
+    if (user.twoFactorRequired) {
+        const requiresTwoFactorSetup = !user.twoFactorSecret;
+        await startSession(user.id, requiresTwoFactorSetup ? 'pending_2fa_setup' : 'pending_2fa');
+        return redirectTo(`/login?sso=${requiresTwoFactorSetup ? '2fa_setup' : '2fa_verify'}&username=${encodeURIComponent(user.username)}`);
+    }
+    await clearLoginFailures(user.username);
+    await startSession(user.id, 'active');
+    return redirectTo('/dashboard');
+}
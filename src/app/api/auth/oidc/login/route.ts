@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getOidcSettings } from '@/lib/db';
+import { createOidcAuthorizationRequest, discoverOidcProvider, OIDC_CALLBACK_PATH } from '@/lib/oidc';
+import { getRequestOrigin, setPendingOidcLogin } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Starts a single sign-on: sends the browser to the identity provider, which returns it to
+// the callback route with an authorization code.
+export async function GET(request: Request) {
+    const origin = await getRequestOrigin(request);
+    const settings = await getOidcSettings();
+    if (!settings.enabled) {
+        return NextResponse.redirect(new URL('/login?sso_error=disabled', origin));
+    }
+
+    try {
+        const config = await discoverOidcProvider(settings);
+        const { url, pending } = await createOidcAuthorizationRequest(config, settings, `${origin}${OIDC_CALLBACK_PATH}`);
+        await setPendingOidcLogin(pending);
+        return NextResponse.redirect(url);
+    } catch (error) {
+        console.error('[OIDC] Could not start the sign-in:', error);
+        return NextResponse.redirect(new URL('/login?sso_error=unavailable', origin));
+    }
+}
@@ -0,0 +1,89 @@
+import { getFileStatusChangesSince, getLatestFileStatusEventId, getSessionById } from '@/lib/db';
+import { requireSession } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const TAIL_INTERVAL = 1000;
+const KEEPALIVE_INTERVAL = 15000;
+const MAX_EVENTS_PER_TICK = 500;
+
+// Streams committed file status changes as Server-Sent Events. Each message id is the
+// event id, so a reconnecting EventSource resumes where it left off via Last-Event-ID.
+export async function GET(request: Request) {
+    let sessionId: string;
+    try {
+        ({ session: { id: sessionId } } = await requireSession('view'));
+    } catch (error: any) {
+        return new Response(error.message, { status: 401 });
+    }
+
+    const lastEventId = Number(request.headers.get('last-event-id'));
+    let cursor = Number.isInteger(lastEventId) && lastEventId > 0 ? lastEventId : await getLatestFileStatusEventId();
+    const encoder = new TextEncoder();
+    let timer: NodeJS.Timeout | null = null;
+    let lastSentAt = Date.now();
+
+    const stop = () => {
+        if (timer) clearInterval(timer);
+        timer = null;
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (chunk: string) => {
+                controller.enqueue(encoder.encode(chunk));
+                lastSentAt = Date.now();
+            };
+
+            let tailing = false;
+            const tail = async () => {
+                if (tailing) return;
+                tailing = true;
+                try {
+                    const changes = await getFileStatusChangesSince(cursor, MAX_EVENTS_PER_TICK);
+                    for (const change of changes) {
+                        send(`id: ${change.event.id}\nevent: status\ndata: ${JSON.stringify(change)}\n\n`);
+                        cursor = change.event.id;
+                    }
+                    if (Date.now() - lastSentAt >= KEEPALIVE_INTERVAL) {
+                        // Long-lived streams must end once their session is revoked or expires.
+                        const session = await getSessionById(sessionId);
+                        if (!session || session.revokedAt || Date.parse(session.expiresAt) <= Date.now()) {
+                            stop();
+                            controller.close();
+                            return;
+                        }
+                        send(': keepalive\n\n');
+                    }
+                } catch (error) {
+                    console.error('[Stream] Failed to read file status events:', error);
+                } finally {
+                    tailing = false;
+                }
+            };
+
+            send('retry: 3000\n\n');
+            timer = setInterval(tail, TAIL_INTERVAL);
+            request.signal.addEventListener('abort', () => {
+                stop();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the runtime.
+                }
+            });
+        },
+        cancel() {
+            stop();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+        },
+    });
+}
@@ -0,0 +1,9 @@
+import { deleteFailedFile } from '@/lib/file-operations';
+import { runFileOperation, withApiToken } from '@/lib/api';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Deletes a failed file from disk together with its status entry.
+export const POST = withApiToken<{ name: string }>('delete', async (request, { user }, { name }) =>
+    runFileOperation(request, name, pipelineId => deleteFailedFile(pipelineId, name, user.username)));
@@ -0,0 +1,9 @@
+import { expandFile } from '@/lib/file-operations';
+import { runFileOperation, withApiToken } from '@/lib/api';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Copies a failed file into the import folder under each name the first matching expand rule gives it.
+export const POST = withApiToken<{ name: string }>('expand', async (request, { user }, { name }) =>
+    runFileOperation(request, name, pipelineId => expandFile(pipelineId, name, user.username)));
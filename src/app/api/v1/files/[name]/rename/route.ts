@@ -0,0 +1,15 @@
+import { renameFile } from '@/lib/file-operations';
+import { apiError, runFileOperation, withApiToken } from '@/lib/api';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Renames a failed file and moves it back into the import folder. Body: { "newName": "..." }.
+export const POST = withApiToken<{ name: string }>('rename', async (request, { user }, { name }) => {
+    const body = await request.json().catch(() => null);
+    const newName = body?.newName;
+    if (typeof newName !== 'string' || !newName.trim()) {
+        return apiError(400, 'The request body must be JSON with a non-empty "newName".');
+    }
+    return runFileOperation(request, name, pipelineId => renameFile(pipelineId, name, newName.trim(), user.username));
+});
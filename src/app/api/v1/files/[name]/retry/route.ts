@@ -0,0 +1,9 @@
+import { retryFile } from '@/lib/file-operations';
+import { runFileOperation, withApiToken } from '@/lib/api';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Moves a failed file back into its pipeline's import folder.
+export const POST = withApiToken<{ name: string }>('retry', async (request, { user }, { name }) =>
+    runFileOperation(request, name, pipelineId => retryFile(pipelineId, name, user.username)));
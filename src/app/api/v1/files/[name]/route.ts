@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getFileStatusEvents } from '@/lib/db';
+import { findTrackedFile, withApiToken } from '@/lib/api';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Returns one tracked file. With ?history=true the response also lists its status changes.
+// A name tracked in several pipelines also needs ?pipelineId=, as do the file operations.
+export const GET = withApiToken<{ name: string }>('view', async (request, _auth, { name }) => {
+    const file = await findTrackedFile(request, name);
+    if (file instanceof Response) {
+        return file;
+    }
+    const includeHistory = new URL(request.url).searchParams.get('history') === 'true';
+    return NextResponse.json(includeHistory ? { file, history: await getFileStatusEvents(file.pipelineId ?? '', name) } : { file });
+});
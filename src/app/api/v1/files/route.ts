@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { queryFileStatuses } from '@/lib/db';
+import { apiError, withApiToken } from '@/lib/api';
+import type { FileStatus, FileStatusQuery, FileStatusSortColumn } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const STATUSES: FileStatus['status'][] = ['arriving', 'processing', 'failed', 'published', 'timed-out'];
+const SORT_COLUMNS: FileStatusSortColumn[] = ['name', 'status', 'lastUpdated'];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+function parsePositiveInteger(value: string | null, fallback: number): number | null {
+    if (value === null) return fallback;
+    const number = Number(value);
+    return Number.isInteger(number) && number > 0 ? number : null;
+}
+
+function parseTimestamp(value: string | null): string | undefined | null {
+    if (value === null) return undefined;
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// Lists tracked files, newest first. Accepts the dashboard's filters as query parameters:
+// status, pipelineId, search, from and to (ISO timestamps), sortBy, sortDir, page and pageSize.
+export const GET = withApiToken('view', async (request) => {
+    const params = new URL(request.url).searchParams;
+    const status = params.get('status');
+    const sortBy = params.get('sortBy');
+    const sortDir = params.get('sortDir');
+    const page = parsePositiveInteger(params.get('page'), 1);
+    const pageSize = parsePositiveInteger(params.get('pageSize'), DEFAULT_PAGE_SIZE);
+    const from = parseTimestamp(params.get('from'));
+    const to = parseTimestamp(params.get('to'));
+
+    if (status && status !== 'all' && !STATUSES.includes(status as FileStatus['status'])) {
+        return apiError(400, `status must be one of: all, ${STATUSES.join(', ')}.`);
+    }
+    if (sortBy && !SORT_COLUMNS.includes(sortBy as FileStatusSortColumn)) {
+        return apiError(400, `sortBy must be one of: ${SORT_COLUMNS.join(', ')}.`);
+    }
+    if (sortDir && sortDir !== 'asc' && sortDir !== 'desc') {
+        return apiError(400, 'sortDir must be asc or desc.');
+    }
+    if (page === null) {
+        return apiError(400, 'page must be a positive integer.');
+    }
+    if (pageSize === null || pageSize > MAX_PAGE_SIZE) {
+        return apiError(400, `pageSize must be an integer from 1 to ${MAX_PAGE_SIZE}.`);
+    }
+    if (from === null || to === null) {
+        return apiError(400, 'from and to must be valid timestamps.');
+    }
+
+    const query: FileStatusQuery = {
+        status: (status || 'all') as FileStatusQuery['status'],
+        pipelineId: params.get('pipelineId') || 'all',
+        search: params.get('search') || undefined,
+        from,
+        to,
+        sortBy: (sortBy || 'lastUpdated') as FileStatusSortColumn,
+        sortDir: (sortDir || 'desc') as FileStatusQuery['sortDir'],
+        page,
+        pageSize,
+    };
+    const result = await queryFileStatuses(query);
+    return NextResponse.json({ ...result, page, pageSize });
+});
@@ -1,18 +1,17 @@
 
 "use client";
 
-import { useEffect, useState, useMemo, useTransition } from "react";
+import { useCallback, useEffect, useRef, useState, useTransition } from "react";
 import { Button } from "@/components/ui/button";
 import { FileStatusTable } from "@/components/file-status-table";
 import { useAuth } from "@/hooks/use-auth";
-import type { FileStatus } from "@/types";
+import type { FilenameRule, FileStatus, FileStatusChange, FileStatusQuery, FileStatusQueryResult, FileStatusSortColumn, Pipeline } from "@/types";
 import { Trash2, Search, X, CheckCircle2, AlertTriangle, Loader, Clock, Info, Trash, Upload, Download, FileUp, GitBranchPlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { clearAllFileStatuses, retryFile, renameFile, checkWriteAccess, deleteFailedFile, exportFileStatusesToCsv, importFileStatusesFromCsv, expandFilePrefixes } from "@/lib/actions";
-import { readDb } from "@/lib/db";
+import { clearAllFileStatuses, retryFile, renameFile, checkWriteAccess, deleteFailedFile, exportFileStatusesToCsv, importFileStatusesFromCsv, expandFile, getFilenameRules, getPipelines, queryFileStatuses } from "@/lib/actions";
 import {
   Dialog,
   DialogContent,
@@ -34,18 +33,26 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { isToday, isYesterday, parseISO } from "date-fns";
+import { startOfToday, startOfYesterday } from "date-fns";
+import { hasPermission } from "@/lib/permissions";
+import { findFilenameRule } from "@/lib/filename-rules";
 
 
 export default function DashboardPage() {
   const { user } = useAuth();
   const [files, setFiles] = useState<FileStatus[]>([]);
+  const [totalFiles, setTotalFiles] = useState(0);
+  const [statusCounts, setStatusCounts] = useState<Partial<FileStatusQueryResult['counts']>>({});
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [filenameRules, setFilenameRules] = useState<FilenameRule[]>([]);
+  const [pipelineFilter, setPipelineFilter] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState("");
   const [activeFilter, setActiveFilter] = useState<FileStatus['status'] | 'all' | 'today' | 'yesterday'>('all');
   const [isPending, startTransition] = useTransition();
   const [isRenameDialogOpen, setIsRenameDialogOpen] = useState(false);
   const [fileToRename, setFileToRename] = useState<FileStatus | null>(null);
   const [newFileName, setNewFileName] = useState("");
+  const [suggestingRule, setSuggestingRule] = useState<string | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<FileStatus | null>(null);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
@@ -53,20 +60,111 @@ export default function DashboardPage() {
   const [importError, setImportError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
+  const [sortBy, setSortBy] = useState<FileStatusSortColumn>('lastUpdated');
+  const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
 
 
   const { toast } = useToast();
   const [canWrite, setCanWrite] = useState(true);
 
-  const fetchFiles = async () => {
-    const db = await readDb();
-    setFiles(db.fileStatuses);
-  };
+  const fetchFiles = useCallback(async () => {
+    const query: FileStatusQuery = {
+      pipelineId: pipelineFilter,
+      search: searchTerm,
+      sortBy,
+      sortDir,
+      page: currentPage,
+      pageSize: itemsPerPage,
+    };
+    // Day boundaries are the browser's local midnight, sent to the server as UTC timestamps.
+    if (activeFilter === 'today') {
+      query.from = startOfToday().toISOString();
+    } else if (activeFilter === 'yesterday') {
+      query.from = startOfYesterday().toISOString();
+      query.to = startOfToday().toISOString();
+    } else {
+      query.status = activeFilter;
+    }
+    const result = await queryFileStatuses(query);
+    setFiles(result.files);
+    setTotalFiles(result.total);
+    setStatusCounts(result.counts);
+  }, [pipelineFilter, searchTerm, sortBy, sortDir, currentPage, itemsPerPage, activeFilter]);
 
   useEffect(() => {
     fetchFiles();
-    const intervalId = setInterval(fetchFiles, 5000); 
+    // Live changes arrive over the stream below; this is only a safety net.
+    const intervalId = setInterval(fetchFiles, 30000);
     return () => clearInterval(intervalId);
+  }, [fetchFiles]);
+
+  const refetchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const applyChangeRef = useRef<(change: FileStatusChange) => void>(() => {});
+
+  applyChangeRef.current = ({ event, file }: FileStatusChange) => {
+    if (pipelineFilter !== 'all' && event.pipelineId !== pipelineFilter) return;
+
+    setStatusCounts(prev => {
+      const next = { ...prev };
+      if (event.oldStatus) next[event.oldStatus] = Math.max(0, (next[event.oldStatus] || 0) - 1);
+      if (event.newStatus) next[event.newStatus] = (next[event.newStatus] || 0) + 1;
+      return next;
+    });
+
+    // Changes are patched into the page when its rows are known to stay the same: a visible
+    // row in the name sort, or, in the default newest-first sort, the first page where the
+    // changed file simply moves to the top. Anything else re-fetches the current page once
+    // the burst of changes settles.
+    // Files are identified by pipeline and name.
+    const isChangedFile = (f: FileStatus) => f.pipelineId === event.pipelineId && f.name === event.fileName;
+    const isVisible = files.some(isChangedFile);
+    const isNewestFirst = sortBy === 'lastUpdated' && sortDir === 'desc';
+    // The search is a case-insensitive substring match, as in the query. A change is always
+    // "today", and never "yesterday".
+    const matchesView = file !== null
+      && file.name.toLowerCase().includes(searchTerm.trim().toLowerCase())
+      && (activeFilter === 'all' || activeFilter === 'today' || activeFilter === file.status);
+    // Whether the file was already counted in the view before this change.
+    const wasInView = isVisible || (event.oldStatus !== null && (activeFilter === 'all' || activeFilter === event.oldStatus));
+
+    let patched = false;
+    if (file && matchesView) {
+      if (isVisible && sortBy === 'name') {
+        setFiles(prev => prev.map(f => isChangedFile(f) ? file : f));
+        patched = true;
+      } else if (isNewestFirst && currentPage === 1 && (isVisible || activeFilter !== 'today' || event.oldStatus === null)) {
+        setFiles(prev => {
+          const next = [file, ...prev.filter(f => !isChangedFile(f))];
+          return itemsPerPage > 0 ? next.slice(0, itemsPerPage) : next;
+        });
+        if (!wasInView) setTotalFiles(prev => prev + 1);
+        patched = true;
+      }
+    }
+    if (!patched) {
+      if (refetchTimeoutRef.current) clearTimeout(refetchTimeoutRef.current);
+      refetchTimeoutRef.current = setTimeout(fetchFiles, 300);
+    }
+  };
+
+  useEffect(() => {
+    const source = new EventSource('/api/file-statuses/stream');
+    source.addEventListener('status', (e) => {
+      applyChangeRef.current(JSON.parse((e as MessageEvent).data));
+    });
+    return () => {
+      source.close();
+      if (refetchTimeoutRef.current) clearTimeout(refetchTimeoutRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    async function fetchPipelines() {
+      const [allPipelines, rules] = await Promise.all([getPipelines(), getFilenameRules()]);
+      setPipelines(allPipelines);
+      setFilenameRules(rules);
+    }
+    fetchPipelines();
   }, []);
 
   useEffect(() => {
@@ -91,8 +189,7 @@ export default function DashboardPage() {
 
   const handleRetry = (file: FileStatus) => {
     startTransition(async () => {
-      if (!user) return;
-      const result = await retryFile(file.name, user.username);
+      const result = await retryFile(file.pipelineId ?? '', file.name);
       if (result.success) {
         await fetchFiles();
         toast({
@@ -110,16 +207,19 @@ export default function DashboardPage() {
   }
 
   const handleOpenRenameDialog = (file: FileStatus) => {
+    // A rename rule that applies to the file pre-fills the name it gives.
+    const suggestion = findFilenameRule(filenameRules, 'rename', file.name, file.pipelineId);
     setFileToRename(file);
-    setNewFileName(file.name);
+    setNewFileName(suggestion ? suggestion.fileNames[0] : file.name);
+    setSuggestingRule(suggestion ? suggestion.rule.name : null);
     setIsRenameDialogOpen(true);
   };
   
   const handleRename = () => {
-    if (!fileToRename || !newFileName.trim() || !user) return;
+    if (!fileToRename || !newFileName.trim()) return;
 
     startTransition(async () => {
-      const result = await renameFile(fileToRename.name, newFileName.trim(), user.username);
+      const result = await renameFile(fileToRename.pipelineId ?? '', fileToRename.name, newFileName.trim());
       await fetchFiles();
       if (result.success) {
         toast({
@@ -148,7 +248,7 @@ export default function DashboardPage() {
     if (!fileToDelete) return;
 
     startTransition(async () => {
-      const result = await deleteFailedFile(fileToDelete.name);
+      const result = await deleteFailedFile(fileToDelete.pipelineId ?? '', fileToDelete.name);
       await fetchFiles();
       if (result.success) {
         toast({
@@ -169,8 +269,7 @@ export default function DashboardPage() {
 
   const handleExpand = (file: FileStatus) => {
     startTransition(async () => {
-        if (!user) return;
-        const result = await expandFilePrefixes(file.name, user.username);
+        const result = await expandFile(file.pipelineId ?? '', file.name);
         if (result.success) {
             await fetchFiles();
             toast({
@@ -244,37 +343,25 @@ export default function DashboardPage() {
   };
 
 
-  const filteredFiles = useMemo(() => {
-    return files
-      .filter(file => {
-        if (activeFilter === 'all') return true;
-        if (activeFilter === 'today') return isToday(parseISO(file.lastUpdated));
-        if (activeFilter === 'yesterday') return isYesterday(parseISO(file.lastUpdated));
-        return file.status === activeFilter;
-      })
-      .filter(file => file.name.toLowerCase().includes(searchTerm.toLowerCase()));
-  }, [files, activeFilter, searchTerm]);
-
   useEffect(() => {
     setCurrentPage(1);
-  }, [activeFilter, searchTerm, itemsPerPage]);
+  }, [activeFilter, searchTerm, itemsPerPage, pipelineFilter, sortBy, sortDir]);
 
-  const totalPages = itemsPerPage > 0 ? Math.ceil(filteredFiles.length / itemsPerPage) : 1;
-  const paginatedFiles = useMemo(() => {
-     if (itemsPerPage === 0) {
-      return filteredFiles;
+  const totalPages = itemsPerPage > 0 ? Math.max(1, Math.ceil(totalFiles / itemsPerPage)) : 1;
+
+  useEffect(() => {
+    // Rows can disappear between polls (cleanup, deletes); stay on a page that exists.
+    if (currentPage > totalPages) setCurrentPage(totalPages);
+  }, [currentPage, totalPages]);
+
+  const handleSortChange = (column: FileStatusSortColumn) => {
+    if (column === sortBy) {
+      setSortDir(prev => prev === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(column);
+      setSortDir(column === 'lastUpdated' ? 'desc' : 'asc');
     }
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    const endIndex = startIndex + itemsPerPage;
-    return filteredFiles.slice(startIndex, endIndex);
-  }, [filteredFiles, currentPage, itemsPerPage]);
-
-  const statusCounts = useMemo(() => {
-    return files.reduce((acc, file) => {
-      acc[file.status] = (acc[file.status] || 0) + 1;
-      return acc;
-    }, {} as Record<FileStatus['status'], number>);
-  }, [files]);
+  };
 
   return (
     <motion.div
@@ -291,7 +378,7 @@ export default function DashboardPage() {
           </p>
         </div>
         <div className="flex flex-wrap gap-2">
-           {user?.role === 'admin' && (
+           {hasPermission(user, 'import-export') && (
             <>
               <Button variant="outline" onClick={() => setIsImportDialogOpen(true)} disabled={isPending}>
                 <Upload className="mr-2 h-4 w-4" />
@@ -301,11 +388,13 @@ export default function DashboardPage() {
                 <Download className="mr-2 h-4 w-4" />
                 {isPending ? "Exporting..." : "Export to CSV"}
               </Button>
+            </>
+           )}
+           {hasPermission(user, 'clear-all') && (
               <Button variant="destructive" onClick={handleClearAll} disabled={isPending}>
                   <Trash2 className="mr-2 h-4 w-4" />
                   {isPending ? "Clearing..." : "Clear All"}
               </Button>
-            </>
            )}
         </div>
       </div>
@@ -354,7 +443,7 @@ export default function DashboardPage() {
             <CardTitle>
                 File Status
                 <span className="ml-2 text-sm font-normal text-muted-foreground">
-                    (Showing {filteredFiles.length} files)
+                    (Showing {totalFiles} files)
                 </span>
             </CardTitle>
              <div className="flex items-center gap-4">
@@ -424,10 +513,24 @@ export default function DashboardPage() {
                 </Button>
               )}
             </div>
+            {pipelines.length > 1 && (
+              <Select value={pipelineFilter} onValueChange={setPipelineFilter}>
+                <SelectTrigger className="w-full sm:w-48">
+                  <SelectValue placeholder="All pipelines" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All pipelines</SelectItem>
+                  {pipelines.map(pipeline => (
+                    <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <div className="flex items-center gap-2 flex-wrap">
                 <Button size="sm" variant={activeFilter === 'all' ? 'default' : 'outline'} onClick={() => setActiveFilter('all')}>All</Button>
                 <Button size="sm" variant={activeFilter === 'today' ? 'default' : 'outline'} onClick={() => setActiveFilter('today')}>Today</Button>
                 <Button size="sm" variant={activeFilter === 'yesterday' ? 'default' : 'outline'} onClick={() => setActiveFilter('yesterday')}>Yesterday</Button>
+                <Button size="sm" variant={activeFilter === 'arriving' ? 'secondary' : 'outline'} className={activeFilter === 'arriving' ? 'bg-sky-500/80 text-white hover:bg-sky-500/70' : ''} onClick={() => setActiveFilter('arriving')}>Arriving</Button>
                 <Button size="sm" variant={activeFilter === 'processing' ? 'secondary' : 'outline'} className={activeFilter === 'processing' ? 'bg-yellow-500/80 text-white hover:bg-yellow-500/70' : ''} onClick={() => setActiveFilter('processing')}>Processing</Button>
                 <Button size="sm" variant={activeFilter === 'published' ? 'secondary' : 'outline'} className={activeFilter === 'published' ? 'bg-green-500/80 text-white hover:bg-green-500/70' : ''} onClick={() => setActiveFilter('published')}>Published</Button>
                 <Button size="sm" variant={activeFilter === 'failed' ? 'destructive' : 'outline'} onClick={() => setActiveFilter('failed')}>Failed</Button>
@@ -435,13 +538,17 @@ export default function DashboardPage() {
             </div>
           </div>
           <FileStatusTable
-            files={paginatedFiles}
+            files={files}
             onRetry={handleRetry}
             onRename={handleOpenRenameDialog}
             onDelete={handleOpenDeleteDialog}
             onExpand={handleExpand}
             isReadOnly={!canWrite}
-            userRole={user?.role}
+            permissions={user?.permissions}
+            pipelines={pipelines}
+            sortBy={sortBy}
+            sortDir={sortDir}
+            onSortChange={handleSortChange}
           />
         </CardContent>
       </Card>
@@ -463,6 +570,7 @@ export default function DashboardPage() {
               placeholder="Enter new filename"
               disabled={isPending}
             />
+            {suggestingRule && <p className="text-xs text-muted-foreground">Suggested by the rename rule "{suggestingRule}".</p>}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsRenameDialogOpen(false)}>Cancel</Button>
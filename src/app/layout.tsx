@@ -7,14 +7,14 @@ import { AuthProvider } from '@/contexts/auth-context';
 import { BrandingProvider } from '@/contexts/branding-context';
 import { AppShell } from '@/components/app-shell';
 import { ThemeProvider } from '@/components/theme-provider';
-import { readDb } from '@/lib/db';
+import { getBranding } from '@/lib/db';
 
 const inter = Inter({ subsets: ['latin'], variable: '--font-inter' });
 
 export async function generateMetadata(): Promise<Metadata> {
-  const db = await readDb();
-  const brandName = db.branding?.brandName || 'Publish Lookout';
-  const favicon = db.branding?.favicon || '/favicon.ico';
+  const branding = await getBranding();
+  const brandName = branding?.brandName || 'Publish Lookout';
+  const favicon = branding?.favicon || '/favicon.ico';
   
   return {
     title: brandName,
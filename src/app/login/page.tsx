@@ -20,33 +20,70 @@ import { Label } from "@/components/ui/label";
 import { useToast } from '@/hooks/use-toast';
 import { BrandLogo } from '@/components/brand-logo';
 import { AnimatePresence, motion } from 'framer-motion';
-import type { User } from '@/types';
-import { generateTwoFactorSecretForUser } from '@/lib/actions';
+import { generateTwoFactorSecret, getOidcLoginOption } from '@/lib/actions';
 import { Skeleton } from '@/components/ui/skeleton';
+import { PasswordRequirements } from '@/components/password-requirements';
+import { usePasswordPolicy } from '@/hooks/use-password-policy';
+import { validatePassword } from '@/lib/password-policy';
+import { RecoveryCodesList } from '@/components/recovery-codes-list';
 
 
-type LoginStep = 'credentials' | '2fa_verify' | '2fa_setup';
+type LoginStep = 'credentials' | '2fa_verify' | '2fa_setup' | 'recovery_codes' | 'password_change';
+
+// Reasons the OIDC callback sends back in the `sso_error` parameter.
+const SSO_ERRORS: Record<string, string> = {
+  disabled: "Single sign-on is not enabled.",
+  unavailable: "The identity provider could not be reached. Please try again later.",
+  expired: "The sign-in took too long or was started elsewhere. Please try again.",
+  denied: "Your account is not allowed to sign in here. Please contact an administrator.",
+  failed: "The identity provider did not confirm your sign-in. Please try again.",
+};
 
 export default function LoginPage() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [token, setToken] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [step, setStep] = useState<LoginStep>('credentials');
-  const [userFor2fa, setUserFor2fa] = useState<User | null>(null);
   const [qrCode, setQrCode] = useState<string | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [passwordChangePending, setPasswordChangePending] = useState(false);
+  const [ssoOption, setSsoOption] = useState<{ enabled: boolean; displayName: string } | null>(null);
 
-  const { login, completeTwoFactorLogin } = useAuth();
+  const { login, completeTwoFactorLogin, completeRecoveryCodeLogin, completePasswordChange } = useAuth();
+  const passwordPolicy = usePasswordPolicy();
   const { brandName } = useBranding();
   const router = useRouter();
   const { toast } = useToast();
   
+  // Users coming back from single sign-on continue here when they still need a second factor.
   useEffect(() => {
-    if (step === '2fa_setup' && userFor2fa && !qrCode) {
+    getOidcLoginOption().then(setSsoOption);
+    const params = new URLSearchParams(window.location.search);
+    const ssoStep = params.get('sso');
+    const ssoError = params.get('sso_error');
+    if (ssoStep === '2fa_setup' || ssoStep === '2fa_verify') {
+      setUsername(params.get('username') || '');
+      setStep(ssoStep);
+    }
+    if (ssoError) {
+      toast({ title: "Single Sign-On Failed", description: SSO_ERRORS[ssoError] ?? SSO_ERRORS.failed, variant: "destructive" });
+    }
+    if (ssoStep || ssoError) {
+      window.history.replaceState(null, '', '/login');
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (step === '2fa_setup' && !qrCode) {
       const generateQr = async () => {
         setIsLoading(true);
         try {
-          const result = await generateTwoFactorSecretForUser(userFor2fa.id, userFor2fa.username, brandName);
+          const result = await generateTwoFactorSecret(brandName);
           if (result.qrCodeDataUrl) {
             setQrCode(result.qrCodeDataUrl);
           } else {
@@ -62,7 +99,7 @@ export default function LoginPage() {
       }
       generateQr();
     }
-  }, [step, userFor2fa, qrCode, brandName, toast]);
+  }, [step, qrCode, brandName, toast]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -72,6 +109,20 @@ export default function LoginPage() {
         return;
     }
 
+    if (step === 'recovery_codes') {
+        if (passwordChangePending) {
+            setStep('password_change');
+        } else {
+            router.push('/dashboard');
+        }
+        return;
+    }
+
+    if (step === 'password_change') {
+        await handlePasswordChangeSubmit();
+        return;
+    }
+
     if (!username || !password) {
       toast({
         title: "Login Failed",
@@ -84,55 +135,114 @@ export default function LoginPage() {
     const result = await login(username, password);
     setIsLoading(false);
 
-    if (result.success && result.user) {
-        setUserFor2fa(result.user);
+    if (result.success) {
         if (result.requiresTwoFactorSetup) {
             setStep('2fa_setup');
         } else if (result.twoFactorRequired) {
             setStep('2fa_verify');
+        } else if (result.passwordChangeRequired) {
+            setStep('password_change');
         } else {
             router.push('/dashboard');
         }
     } else {
       toast({
         title: "Login Failed",
-        description: "Invalid username or password.",
+        description: result.error || "Invalid username or password.",
         variant: "destructive",
       });
     }
   };
 
   const handleTwoFactorSubmit = async () => {
-    if (!userFor2fa || !token) {
+    if (useRecoveryCode ? !recoveryCode : !token) {
        toast({
         title: "2FA Failed",
-        description: "Please enter the 2FA token.",
+        description: useRecoveryCode ? "Please enter a recovery code." : "Please enter the 2FA token.",
         variant: "destructive",
       });
       return;
     }
     setIsLoading(true);
-    const success = await completeTwoFactorLogin(userFor2fa.id, token);
+    const result = useRecoveryCode ? await completeRecoveryCodeLogin(recoveryCode) : await completeTwoFactorLogin(token);
     setIsLoading(false);
 
-    if (success) {
+    if (result.success && result.recoveryCodesRemaining !== undefined && result.recoveryCodesRemaining <= 3) {
+        toast({
+            title: "Recovery Codes Running Low",
+            description: `You have ${result.recoveryCodesRemaining} recovery codes left. Ask an administrator for new ones.`,
+        });
+    }
+
+    if (result.success && result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+        setPasswordChangePending(!!result.passwordChangeRequired);
+        setStep('recovery_codes');
+    } else if (result.passwordChangeRequired) {
+        setStep('password_change');
+    } else if (result.success) {
         router.push('/dashboard');
+    } else if (result.lockedOut) {
+        toast({
+            title: "2FA Failed",
+            description: result.error,
+            variant: "destructive",
+        });
+        handleBackToCredentials();
     } else {
         toast({
             title: "2FA Failed",
-            description: "The token is invalid. Please try again.",
+            description: useRecoveryCode ? "The recovery code is invalid or has already been used." : "The token is invalid. Please try again.",
             variant: "destructive",
         });
         setToken('');
+        setRecoveryCode('');
+    }
+  }
+
+  const handlePasswordChangeSubmit = async () => {
+    if (newPassword !== confirmNewPassword) {
+        toast({
+            title: "Password Change Failed",
+            description: "New passwords do not match.",
+            variant: "destructive",
+        });
+        return;
+    }
+    if (passwordPolicy && validatePassword(newPassword, passwordPolicy).length > 0) {
+        toast({
+            title: "Password Change Failed",
+            description: "The new password does not meet the password policy.",
+            variant: "destructive",
+        });
+        return;
+    }
+    setIsLoading(true);
+    const result = await completePasswordChange(newPassword);
+    setIsLoading(false);
+
+    if (result.success) {
+        router.push('/dashboard');
+    } else {
+        toast({
+            title: "Password Change Failed",
+            description: result.error,
+            variant: "destructive",
+        });
     }
   }
 
   const handleBackToCredentials = () => {
     setStep('credentials');
-    setUserFor2fa(null);
     setPassword('');
     setToken('');
+    setNewPassword('');
+    setConfirmNewPassword('');
     setQrCode(null);
+    setUseRecoveryCode(false);
+    setRecoveryCode('');
+    setRecoveryCodes([]);
+    setPasswordChangePending(false);
   }
 
   const variants = {
@@ -153,6 +263,8 @@ export default function LoginPage() {
              {step === 'credentials' && "Sign in to monitor and stay in control"}
              {step === '2fa_setup' && "Two-Factor Authentication Setup"}
              {step === '2fa_verify' && "Two-Factor Authentication"}
+             {step === 'recovery_codes' && "Save Your Recovery Codes"}
+             {step === 'password_change' && "Choose a New Password"}
           </CardDescription>
         </CardHeader>
         <form onSubmit={handleLogin}>
@@ -192,10 +304,15 @@ export default function LoginPage() {
                       />
                     </div>
                   </CardContent>
-                  <CardFooter>
+                  <CardFooter className="flex flex-col gap-2">
                     <Button type="submit" className="w-full" disabled={isLoading}>
                       {isLoading ? 'Signing In...' : 'Sign In'}
                     </Button>
+                    {ssoOption?.enabled && (
+                      <Button type="button" variant="outline" className="w-full" asChild>
+                        <a href="/api/auth/oidc/login">Sign in with {ssoOption.displayName}</a>
+                      </Button>
+                    )}
                   </CardFooter>
                 </motion.div>
               )}
@@ -263,30 +380,129 @@ export default function LoginPage() {
                   transition={{ duration: 0.3 }}
                 >
                   <CardContent className="space-y-4">
-                     <p className="text-center text-sm text-muted-foreground">
-                        Enter the 6-digit code from your authenticator app.
+                    {useRecoveryCode ? (
+                      <>
+                        <p className="text-center text-sm text-muted-foreground">
+                            Enter one of the recovery codes you saved when setting up two-factor authentication. Each code works only once.
+                        </p>
+                        <div className="space-y-2">
+                          <Label htmlFor="2fa-recovery-code">Recovery Code</Label>
+                          <Input
+                            id="2fa-recovery-code"
+                            type="text"
+                            placeholder="xxxxx-xxxxx"
+                            value={recoveryCode}
+                            onChange={(e) => setRecoveryCode(e.target.value)}
+                            required
+                            disabled={isLoading}
+                            autoComplete="off"
+                          />
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-center text-sm text-muted-foreground">
+                            Enter the 6-digit code from your authenticator app.
+                        </p>
+                        <div className="space-y-2">
+                          <Label htmlFor="2fa-token-verify">Authentication Code</Label>
+                          <Input
+                            id="2fa-token-verify"
+                            type="text"
+                            placeholder="123456"
+                            value={token}
+                            onChange={(e) => setToken(e.target.value)}
+                            required
+                            disabled={isLoading}
+                            autoComplete="one-time-code"
+                            inputMode="numeric"
+                            pattern="\d{6}"
+                          />
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                  <CardFooter className="flex flex-col gap-2">
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? 'Verifying...' : 'Verify'}
+                    </Button>
+                    <Button type="button" variant="link" size="sm" onClick={() => setUseRecoveryCode(!useRecoveryCode)} disabled={isLoading}>
+                        {useRecoveryCode ? 'Use authenticator app instead' : 'Lost your device? Use a recovery code'}
+                    </Button>
+                     <Button variant="link" size="sm" onClick={handleBackToCredentials} disabled={isLoading}>
+                        Back to login
+                    </Button>
+                  </CardFooter>
+                </motion.div>
+              )}
+
+              {step === 'recovery_codes' && (
+                <motion.div
+                  key="recovery-codes"
+                  initial="hidden"
+                  animate="visible"
+                  exit="exit"
+                  variants={variants}
+                  transition={{ duration: 0.3 }}
+                >
+                  <CardContent className="space-y-4">
+                    <p className="text-center text-sm text-muted-foreground">
+                        If you lose access to your authenticator app, you can sign in with one of these codes. Each code works once. Store them somewhere safe; they will not be shown again.
+                    </p>
+                    <RecoveryCodesList codes={recoveryCodes} username={username} />
+                  </CardContent>
+                  <CardFooter>
+                    <Button type="submit" className="w-full">
+                      I have saved my codes
+                    </Button>
+                  </CardFooter>
+                </motion.div>
+              )}
+
+              {step === 'password_change' && (
+                <motion.div
+                  key="password-change"
+                  initial="hidden"
+                  animate="visible"
+                  exit="exit"
+                  variants={variants}
+                  transition={{ duration: 0.3 }}
+                >
+                  <CardContent className="space-y-4">
+                    <p className="text-center text-sm text-muted-foreground">
+                        Your password is temporary or has expired. Please choose a new one to continue.
                     </p>
                     <div className="space-y-2">
-                      <Label htmlFor="2fa-token-verify">Authentication Code</Label>
+                      <Label htmlFor="new-password">New Password</Label>
                       <Input
-                        id="2fa-token-verify"
-                        type="text"
-                        placeholder="123456"
-                        value={token}
-                        onChange={(e) => setToken(e.target.value)}
+                        id="new-password"
+                        type="password"
+                        value={newPassword}
+                        onChange={(e) => setNewPassword(e.target.value)}
                         required
                         disabled={isLoading}
-                        autoComplete="one-time-code"
-                        inputMode="numeric"
-                        pattern="\d{6}"
+                        autoComplete="new-password"
+                      />
+                      <PasswordRequirements policy={passwordPolicy} password={newPassword} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="confirm-new-password">Confirm New Password</Label>
+                      <Input
+                        id="confirm-new-password"
+                        type="password"
+                        value={confirmNewPassword}
+                        onChange={(e) => setConfirmNewPassword(e.target.value)}
+                        required
+                        disabled={isLoading}
+                        autoComplete="new-password"
                       />
                     </div>
                   </CardContent>
                   <CardFooter className="flex flex-col gap-2">
                     <Button type="submit" className="w-full" disabled={isLoading}>
-                      {isLoading ? 'Verifying...' : 'Verify'}
+                      {isLoading ? 'Saving...' : 'Change Password & Sign In'}
                     </Button>
-                     <Button variant="link" size="sm" onClick={handleBackToCredentials} disabled={isLoading}>
+                    <Button variant="link" size="sm" onClick={handleBackToCredentials} disabled={isLoading}>
                         Back to login
                     </Button>
                   </CardFooter>
@@ -4,13 +4,14 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { readDb } from '@/lib/db';
+import { getMaintenanceStatus } from '@/lib/actions';
 import { BrandLogo } from '@/components/brand-logo';
 import { useBranding } from '@/hooks/use-branding';
 import { Skeleton } from '@/components/ui/skeleton';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/hooks/use-auth';
 import type { MaintenanceSettings } from '@/types';
+import { hasPermission } from '@/lib/permissions';
 
 export default function MaintenancePage() {
     const { user } = useAuth();
@@ -22,9 +23,9 @@ export default function MaintenancePage() {
     useEffect(() => {
         async function fetchSettings() {
             try {
-                const db = await readDb();
-                setSettings(db.maintenanceSettings);
-                if (!db.maintenanceSettings.enabled) {
+                const maintenanceSettings = await getMaintenanceStatus();
+                setSettings(maintenanceSettings);
+                if (!maintenanceSettings.enabled) {
                    // If maintenance mode got disabled, redirect to dashboard
                    router.replace('/dashboard');
                 }
@@ -37,9 +38,9 @@ export default function MaintenancePage() {
         fetchSettings();
     }, [router]);
 
-    // If the user is an admin, they should not be on this page.
+    // Users who can change the settings bypass maintenance mode, so they should not be on this page.
     useEffect(() => {
-        if (user?.role === 'admin') {
+        if (hasPermission(user, 'manage-settings')) {
             router.replace('/dashboard');
         }
     }, [user, router]);
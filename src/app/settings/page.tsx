@@ -9,8 +9,8 @@ import { useBranding } from "@/hooks/use-branding";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import type { MonitoredPath, MonitoredPaths, CleanupSettings, SmtpSettings, ProcessingSettings, Database, MaintenanceSettings } from "@/types";
-import { UploadCloud, XCircle, Clock, Save, Network, Info, FileImage, Upload, Download, Send, Construction } from "lucide-react";
+import type { MonitoredPath, Pipeline, WatchMode, CleanupSettings, SmtpSettings, ProcessingSettings, Database, MaintenanceSettings, PasswordPolicy } from "@/types";
+import { UploadCloud, XCircle, Clock, Save, Network, Info, FileImage, Upload, Download, Send, Construction, KeyRound } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Label } from "@/components/ui/label";
 import {
@@ -23,11 +23,8 @@ import {
 } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import * as db from "@/lib/db";
 import { 
-    updateMonitoredPaths,
-    addMonitoredExtension,
-    removeMonitoredExtension,
+    updatePipelines,
     updateCleanupSettings,
     testPath,
     updateFailureRemark,
@@ -37,24 +34,36 @@ import {
     exportAllSettings,
     importAllSettings,
     updateMaintenanceSettings,
+    updatePasswordPolicy,
+    getAllSettings,
 } from "@/lib/actions";
+import { DEFAULT_PASSWORD_POLICY } from "@/lib/password-policy";
+import { hasPermission } from "@/lib/permissions";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { BrandLogo } from "@/components/brand-logo";
+import { LdapSettingsCard } from "@/components/ldap-settings-card";
+import { OidcSettingsCard } from "@/components/oidc-settings-card";
+import { WebhooksCard } from "@/components/webhooks-card";
+import { AlertsCard } from "@/components/alerts-card";
+import { ReportsCard } from "@/components/reports-card";
+import { FilenameRulesCard } from "@/components/filename-rules-card";
+import { NamingSchemasCard } from "@/components/naming-schemas-card";
+import { ContentValidatorsCard } from "@/components/content-validators-card";
+import { SanitizeStepsEditor } from "@/components/sanitize-steps-editor";
 import { AnimatePresence, motion } from "framer-motion";
 import { PlusCircle, Trash2, Edit, Check } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 
 
-const defaultImportPath: MonitoredPath = {
-  id: 'import-path',
-  name: 'Import',
-  path: '',
-};
-
-const defaultFailedPath: MonitoredPath = {
-  id: 'failed-path',
-  name: 'Failed',
-  path: '',
+const createPipeline = (): Pipeline => {
+  const id = `pipeline-${Date.now()}`;
+  return {
+    id,
+    name: 'New Pipeline',
+    import: { id: `${id}-import`, name: 'Import', path: '' },
+    failed: { id: `${id}-failed`, name: 'Failed', path: '' },
+    extensions: [],
+  };
 };
 
 const defaultSmtpSettings: SmtpSettings = {
@@ -70,6 +79,10 @@ const defaultSmtpSettings: SmtpSettings = {
 const defaultProcessingSettings: ProcessingSettings = {
     autoTrimInvalidChars: false,
     autoExpandPrefixes: false,
+    autoApplyRenameRules: false,
+    slaTargetMinutes: 0,
+    stabilityScans: 1,
+    ignorePatterns: ['*.part', '*.tmp', '*.crdownload'],
 };
 
 const defaultMaintenanceSettings: MaintenanceSettings = {
@@ -83,11 +96,9 @@ export default function SettingsPage() {
   const { brandName, logo, favicon, footerText, setBrandName, setLogo, setFavicon, setFooterText, brandingLoading } = useBranding();
   const router = useRouter();
 
-  const [paths, setPaths] = useState<MonitoredPaths>({ import: defaultImportPath, failed: defaultFailedPath });
-  const [editingPathId, setEditingPathId] = useState<string | null>(null);
-  
-  const [extensions, setExtensions] = useState<string[]>([]);
-  const [newExtension, setNewExtension] = useState('');
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [editingPipelineId, setEditingPipelineId] = useState<string | null>(null);
+  const [newExtensions, setNewExtensions] = useState<Record<string, string>>({});
   const [localBrandName, setLocalBrandName] = useState(brandName);
   const [localFooterText, setLocalFooterText] = useState(footerText);
 
@@ -103,9 +114,12 @@ export default function SettingsPage() {
   const [smtpSettings, setSmtpSettings] = useState<SmtpSettings>(defaultSmtpSettings);
   
   const [processingSettings, setProcessingSettings] = useState<ProcessingSettings>(defaultProcessingSettings);
+  const [ignorePatterns, setIgnorePatterns] = useState(defaultProcessingSettings.ignorePatterns.join(', '));
 
   const [maintenanceSettings, setMaintenanceSettings] = useState<MaintenanceSettings>(defaultMaintenanceSettings);
 
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
   const [isSettingsImportDialogOpen, setIsSettingsImportDialogOpen] = useState(false);
   const [settingsImportFile, setSettingsImportFile] = useState<File | null>(null);
   const [settingsImportError, setSettingsImportError] = useState<string | null>(null);
@@ -114,10 +128,10 @@ export default function SettingsPage() {
   const { toast } = useToast();
 
   useEffect(() => {
-    if (!loading && user?.role !== 'admin') {
+    if (!loading && !hasPermission(user, 'manage-settings')) {
       toast({
         title: "Access Denied",
-        description: "You must be an admin to view this page.",
+        description: "You do not have permission to manage settings.",
         variant: "destructive",
       });
       router.push('/dashboard');
@@ -133,46 +147,72 @@ export default function SettingsPage() {
 
   useEffect(() => {
     const fetchData = async () => {
-        const fullDb = await db.readDb();
-        setPaths(fullDb.monitoredPaths);
-        setExtensions(fullDb.monitoredExtensions);
+        const fullDb = await getAllSettings();
+        setPipelines(fullDb.pipelines);
         setCleanupSettings(fullDb.cleanupSettings);
         setFailureRemark(fullDb.failureRemark || '');
         setInitialFailureRemark(fullDb.failureRemark || '');
         setSmtpSettings(fullDb.smtpSettings || defaultSmtpSettings);
         setProcessingSettings(fullDb.processingSettings || defaultProcessingSettings);
+        setIgnorePatterns((fullDb.processingSettings || defaultProcessingSettings).ignorePatterns.join(', '));
         setMaintenanceSettings(fullDb.maintenanceSettings || defaultMaintenanceSettings);
+        setPasswordPolicy(fullDb.passwordPolicy || DEFAULT_PASSWORD_POLICY);
     }
     fetchData();
   }, [])
 
 
-  const handleSavePath = (id: 'import' | 'failed') => {
+  const handleSavePipeline = (pipelineId: string) => {
     startTransition(async () => {
-        const pathData = paths[id];
-        if (!pathData.name || !pathData.path) {
-             toast({ title: "Error", description: `Please fill in all required fields for the ${pathData.name} Location.`, variant: "destructive" });
+        const pipeline = pipelines.find(p => p.id === pipelineId);
+        if (!pipeline) return;
+        if (!pipeline.name || !pipeline.import.path || !pipeline.failed.path) {
+             toast({ title: "Error", description: `Please fill in the name and both locations for the ${pipeline.name || 'new'} pipeline.`, variant: "destructive" });
              return;
         }
 
-        await updateMonitoredPaths(paths);
-        toast({ title: "Location Saved", description: `Configuration for ${pathData.name} has been saved.` });
-        setEditingPathId(null);
+        const result = await updatePipelines(pipelines);
+        if (!result.success) {
+             toast({ title: "Error", description: result.error, variant: "destructive" });
+             return;
+        }
+        toast({ title: "Pipeline Saved", description: `Configuration for ${pipeline.name} has been saved.` });
+        setEditingPipelineId(null);
     });
   };
 
-  const handleTestPath = (id: 'import' | 'failed') => {
+  const handleAddPipeline = () => {
+    const pipeline = createPipeline();
+    setPipelines(prev => [...prev, pipeline]);
+    setEditingPipelineId(pipeline.id);
+  };
+
+  const handleRemovePipeline = (pipelineId: string) => {
     startTransition(async () => {
-        const pathData = paths[id];
-        if (!pathData.path) {
+        const pipeline = pipelines.find(p => p.id === pipelineId);
+        const remaining = pipelines.filter(p => p.id !== pipelineId);
+        const result = await updatePipelines(remaining);
+        if (!result.success) {
+            toast({ title: "Error", description: result.error, variant: "destructive" });
+            return;
+        }
+        setPipelines(remaining);
+        if (editingPipelineId === pipelineId) setEditingPipelineId(null);
+        toast({ title: "Pipeline Removed", description: `${pipeline?.name} is no longer monitored.`, variant: "destructive" });
+    });
+  };
+
+  const handleTestPath = (location: MonitoredPath) => {
+    startTransition(async () => {
+        if (!location.path) {
             toast({ title: "Error", description: "Path cannot be empty.", variant: "destructive" });
             return;
         }
-        const result = await testPath(pathData.path);
+        const result = await testPath(location.path);
         if (result.success) {
             toast({ 
               title: "Success", 
-              description: `Path "${pathData.path}" is accessible.`,
+              description: `Path "${location.path}" is accessible.`,
             });
         } else {
             toast({ title: "Error", description: result.error, variant: "destructive", duration: 10000 });
@@ -180,44 +220,59 @@ export default function SettingsPage() {
     });
   }
 
-  const handlePathChange = (
+  const handlePipelineChange = (pipelineId: string, changes: Partial<Pipeline>) => {
+    setPipelines(prev => prev.map(p => p.id === pipelineId ? { ...p, ...changes } : p));
+  };
+
+  const handleLocationChange = (
+    pipelineId: string,
     type: 'import' | 'failed', 
     field: keyof MonitoredPath, 
     value: MonitoredPath[keyof MonitoredPath]
   ) => {
-    setPaths(prev => ({
-        ...prev,
+    setPipelines(prev => prev.map(p => p.id === pipelineId ? {
+        ...p,
         [type]: {
-            ...prev[type],
+            ...p[type],
             [field]: value
         }
-    }));
+    } : p));
   };
 
-  const handleAddExtension = (e: React.FormEvent) => {
+  const handleAddExtension = (e: React.FormEvent, pipeline: Pipeline) => {
     e.preventDefault();
-    let cleanExtension = newExtension.trim().toLowerCase();
+    let cleanExtension = (newExtensions[pipeline.id] || '').trim().toLowerCase();
     if(cleanExtension === '') return;
     if (cleanExtension.startsWith('.')) {
         cleanExtension = cleanExtension.substring(1);
     }
-    if (extensions.includes(cleanExtension)) {
-        toast({ title: "Duplicate Extension", description: `The extension ".${cleanExtension}" is already being monitored.`, variant: "destructive" });
+    if (pipeline.extensions.includes(cleanExtension)) {
+        toast({ title: "Duplicate Extension", description: `The extension ".${cleanExtension}" is already being monitored by ${pipeline.name}.`, variant: "destructive" });
         return;
     }
      startTransition(async () => {
-        await addMonitoredExtension(cleanExtension);
-        setExtensions(prev => [...prev, cleanExtension]);
-        setNewExtension('');
-        toast({ title: "Extension Added", description: `Successfully added ".${cleanExtension}" to monitored extensions.`});
+        const updated = pipelines.map(p => p.id === pipeline.id ? { ...p, extensions: [...p.extensions, cleanExtension] } : p);
+        const result = await updatePipelines(updated);
+        if (!result.success) {
+            toast({ title: "Error", description: result.error, variant: "destructive" });
+            return;
+        }
+        setPipelines(updated);
+        setNewExtensions(prev => ({ ...prev, [pipeline.id]: '' }));
+        toast({ title: "Extension Added", description: `Successfully added ".${cleanExtension}" to ${pipeline.name}.`});
     });
   };
 
-  const handleRemoveExtension = (ext: string) => {
+  const handleRemoveExtension = (pipeline: Pipeline, ext: string) => {
     startTransition(async () => {
-        await removeMonitoredExtension(ext);
-        setExtensions(prev => prev.filter(e => e !== ext));
-        toast({ title: "Extension Removed", description: `Successfully removed ".${ext}" from monitored extensions.`, variant: "destructive" });
+        const updated = pipelines.map(p => p.id === pipeline.id ? { ...p, extensions: p.extensions.filter(e => e !== ext) } : p);
+        const result = await updatePipelines(updated);
+        if (!result.success) {
+            toast({ title: "Error", description: result.error, variant: "destructive" });
+            return;
+        }
+        setPipelines(updated);
+        toast({ title: "Extension Removed", description: `Successfully removed ".${ext}" from ${pipeline.name}.`, variant: "destructive" });
     });
   };
   
@@ -346,12 +401,16 @@ export default function SettingsPage() {
     });
   }
   
-  const handleProcessingSettingsChange = (field: keyof ProcessingSettings, value: boolean) => {
+  const handleProcessingSettingsChange = <K extends keyof ProcessingSettings>(field: K, value: ProcessingSettings[K]) => {
     startTransition(async () => {
         const newSettings = { ...processingSettings, [field]: value };
-        await updateProcessingSettings(newSettings);
-        setProcessingSettings(newSettings);
-        toast({ title: "Processing Settings Saved", description: "Your file processing rules have been updated." });
+        const result = await updateProcessingSettings(newSettings);
+        if (result.success) {
+            setProcessingSettings(newSettings);
+            toast({ title: "Processing Settings Saved", description: "Your file processing rules have been updated." });
+        } else {
+            toast({ title: "Error", description: result.error, variant: "destructive" });
+        }
     });
   }
 
@@ -372,6 +431,32 @@ export default function SettingsPage() {
     });
   }
 
+  const handlePasswordPolicyChange = <K extends keyof PasswordPolicy>(field: K, value: PasswordPolicy[K]) => {
+      setPasswordPolicy(prev => ({
+          ...prev,
+          [field]: value
+      }));
+  };
+
+  const handleSavePasswordPolicy = () => {
+    if (passwordPolicy.minLength < 8) {
+      toast({ title: "Invalid Policy", description: "The minimum password length must be at least 8 characters.", variant: "destructive" });
+      return;
+    }
+    if (passwordPolicy.historyCount < 0 || passwordPolicy.historyCount > 24) {
+      toast({ title: "Invalid Policy", description: "Password history must be between 0 and 24 passwords.", variant: "destructive" });
+      return;
+    }
+    if (passwordPolicy.maxAgeDays < 0) {
+      toast({ title: "Invalid Policy", description: "Password expiry cannot be negative.", variant: "destructive" });
+      return;
+    }
+    startTransition(async () => {
+      await updatePasswordPolicy(passwordPolicy);
+      toast({ title: "Password Policy Saved", description: "The new policy applies to every password set from now on." });
+    });
+  }
+
   const handleExportSettings = () => {
     startTransition(async () => {
       const { settings, error } = await exportAllSettings();
@@ -436,27 +521,19 @@ export default function SettingsPage() {
   };
 
 
-  if (loading || user?.role !== 'admin' || brandingLoading) {
+  if (loading || !hasPermission(user, 'manage-settings') || brandingLoading) {
     return null;
   }
 
-  const renderPath = (p: MonitoredPath, type: 'import' | 'failed') => {
-    const isEditing = editingPathId === p.id;
-    const onPathChange = (field: keyof MonitoredPath, value: any) => handlePathChange(type, field, value);
+  const renderLocation = (pipeline: Pipeline, type: 'import' | 'failed') => {
+    const p = pipeline[type];
+    const isEditing = editingPipelineId === pipeline.id;
+    const onPathChange = (field: keyof MonitoredPath, value: any) => handleLocationChange(pipeline.id, type, field, value);
 
     return (
         <div className="rounded-lg border p-4 space-y-4 relative bg-muted/20">
             <div className="absolute top-2 right-2 flex gap-1">
-                 {isEditing ? (
-                    <Button variant="ghost" size="icon" onClick={() => handleSavePath(type)} disabled={isPending}>
-                        <Check className="h-5 w-5 text-green-600" />
-                    </Button>
-                ) : (
-                    <Button variant="ghost" size="icon" onClick={() => setEditingPathId(p.id)} disabled={isPending}>
-                        <Edit className="h-4 w-4" />
-                    </Button>
-                )}
-                 <Button variant="ghost" size="icon" onClick={() => handleTestPath(type)} disabled={isPending} title="Test Path">
+                 <Button variant="ghost" size="icon" onClick={() => handleTestPath(p)} disabled={isPending} title="Test Path">
                     <Network className="h-4 w-4" />
                 </Button>
             </div>
@@ -468,19 +545,108 @@ export default function SettingsPage() {
                 </div>
                 <div className="space-y-2">
                     <Label htmlFor={`path-${p.id}`}>Path</Label>
-                    <Input id={`path-${p.id}`} placeholder="e.g., /mnt/storage/import" value={p.path} onChange={e => onPathChange('path', e.target.value)} disabled={!isEditing || isPending} />
+                    <Input id={`path-${p.id}`} placeholder={`e.g., /mnt/storage/${type}`} value={p.path} onChange={e => onPathChange('path', e.target.value)} disabled={!isEditing || isPending} />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor={`watch-mode-${p.id}`}>Change Detection</Label>
+                    <Select value={p.watchMode ?? 'polling'} onValueChange={(v: WatchMode) => onPathChange('watchMode', v)} disabled={!isEditing || isPending}>
+                        <SelectTrigger id={`watch-mode-${p.id}`} className="md:w-[280px]">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="polling">Polling (every 5 seconds)</SelectItem>
+                            <SelectItem value="events">Filesystem events</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">Filesystem events react immediately and catch short-lived files. Use polling for network mounts, where change notifications are unreliable. If events cannot be used for this folder, the watcher falls back to polling.</p>
                 </div>
             </div>
-             <Alert>
-                  <Info className="h-4 w-4" />
-                  <AlertDescription>
-                    Provide the full local path to the folder. If it's a network share, it must be mounted on the server's operating system first.
-                  </AlertDescription>
-            </Alert>
         </div>
     )
   }
 
+  const renderPipeline = (pipeline: Pipeline) => {
+    const isEditing = editingPipelineId === pipeline.id;
+
+    return (
+        <div key={pipeline.id} className="rounded-lg border p-4 space-y-4">
+            <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                    <Label htmlFor={`pipeline-name-${pipeline.id}`}>Pipeline Name</Label>
+                    <Input id={`pipeline-name-${pipeline.id}`} placeholder="e.g., Web Channel" value={pipeline.name} onChange={e => handlePipelineChange(pipeline.id, { name: e.target.value })} disabled={!isEditing || isPending} />
+                </div>
+                {isEditing ? (
+                    <Button variant="ghost" size="icon" onClick={() => handleSavePipeline(pipeline.id)} disabled={isPending} title="Save Pipeline">
+                        <Check className="h-5 w-5 text-green-600" />
+                    </Button>
+                ) : (
+                    <Button variant="ghost" size="icon" onClick={() => setEditingPipelineId(pipeline.id)} disabled={isPending} title="Edit Pipeline">
+                        <Edit className="h-4 w-4" />
+                    </Button>
+                )}
+                <Button variant="ghost" size="icon" onClick={() => handleRemovePipeline(pipeline.id)} disabled={isPending} title="Remove Pipeline">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium">Import Location</Label>
+              <div className="mt-2">
+                {renderLocation(pipeline, 'import')}
+              </div>
+            </div>
+            <div>
+              <Label className="text-sm font-medium">Failed Location</Label>
+              <div className="mt-2">
+                {renderLocation(pipeline, 'failed')}
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium">Monitored File Extensions</Label>
+              <form onSubmit={(e) => handleAddExtension(e, pipeline)} className="flex flex-col sm:flex-row gap-2 mt-2 mb-2">
+                <Input
+                  placeholder="e.g., mov, wav, pdf"
+                  value={newExtensions[pipeline.id] || ''}
+                  onChange={(e) => setNewExtensions(prev => ({ ...prev, [pipeline.id]: e.target.value }))}
+                  disabled={isPending}
+                />
+                <Button type="submit" variant="outline" className="w-full sm:w-auto" disabled={isPending}>
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Add Extension
+                </Button>
+              </form>
+              <div className="rounded-lg border p-2">
+                <AnimatePresence>
+                    {pipeline.extensions.length > 0 ? (
+                        <div className="flex flex-wrap gap-2 p-2">
+                        {pipeline.extensions.map(ext => (
+                            <motion.div
+                                key={ext}
+                                layout
+                                initial={{ opacity: 0, scale: 0.5 }}
+                                animate={{ opacity: 1, scale: 1 }}
+                                exit={{ opacity: 0, scale: 0.5 }}
+                                transition={{ duration: 0.2 }}
+                                className="flex items-center gap-1 rounded-full bg-secondary px-3 py-1 text-sm text-secondary-foreground"
+                            >
+                                <span>.{ext}</span>
+                                <Button variant="ghost" size="icon" className="h-5 w-5 rounded-full" onClick={() => handleRemoveExtension(pipeline, ext)} disabled={isPending}>
+                                    <Trash2 className="h-3 w-3 text-destructive" />
+                                </Button>
+                            </motion.div>
+                        ))}
+                        </div>
+                    ) : (
+                        <div className="text-center text-sm text-muted-foreground p-2">No extensions are being monitored. All files will be tracked.</div>
+                    )}
+                </AnimatePresence>
+              </div>
+            </div>
+        </div>
+    );
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -556,23 +722,92 @@ export default function SettingsPage() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Monitored Locations</CardTitle>
-          <CardDescription>Define the import and failed locations to be monitored by the application.</CardDescription>
+          <CardTitle>Password Policy</CardTitle>
+          <CardDescription>Set the requirements for user passwords. Existing passwords are checked against the policy the next time they are changed.</CardDescription>
         </CardHeader>
-        <CardContent className="space-y-6">
-            <div>
-              <Label className="text-base font-medium">Import Location</Label>
-              <div className="mt-2">
-                {renderPath(paths.import, 'import')}
-              </div>
-            </div>
-            
-            <div>
-                 <Label className="text-base font-medium">Failed Location</Label>
-                 <div className="mt-2">
-                     {renderPath(paths.failed, 'failed')}
-                 </div>
+        <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                    <Label htmlFor="password-min-length">Minimum Length</Label>
+                    <Input
+                        id="password-min-length"
+                        type="number"
+                        min={8}
+                        value={passwordPolicy.minLength}
+                        onChange={(e) => handlePasswordPolicyChange('minLength', parseInt(e.target.value, 10) || 0)}
+                        disabled={isPending}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="password-history-count">Remembered Passwords</Label>
+                    <Input
+                        id="password-history-count"
+                        type="number"
+                        min={0}
+                        max={24}
+                        value={passwordPolicy.historyCount}
+                        onChange={(e) => handlePasswordPolicyChange('historyCount', parseInt(e.target.value, 10) || 0)}
+                        disabled={isPending}
+                    />
+                    <p className="text-xs text-muted-foreground">Set to 0 to allow reusing old passwords.</p>
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="password-max-age">Expire After (days)</Label>
+                    <Input
+                        id="password-max-age"
+                        type="number"
+                        min={0}
+                        value={passwordPolicy.maxAgeDays}
+                        onChange={(e) => handlePasswordPolicyChange('maxAgeDays', parseInt(e.target.value, 10) || 0)}
+                        disabled={isPending}
+                    />
+                    <p className="text-xs text-muted-foreground">Set to 0 for passwords that never expire.</p>
+                </div>
             </div>
+            {([
+                ['requireUppercase', 'Require an uppercase letter'],
+                ['requireLowercase', 'Require a lowercase letter'],
+                ['requireNumber', 'Require a number'],
+                ['requireSymbol', 'Require a symbol'],
+            ] as const).map(([field, label]) => (
+                <div key={field} className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <Label htmlFor={`password-${field}`} className="text-base">{label}</Label>
+                    <Switch
+                        id={`password-${field}`}
+                        checked={passwordPolicy[field]}
+                        onCheckedChange={(checked) => handlePasswordPolicyChange(field, checked)}
+                        disabled={isPending}
+                    />
+                </div>
+            ))}
+            <Button onClick={handleSavePasswordPolicy} disabled={isPending}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                Save Password Policy
+            </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pipelines</CardTitle>
+          <CardDescription>Define the publishing pipelines to monitor. Each pipeline has its own import and failed locations and its own file extensions.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+            {pipelines.length > 0 ? (
+                pipelines.map(renderPipeline)
+            ) : (
+                <div className="text-center text-muted-foreground p-4">No pipelines are configured. Add one to start monitoring files.</div>
+            )}
+            <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription>
+                  Provide the full local path to each folder. If it's a network share, it must be mounted on the server's operating system first.
+                </AlertDescription>
+            </Alert>
+            <Button variant="outline" onClick={handleAddPipeline} disabled={isPending}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Pipeline
+            </Button>
         </CardContent>
       </Card>
       
@@ -591,8 +826,11 @@ export default function SettingsPage() {
                 />
                 <div className="flex-1 space-y-1">
                     <Label htmlFor="auto-trim-chars">Auto-fix invalid filenames</Label>
-                    <p className="text-xs text-muted-foreground">When a file fails, automatically remove invalid characters and extra spaces from its filename, then move it to `import` to be retried.</p>
+                    <p className="text-xs text-muted-foreground">When a file fails, automatically fix its filename with the steps below, then move it to `import` to be retried. Test the steps on a filename before turning this on.</p>
                 </div>
+            </div>
+            <div className="rounded-lg border p-4">
+                <SanitizeStepsEditor />
             </div>
              <div className="flex flex-row items-start space-x-4 rounded-lg border p-4">
                 <Switch
@@ -602,13 +840,72 @@ export default function SettingsPage() {
                     disabled={isPending}
                 />
                 <div className="flex-1 space-y-1">
-                    <Label htmlFor="auto-expand-prefixes">Automatically Expand Filename Prefixes</Label>
-                    <p className="text-xs text-muted-foreground">When a file with multiple prefixes fails (e.g., `P1B2_...`), automatically create a copy for each prefix in the `import` folder.</p>
+                    <Label htmlFor="auto-expand-prefixes">Automatically Apply Expand Rules</Label>
+                    <p className="text-xs text-muted-foreground">When a file matching an expand rule fails (e.g., `P1B2_...`), automatically create a copy for each of its names in the `import` folder.</p>
+                </div>
+            </div>
+             <div className="flex flex-row items-start space-x-4 rounded-lg border p-4">
+                <Switch
+                    id="auto-apply-rename-rules"
+                    checked={processingSettings.autoApplyRenameRules}
+                    onCheckedChange={(checked) => handleProcessingSettingsChange('autoApplyRenameRules', checked)}
+                    disabled={isPending}
+                />
+                <div className="flex-1 space-y-1">
+                    <Label htmlFor="auto-apply-rename-rules">Automatically Apply Rename Rules</Label>
+                    <p className="text-xs text-muted-foreground">When a file matching a rename rule fails, automatically move it to `import` under the name the rule gives it to be retried.</p>
                 </div>
             </div>
+            <div className="space-y-2 rounded-lg border p-4">
+                <Label htmlFor="sla-target">Time-to-Publish Target (minutes)</Label>
+                <Input
+                    id="sla-target"
+                    type="number"
+                    min={0}
+                    className="sm:w-48"
+                    value={processingSettings.slaTargetMinutes}
+                    onChange={(e) => setProcessingSettings({ ...processingSettings, slaTargetMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    onBlur={() => handleProcessingSettingsChange('slaTargetMinutes', processingSettings.slaTargetMinutes)}
+                    disabled={isPending}
+                />
+                <p className="text-xs text-muted-foreground">The statistics page and summary reports show the share of files published within this time after processing started. Set to 0 for no target.</p>
+            </div>
+            <div className="space-y-2 rounded-lg border p-4">
+                <Label htmlFor="stability-scans">Stability Window (scans)</Label>
+                <Input
+                    id="stability-scans"
+                    type="number"
+                    min={1}
+                    className="sm:w-48"
+                    value={processingSettings.stabilityScans}
+                    onChange={(e) => setProcessingSettings({ ...processingSettings, stabilityScans: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    onBlur={() => handleProcessingSettingsChange('stabilityScans', processingSettings.stabilityScans)}
+                    disabled={isPending}
+                />
+                <p className="text-xs text-muted-foreground">New files show as arriving until their size and modification time stay the same for this many scans, so files still being copied in are not processed, timed out or renamed.</p>
+            </div>
+            <div className="space-y-2 rounded-lg border p-4">
+                <Label htmlFor="ignore-patterns">Ignore Patterns</Label>
+                <Input
+                    id="ignore-patterns"
+                    className="font-mono"
+                    placeholder="*.part, *.tmp"
+                    value={ignorePatterns}
+                    onChange={(e) => setIgnorePatterns(e.target.value)}
+                    onBlur={() => handleProcessingSettingsChange('ignorePatterns', ignorePatterns.split(',').map(pattern => pattern.trim()).filter(Boolean))}
+                    disabled={isPending}
+                />
+                <p className="text-xs text-muted-foreground">Files matching any of these patterns, separated by commas, are never tracked, such as the temporary files of a copy in progress. Use * for any characters and ? for one.</p>
+            </div>
         </CardContent>
       </Card>
 
+      <FilenameRulesCard />
+
+      <NamingSchemasCard />
+
+      <ContentValidatorsCard />
+
       <Card>
         <CardHeader>
           <CardTitle>Failure Reason Management</CardTitle>
@@ -638,7 +935,7 @@ export default function SettingsPage() {
        <Card>
         <CardHeader>
           <CardTitle>SMTP Configuration</CardTitle>
-          <CardDescription>Configure your SMTP server to send password reset emails.</CardDescription>
+          <CardDescription>Configure your SMTP server to send password reset emails and failure alerts.</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -658,6 +955,10 @@ export default function SettingsPage() {
                     <Label htmlFor="smtp-pass">Password</Label>
                     <Input id="smtp-pass" type="password" value={smtpSettings.auth.pass} onChange={(e) => handleSmtpSettingChange('auth.pass', e.target.value)} disabled={isPending} />
                 </div>
+                <div className="space-y-2">
+                    <Label htmlFor="smtp-from">From Address</Label>
+                    <Input id="smtp-from" placeholder="Defaults to the username" value={smtpSettings.fromAddress ?? ''} onChange={(e) => handleSmtpSettingChange('fromAddress', e.target.value)} disabled={isPending} />
+                </div>
             </div>
              <div className="flex items-center space-x-2">
                 <Switch id="smtp-secure" checked={smtpSettings.secure} onCheckedChange={(checked) => handleSmtpSettingChange('secure', checked)} disabled={isPending} />
@@ -674,59 +975,15 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Monitored File Extensions</CardTitle>
-          <CardDescription>Specify which file extensions or containers to monitor. Add one extension at a time.</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleAddExtension} className="flex flex-col sm:flex-row gap-4 mb-4">
-            <div className="flex-1 space-y-2">
-                <Label htmlFor="new-extension">Extension</Label>
-                <Input
-                id="new-extension"
-                placeholder="e.g., mov, wav, pdf"
-                value={newExtension}
-                onChange={(e) => setNewExtension(e.target.value)}
-                disabled={isPending}
-                />
-            </div>
-            <div className="self-end">
-              <Button type="submit" className="w-full sm:w-auto" disabled={isPending}>
-                <PlusCircle className="mr-2 h-4 w-4" />
-                Add Extension
-              </Button>
-            </div>
-          </form>
-
-          <div className="space-y-2 rounded-lg border p-2">
-            <AnimatePresence>
-                {extensions.length > 0 ? (
-                    <div className="flex flex-wrap gap-2 p-2">
-                    {extensions.map(ext => (
-                        <motion.div
-                            key={ext}
-                            layout
-                            initial={{ opacity: 0, scale: 0.5 }}
-                            animate={{ opacity: 1, scale: 1 }}
-                            exit={{ opacity: 0, scale: 0.5 }}
-                            transition={{ duration: 0.2 }}
-                            className="flex items-center gap-1 rounded-full bg-secondary px-3 py-1 text-sm text-secondary-foreground"
-                        >
-                            <span>.{ext}</span>
-                            <Button variant="ghost" size="icon" className="h-5 w-5 rounded-full" onClick={() => handleRemoveExtension(ext)} disabled={isPending}>
-                                <Trash2 className="h-3 w-3 text-destructive" />
-                            </Button>
-                        </motion.div>
-                    ))}
-                    </div>
-                ) : (
-                    <div className="text-center text-muted-foreground p-4">No extensions are being monitored. All files will be tracked.</div>
-                )}
-            </AnimatePresence>
-          </div>
-        </CardContent>
-      </Card>
+      <AlertsCard />
+
+      <ReportsCard />
+
+      <LdapSettingsCard />
+
+      <OidcSettingsCard />
+
+      <WebhooksCard />
 
       <Card>
         <CardHeader>
@@ -1,79 +1,192 @@
-
 "use client";
 
 import { useEffect, useState, useMemo } from "react";
+import type { DateRange } from "react-day-picker";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Bar, BarChart, CartesianGrid, ResponsiveContainer, XAxis, YAxis } from "recharts";
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, LineChart, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from "recharts";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { Button } from "@/components/ui/button";
-import { Download } from "lucide-react";
-import { readDb } from "@/lib/db";
-import { generateStatisticsReport } from "@/lib/actions";
-import type { FileStatus, ChartData } from "@/types";
-import { format, parseISO, startOfWeek, startOfMonth } from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { CalendarIcon, Download, Loader2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TimeZoneInput, getBrowserTimeZone } from "@/components/time-zone-input";
+import { generateStatisticsReport, getStatistics } from "@/lib/actions";
+import { formatDuration } from "@/lib/processing-metrics";
+import { isValidTimeZone } from "@/lib/time-zones";
+import type { FailureBreakdownRow } from "@/lib/failure-analytics";
+import type { StatisticsResult } from "@/lib/statistics";
+import type { StatisticsBucket } from "@/types";
+import { format, parseISO, subDays } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 
+type PublishedChartData = {
+  date: string;
+  published: number;
+  previousPublished?: number;
+};
+
+// Time-to-publish percentiles of one bucket, in minutes for the chart.
+type DurationChartData = {
+  date: string;
+  p50: number | null;
+  p90: number | null;
+  withinSla: number | null;
+};
+
+// Failure counts of one bucket, with the failure rate in percent for the chart.
+type FailureChartData = {
+  date: string;
+  failed: number;
+  timedOut: number;
+  failureRate: number | null;
+};
+
+const BUCKET_LABELS: Record<StatisticsBucket, string> = {
+  hour: "Hourly",
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+const RANGE_PRESETS = [7, 30, 90];
+
+// Labels a bucket key from the server (see StatisticsPoint).
+const getBucketLabel = (key: string, bucket: StatisticsBucket): string => {
+  if (bucket === "hour") return format(parseISO(key), 'MMM d, HH:mm');
+  if (bucket === "day") return format(parseISO(key), 'MMM d');
+  if (bucket === "week") return `Week of ${format(parseISO(key), 'MMM d')}`;
+  return format(parseISO(`${key}-01`), 'MMM yyyy');
+};
+
+const getLastDays = (days: number): DateRange => ({ from: subDays(new Date(), days - 1), to: new Date() });
+
+const toMinutes = (ms: number) => Math.round(ms / 6000) / 10;
+
+const toPercent = (share: number | null) => share === null ? null : Math.round(share * 1000) / 10;
+
+const MAX_RETRIED_FILES = 10;
+
 export default function StatisticsPage() {
-  const [files, setFiles] = useState<FileStatus[]>([]);
+  const [range, setRange] = useState<DateRange | undefined>(() => getLastDays(30));
+  const [bucket, setBucket] = useState<StatisticsBucket>("day");
+  // Set from the browser after mounting, so the server render does not use its own zone.
+  const [timeZone, setTimeZone] = useState("");
+  const [compare, setCompare] = useState(false);
+  const [statistics, setStatistics] = useState<StatisticsResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
-    const fetchFiles = async () => {
-      const db = await readDb();
-      setFiles(db.fileStatuses);
-    };
-    fetchFiles();
+    setTimeZone(getBrowserTimeZone());
   }, []);
 
-  const processChartData = (period: "daily" | "weekly" | "monthly"): ChartData[] => {
-    const publishedFiles = files.filter(file => file.status === 'published');
-    const counts: { [key: string]: number } = {};
+  useEffect(() => {
+    // Waits for the second day of a range being picked and for a complete time zone name.
+    if (!range?.from || !range.to || !isValidTimeZone(timeZone)) {
+      return;
+    }
+    let isCurrent = true;
+    const fetchStatistics = async () => {
+      setIsLoading(true);
+      const result = await getStatistics({
+        from: format(range.from!, 'yyyy-MM-dd'),
+        to: format(range.to!, 'yyyy-MM-dd'),
+        bucket,
+        timeZone,
+        compare,
+      });
+      if (!isCurrent) return;
+      setIsLoading(false);
+      if (result.error) {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+        return;
+      }
+      setStatistics(result.statistics!);
+    };
+    fetchStatistics();
+    return () => {
+      isCurrent = false;
+    };
+  }, [range, bucket, timeZone, compare]);
 
-    publishedFiles.forEach(file => {
-      const date = parseISO(file.lastUpdated);
-      let key: string;
+  const series = statistics?.series ?? [];
+  const slaTargetMinutes = statistics?.slaTargetMinutes ?? 0;
+  const durationSummary = statistics?.durations ?? null;
+  const retriesPerFile = statistics?.retriesPerFile ?? [];
 
-      if (period === "daily") {
-        key = format(date, "yyyy-MM-dd");
-      } else if (period === "weekly") {
-        key = format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
-      } else { // monthly
-        key = format(startOfMonth(date), "yyyy-MM");
-      }
+  const publishedData = useMemo((): PublishedChartData[] => series.map(point => ({
+    date: getBucketLabel(point.key, bucket),
+    published: point.published,
+    previousPublished: point.previousPublished,
+  })), [series, bucket]);
 
-      if (!counts[key]) {
-        counts[key] = 0;
-      }
-      counts[key]++;
-    });
-
-    const sortedKeys = Object.keys(counts).sort();
-
-    return sortedKeys.map(key => {
-        let label = key;
-        if(period === 'daily') label = format(parseISO(key), 'MMM d');
-        if(period === 'weekly') label = `Week of ${format(parseISO(key), 'MMM d')}`;
-        if(period === 'monthly') label = format(parseISO(`${key}-01`), 'MMM yyyy');
-
-        return {
-            date: label,
-            count: counts[key],
-        }
-    });
-  };
+  const durationData = useMemo((): DurationChartData[] => series.map(point => ({
+    date: getBucketLabel(point.key, bucket),
+    p50: point.p50 === null ? null : toMinutes(point.p50),
+    p90: point.p90 === null ? null : toMinutes(point.p90),
+    withinSla: toPercent(point.withinSla),
+  })), [series, bucket]);
 
-  const dailyData = useMemo(() => processChartData("daily"), [files]);
-  const weeklyData = useMemo(() => processChartData("weekly"), [files]);
-  const monthlyData = useMemo(() => processChartData("monthly"), [files]);
+  const failureData = useMemo((): FailureChartData[] => series.map(point => ({
+    date: getBucketLabel(point.key, bucket),
+    failed: point.failed,
+    timedOut: point.timedOut,
+    failureRate: toPercent(point.failureRate),
+  })), [series, bucket]);
 
   const chartConfig = {
-    count: {
+    published: {
       label: "Published",
       color: "hsl(var(--chart-1))",
     },
+    previousPublished: {
+      label: "Previous period",
+      color: "hsl(var(--muted-foreground))",
+    },
   };
-  
+
+  const durationChartConfig = {
+    p50: {
+      label: "Median (min)",
+      color: "hsl(var(--chart-1))",
+    },
+    p90: {
+      label: "p90 (min)",
+      color: "hsl(var(--chart-2))",
+    },
+    withinSla: {
+      label: "Within target (%)",
+      color: "hsl(var(--chart-3))",
+    },
+  };
+
+  const failureChartConfig = {
+    failed: {
+      label: "Failed",
+      color: "hsl(var(--destructive))",
+    },
+    timedOut: {
+      label: "Timed out",
+      color: "hsl(var(--chart-4))",
+    },
+    failureRate: {
+      label: "Failure rate (%)",
+      color: "hsl(var(--chart-2))",
+    },
+  };
+
+  const retryChartConfig = {
+    retries: {
+      label: "Retries",
+      color: "hsl(var(--chart-1))",
+    },
+  };
+
   const handleGenerateReport = async () => {
     toast({ title: "Generating Report...", description: "Please wait while your report is being prepared." });
     const { csv, error } = await generateStatisticsReport();
@@ -94,6 +207,16 @@ export default function StatisticsPage() {
     toast({ title: "Report Generated", description: "Your statistics report has been downloaded." });
   };
 
+  const getPublishedSummary = (): string => {
+    if (!statistics) return 'An overview of files published over time.';
+    const { totals, previousTotals } = statistics;
+    const summary = `${totals.published} file(s) published in this period.`;
+    if (!previousTotals) return summary;
+    const change = previousTotals.published > 0
+      ? ` (${totals.published >= previousTotals.published ? '+' : ''}${((totals.published / previousTotals.published - 1) * 100).toFixed(1)}%)`
+      : '';
+    return `${summary} ${previousTotals.published} in the previous period${change}.`;
+  };
 
   return (
     <div className="space-y-6">
@@ -101,7 +224,7 @@ export default function StatisticsPage() {
             <div>
                 <h2 className="text-2xl font-bold tracking-tight">Statistics</h2>
                 <p className="text-muted-foreground">
-                    View and export publishing trends.
+                    View and export publishing and failure trends.
                 </p>
             </div>
             <Button onClick={handleGenerateReport}>
@@ -110,37 +233,180 @@ export default function StatisticsPage() {
             </Button>
         </div>
 
+      <Card>
+        <CardContent className="flex flex-col gap-4 pt-6 lg:flex-row lg:flex-wrap lg:items-end">
+          <div className="space-y-2">
+            <Label>Date Range</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start font-normal lg:w-[280px]">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {range?.from ? `${format(range.from, 'PP')} – ${range.to ? format(range.to, 'PP') : '…'}` : 'Pick a date range'}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <div className="flex gap-2 border-b p-3">
+                  {RANGE_PRESETS.map(days => (
+                    <Button key={days} variant="outline" size="sm" onClick={() => setRange(getLastDays(days))}>
+                      Last {days} days
+                    </Button>
+                  ))}
+                </div>
+                <Calendar
+                  mode="range"
+                  numberOfMonths={2}
+                  defaultMonth={range?.from}
+                  selected={range}
+                  onSelect={setRange}
+                  disabled={{ after: new Date() }}
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statistics-bucket">Group By</Label>
+            <Select value={bucket} onValueChange={(value) => setBucket(value as StatisticsBucket)}>
+              <SelectTrigger id="statistics-bucket" className="lg:w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(BUCKET_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statistics-time-zone">Time Zone</Label>
+            <TimeZoneInput id="statistics-time-zone" value={timeZone} onChange={setTimeZone} />
+          </div>
+          <div className="flex h-10 items-center gap-2">
+            <Switch id="statistics-compare" checked={compare} onCheckedChange={setCompare} />
+            <Label htmlFor="statistics-compare">Compare to previous period</Label>
+          </div>
+          {isLoading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground lg:mb-2.5" />}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Published Files</CardTitle>
           <CardDescription>
-            An overview of files published over time.
+            {getPublishedSummary()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartComponent data={publishedData} config={chartConfig} compare={!!statistics?.previousTotals} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Time to Publish</CardTitle>
+          <CardDescription>
+            How long files published in this period spent from entering processing until they were published.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            <MetricTile label="Median (p50)" value={durationSummary ? formatDuration(durationSummary.p50) : '—'} />
+            <MetricTile label="p90" value={durationSummary ? formatDuration(durationSummary.p90) : '—'} />
+            <MetricTile label="p99" value={durationSummary ? formatDuration(durationSummary.p99) : '—'} />
+            <MetricTile
+              label={slaTargetMinutes > 0 ? `Within ${formatDuration(slaTargetMinutes * 60000)} target` : 'Within target'}
+              value={durationSummary?.withinSla != null ? `${(durationSummary.withinSla * 100).toFixed(1)}%` : '—'}
+              hint={slaTargetMinutes > 0 ? `${durationSummary?.count ?? 0} published files` : 'No target set in Settings'}
+            />
+          </div>
+          <DurationChart data={durationData} config={durationChartConfig} slaTargetMinutes={slaTargetMinutes} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Failures</CardTitle>
+          <CardDescription>
+            Failed and timed-out files over time, and the share of finished files that failed.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="daily" className="w-full">
-            <TabsList>
-              <TabsTrigger value="daily">Daily</TabsTrigger>
-              <TabsTrigger value="weekly">Weekly</TabsTrigger>
-              <TabsTrigger value="monthly">Monthly</TabsTrigger>
-            </TabsList>
-            <TabsContent value="daily">
-              <ChartComponent data={dailyData} config={chartConfig} />
-            </TabsContent>
-            <TabsContent value="weekly">
-                <ChartComponent data={weeklyData} config={chartConfig} />
-            </TabsContent>
-            <TabsContent value="monthly">
-                <ChartComponent data={monthlyData} config={chartConfig} />
-            </TabsContent>
-          </Tabs>
+          <FailureChart data={failureData} config={failureChartConfig} />
         </CardContent>
       </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Retries per File</CardTitle>
+            <CardDescription>
+              {retriesPerFile.length > 0
+                ? `${retriesPerFile.length} file(s) were retried ${retriesPerFile.reduce((sum, r) => sum + r.retries, 0)} time(s) in total. The most retried files:`
+                : 'Files that went back into processing after failing or timing out.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {retriesPerFile.length > 0 ? (
+              <div className="h-[300px] w-full">
+                <ChartContainer config={retryChartConfig} className="h-full w-full">
+                  <ResponsiveContainer>
+                    <BarChart data={retriesPerFile.slice(0, MAX_RETRIED_FILES)} layout="vertical" margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis type="category" dataKey="fileName" width={160} tickLine={false} axisLine={false} tick={{ fontSize: 11 }} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="retries" fill="var(--color-retries)" radius={4} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </ChartContainer>
+              </div>
+            ) : (
+              <div className="flex h-[300px] w-full items-center justify-center text-muted-foreground">No files have been retried.</div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Failure Breakdown</CardTitle>
+            <CardDescription>
+              Where failures come from. A prefix is the part of the filename before the first underscore.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="remark" className="w-full">
+              <TabsList>
+                <TabsTrigger value="remark">By Remark</TabsTrigger>
+                <TabsTrigger value="extension">By Extension</TabsTrigger>
+                <TabsTrigger value="prefix">By Prefix</TabsTrigger>
+              </TabsList>
+              <TabsContent value="remark">
+                <BreakdownTable rows={statistics?.failuresByRemark ?? []} label="Remark" />
+              </TabsContent>
+              <TabsContent value="extension">
+                <BreakdownTable rows={statistics?.failuresByExtension ?? []} label="Extension" />
+              </TabsContent>
+              <TabsContent value="prefix">
+                <BreakdownTable rows={statistics?.failuresByPrefix ?? []} label="Prefix" />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 }
 
-function ChartComponent({ data, config }: { data: ChartData[], config: any }) {
+function MetricTile({ label, value, hint }: { label: string, value: string, hint?: string }) {
+    return (
+        <div className="rounded-lg border p-4">
+            <p className="text-sm text-muted-foreground">{label}</p>
+            <p className="text-2xl font-bold">{value}</p>
+            {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+        </div>
+    );
+}
+
+function ChartComponent({ data, config, compare }: { data: PublishedChartData[], config: any, compare: boolean }) {
     if (data.length === 0) {
         return <div className="flex h-[250px] w-full items-center justify-center text-muted-foreground">No data to display for this period.</div>
     }
@@ -161,7 +427,8 @@ function ChartComponent({ data, config }: { data: ChartData[], config: any }) {
                   <ChartTooltip
                     content={<ChartTooltipContent />}
                   />
-                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  {compare && <Bar dataKey="previousPublished" fill="var(--color-previousPublished)" fillOpacity={0.4} radius={4} />}
+                  <Bar dataKey="published" fill="var(--color-published)" radius={4} />
                 </BarChart>
               </ResponsiveContainer>
             </ChartContainer>
@@ -169,3 +436,100 @@ function ChartComponent({ data, config }: { data: ChartData[], config: any }) {
     );
 }
 
+function DurationChart({ data, config, slaTargetMinutes }: { data: DurationChartData[], config: any, slaTargetMinutes: number }) {
+    if (data.every(point => point.p50 === null)) {
+        return <div className="flex h-[250px] w-full items-center justify-center text-muted-foreground">No published files with processing times in this period.</div>
+    }
+
+    return (
+        <div className="h-[250px] w-full">
+            <ChartContainer config={config} className="h-full w-full">
+              <ResponsiveContainer>
+                <LineChart data={data} margin={{ top: 20, right: 20, left: -10, bottom: 5 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickLine={false}
+                    tickMargin={10}
+                    axisLine={false}
+                  />
+                  <YAxis yAxisId="minutes" />
+                  {slaTargetMinutes > 0 && <YAxis yAxisId="percent" orientation="right" domain={[0, 100]} unit="%" />}
+                  <ChartTooltip
+                    content={<ChartTooltipContent />}
+                  />
+                  {slaTargetMinutes > 0 && <ReferenceLine yAxisId="minutes" y={slaTargetMinutes} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />}
+                  <Line yAxisId="minutes" type="monotone" dataKey="p50" stroke="var(--color-p50)" strokeWidth={2} dot={false} connectNulls />
+                  <Line yAxisId="minutes" type="monotone" dataKey="p90" stroke="var(--color-p90)" strokeWidth={2} dot={false} connectNulls />
+                  {slaTargetMinutes > 0 && <Line yAxisId="percent" type="monotone" dataKey="withinSla" stroke="var(--color-withinSla)" strokeDasharray="4 4" dot={false} connectNulls />}
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+        </div>
+    );
+}
+
+function FailureChart({ data, config }: { data: FailureChartData[], config: any }) {
+    if (data.length === 0) {
+        return <div className="flex h-[250px] w-full items-center justify-center text-muted-foreground">No data to display for this period.</div>
+    }
+
+    return (
+        <div className="h-[250px] w-full">
+            <ChartContainer config={config} className="h-full w-full">
+              <ResponsiveContainer>
+                <ComposedChart data={data} margin={{ top: 20, right: 20, left: -10, bottom: 5 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickLine={false}
+                    tickMargin={10}
+                    axisLine={false}
+                  />
+                  <YAxis yAxisId="count" allowDecimals={false} />
+                  <YAxis yAxisId="percent" orientation="right" domain={[0, 100]} unit="%" />
+                  <ChartTooltip
+                    content={<ChartTooltipContent />}
+                  />
+                  <Bar yAxisId="count" dataKey="failed" stackId="failures" fill="var(--color-failed)" />
+                  <Bar yAxisId="count" dataKey="timedOut" stackId="failures" fill="var(--color-timedOut)" radius={[4, 4, 0, 0]} />
+                  <Line yAxisId="percent" type="monotone" dataKey="failureRate" stroke="var(--color-failureRate)" strokeWidth={2} dot={false} connectNulls />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+        </div>
+    );
+}
+
+function BreakdownTable({ rows, label }: { rows: FailureBreakdownRow[], label: string }) {
+    const total = rows.reduce((sum, row) => sum + row.total, 0);
+
+    return (
+        <div className="max-h-[300px] overflow-y-auto rounded-lg border">
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>{label}</TableHead>
+                        <TableHead className="text-right">Failed</TableHead>
+                        <TableHead className="text-right">Timed out</TableHead>
+                        <TableHead className="text-right">Share</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {rows.length > 0 ? rows.map(row => (
+                        <TableRow key={row.label}>
+                            <TableCell className="text-sm break-all">{row.label}</TableCell>
+                            <TableCell className="text-right">{row.failed}</TableCell>
+                            <TableCell className="text-right">{row.timedOut}</TableCell>
+                            <TableCell className="text-right">{(row.total / total * 100).toFixed(1)}%</TableCell>
+                        </TableRow>
+                    )) : (
+                        <TableRow>
+                            <TableCell colSpan={4} className="text-center text-muted-foreground">No failures recorded.</TableCell>
+                        </TableRow>
+                    )}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
@@ -1,18 +1,25 @@
 
 "use client";
 
-import React, { useState, useTransition } from "react";
+import React, { useState, useTransition, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/hooks/use-auth";
+import { usePasswordPolicy } from "@/hooks/use-password-policy";
+import { validatePassword } from "@/lib/password-policy";
+import { PasswordRequirements } from "@/components/password-requirements";
+import { RecoveryCodesList } from "@/components/recovery-codes-list";
+import { RolesCard } from "@/components/roles-card";
+import { hasPermission } from "@/lib/permissions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import type { User } from "@/types";
-import { KeyRound, UserPlus, Users, Trash2, ShieldCheck, ShieldOff, Pencil, Mail, MessageSquareWarning, Upload, Download, AlertTriangle } from "lucide-react";
+import type { LockedAccount, Role, User } from "@/types";
+import { format } from "date-fns";
+import { KeyRound, UserPlus, Users, Trash2, ShieldCheck, ShieldOff, Pencil, Mail, MessageSquareWarning, Upload, Download, AlertTriangle, Lock, LockOpen, LifeBuoy, RotateCcw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { AnimatePresence, motion } from "framer-motion";
 import { Label } from "@/components/ui/label";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -28,6 +35,11 @@ import {
     resetUserPasswordByAdmin,
     exportUsersToCsv,
     importUsersFromCsv,
+    getLockedAccounts,
+    unlockUserAccount,
+    resetTwoFactor,
+    regenerateRecoveryCodes,
+    getRoles,
 } from "@/lib/actions";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -42,7 +54,7 @@ export default function UsersPage() {
   const [newUserName, setNewUserName] = useState('');
   const [newUserEmail, setNewUserEmail] = useState('');
   const [newUserPassword, setNewUserPassword] = useState('');
-  const [newUserRole, setNewUserRole] = useState<'user' | 'admin'>('user');
+  const [newUserRole, setNewUserRole] = useState('user');
 
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isResetDialogOpen, setIsResetDialogOpen] = useState(false);
@@ -54,25 +66,78 @@ export default function UsersPage() {
   const [editedUsername, setEditedUsername] = useState('');
   const [editedName, setEditedName] = useState('');
   const [editedEmail, setEditedEmail] = useState('');
-  const [editedRole, setEditedRole] = useState<'user' | 'admin'>('user');
+  const [editedRole, setEditedRole] = useState('user');
   
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [importFile, setImportFile] = useState<File | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
 
+  const [lockedAccounts, setLockedAccounts] = useState<LockedAccount[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+
+  const [recoveryCodesUser, setRecoveryCodesUser] = useState<User | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
   const [isPending, startTransition] = useTransition();
+  const passwordPolicy = usePasswordPolicy();
   const { toast } = useToast();
 
+  const canManageUsers = hasPermission(user, 'manage-users');
+
   React.useEffect(() => {
-    if (!loading && user?.role !== 'admin') {
+    if (!loading && !canManageUsers) {
       toast({
         title: "Access Denied",
-        description: "You must be an admin to view this page.",
+        description: "You do not have permission to manage users.",
         variant: "destructive",
       });
       router.push('/dashboard');
     }
-  }, [user, loading, router, toast]);
+  }, [canManageUsers, loading, router, toast]);
+
+  const refreshLockedAccounts = useCallback(async () => {
+    setLockedAccounts(await getLockedAccounts());
+  }, []);
+
+  const refreshRoles = useCallback(async () => {
+    setRoles(await getRoles());
+  }, []);
+
+  React.useEffect(() => {
+    if (canManageUsers) {
+      refreshLockedAccounts().catch(error => console.error("Failed to load locked accounts", error));
+      refreshRoles().catch(error => console.error("Failed to load roles", error));
+    }
+  }, [canManageUsers, refreshLockedAccounts, refreshRoles]);
+
+  // Only roles whose permissions the admin holds themselves can be handed out.
+  const assignableRoles = roles.filter(role => role.permissions.every(p => user?.permissions?.includes(p)));
+  const getRoleName = (roleId: string) => roles.find(role => role.id === roleId)?.name ?? roleId;
+
+  const renderRoleSelect = (id: string, value: string, onChange: (roleId: string) => void, disabled: boolean) => (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select a role" />
+      </SelectTrigger>
+      <SelectContent>
+        {assignableRoles.map(role => (
+          <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const handleUnlockAccount = (username: string) => {
+    startTransition(async () => {
+        const result = await unlockUserAccount(username);
+        if (result.success) {
+            toast({ title: "Account Unlocked", description: `${username} can sign in again.` });
+        } else {
+            toast({ title: "Error", description: result.error, variant: "destructive" });
+        }
+        await refreshLockedAccounts();
+    });
+  };
 
   const handleAddUser = (e: React.FormEvent) => {
     e.preventDefault();
@@ -160,8 +225,8 @@ export default function UsersPage() {
         toast({ title: "Passwords do not match", variant: "destructive" });
         return;
     }
-     if (newPassword.length < 6) {
-        toast({ title: "Password must be at least 6 characters long.", variant: "destructive" });
+    if (passwordPolicy && validatePassword(newPassword, passwordPolicy).length > 0) {
+        toast({ title: "Password does not meet the password policy.", variant: "destructive" });
         return;
     }
 
@@ -223,6 +288,32 @@ export default function UsersPage() {
     });
   };
   
+  const handleResetTwoFactor = (userToReset: User) => {
+    startTransition(async () => {
+        await resetTwoFactor(userToReset.id);
+        await refreshUsers();
+        toast({ title: "2FA Reset", description: `${userToReset.name} will set up a new authenticator app on their next login.` });
+    });
+  };
+
+  const handleRegenerateRecoveryCodes = (userToUpdate: User) => {
+    startTransition(async () => {
+        const result = await regenerateRecoveryCodes(userToUpdate.id);
+        if (result.success && result.recoveryCodes) {
+            setRecoveryCodesUser(userToUpdate);
+            setRecoveryCodes(result.recoveryCodes);
+            await refreshUsers();
+        } else {
+            toast({ title: "Error", description: result.error, variant: "destructive" });
+        }
+    });
+  };
+
+  const handleCloseRecoveryCodesDialog = () => {
+    setRecoveryCodesUser(null);
+    setRecoveryCodes([]);
+  };
+  
   const handleExport = () => {
     startTransition(async () => {
       const { csv, error } = await exportUsersToCsv();
@@ -280,7 +371,7 @@ export default function UsersPage() {
   };
 
 
-  if (loading || user?.role !== 'admin') {
+  if (loading || !canManageUsers) {
     return null;
   }
 
@@ -330,19 +421,12 @@ export default function UsersPage() {
                <div className="space-y-2">
                   <Label htmlFor="new-user-password">Password</Label>
                   <Input id="new-user-password" type="password" value={newUserPassword} onChange={(e) => setNewUserPassword(e.target.value)} disabled={isPending} />
+                  <PasswordRequirements policy={passwordPolicy} password={newUserPassword} />
+                  <p className="text-xs text-muted-foreground">The user will be asked to change it at their first login.</p>
               </div>
               <div className="space-y-2">
-                  <Label>Role</Label>
-                  <RadioGroup value={newUserRole} onValueChange={(v: 'user'|'admin') => setNewUserRole(v)} className="flex gap-4 pt-2" disabled={isPending}>
-                      <div className="flex items-center space-x-2">
-                          <RadioGroupItem value="user" id="role-user" />
-                          <Label htmlFor="role-user">User</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                          <RadioGroupItem value="admin" id="role-admin" />
-                          <Label htmlFor="role-admin">Admin</Label>
-                      </div>
-                  </RadioGroup>
+                  <Label htmlFor="new-user-role">Role</Label>
+                  {renderRoleSelect('new-user-role', newUserRole, setNewUserRole, isPending)}
               </div>
                <Button type="submit" disabled={isPending} className="w-full lg:w-auto">
                   <UserPlus className="mr-2 h-4 w-4" />
@@ -378,8 +462,13 @@ export default function UsersPage() {
                                         <AvatarFallback>{u.name?.[0].toUpperCase()}</AvatarFallback>
                                     </Avatar>
                                     <div>
-                                        <p className="font-medium text-sm">{u.name} <span className="text-xs text-muted-foreground">({u.role})</span></p>
+                                        <p className="font-medium text-sm">{u.name} <span className="text-xs text-muted-foreground">({getRoleName(u.role)}{u.authProvider && u.authProvider !== 'local' && ` · ${u.authProvider.toUpperCase()}`})</span></p>
                                         <p className="text-xs text-muted-foreground">@{u.username} {u.email && `· ${u.email}`}</p>
+                                        {u.twoFactorRequired && (
+                                            <p className="text-xs text-muted-foreground">
+                                                {u.twoFactorEnrolled ? `2FA active · ${u.recoveryCodesRemaining ?? 0} recovery codes left` : '2FA required · not set up yet'}
+                                            </p>
+                                        )}
                                     </div>
                                 </div>
                                 <div className="flex items-center gap-1 flex-wrap self-end sm:self-center">
@@ -387,6 +476,18 @@ export default function UsersPage() {
                                         <Pencil className="mr-2 h-4 w-4" />
                                         <span className="hidden sm:inline">Edit</span>
                                     </Button>
+                                    {u.twoFactorEnrolled && (
+                                        <>
+                                            <Button variant="outline" size="sm" onClick={() => handleRegenerateRecoveryCodes(u)} disabled={isPending} title="Generate new recovery codes">
+                                                <LifeBuoy className="mr-2 h-4 w-4" />
+                                                <span className="hidden sm:inline">Recovery Codes</span>
+                                            </Button>
+                                            <Button variant="outline" size="sm" onClick={() => handleResetTwoFactor(u)} disabled={isPending} title="Require a new authenticator app on next login">
+                                                <RotateCcw className="mr-2 h-4 w-4" />
+                                                <span className="hidden sm:inline">Reset 2FA</span>
+                                            </Button>
+                                        </>
+                                    )}
                                     {u.twoFactorRequired ? (
                                         <Button variant="outline" size="sm" onClick={() => handleDisableTwoFactor(u.id)} disabled={isPending}>
                                             <ShieldOff className="mr-2 h-4 w-4 text-destructive" />
@@ -398,10 +499,12 @@ export default function UsersPage() {
                                             <span className="hidden sm:inline">Enable 2FA</span>
                                         </Button>
                                     )}
-                                    <Button variant="outline" size="sm" onClick={() => handleOpenResetDialog(u)} disabled={isPending}>
-                                        <KeyRound className="mr-2 h-4 w-4" />
-                                        <span className="hidden sm:inline">Reset Password</span>
-                                    </Button>
+                                    {(u.authProvider ?? 'local') === 'local' && (
+                                        <Button variant="outline" size="sm" onClick={() => handleOpenResetDialog(u)} disabled={isPending}>
+                                            <KeyRound className="mr-2 h-4 w-4" />
+                                            <span className="hidden sm:inline">Reset Password</span>
+                                        </Button>
+                                    )}
                                     <Button variant="ghost" size="icon" onClick={() => handleRemoveUser(u.id)} disabled={user?.id === u.id || isPending}>
                                         <Trash2 className="h-4 w-4 text-destructive" />
                                     </Button>
@@ -415,7 +518,59 @@ export default function UsersPage() {
             </div>
         </CardContent>
       </Card>
+
+      <RolesCard roles={roles} grantablePermissions={user?.permissions ?? []} onRolesChanged={refreshRoles} />
+
+      <Card>
+        <CardHeader>
+            <CardTitle>Locked Accounts</CardTitle>
+            <CardDescription>Accounts temporarily locked after repeated failed sign-in attempts. Locks expire on their own, or can be cleared here.</CardDescription>
+        </CardHeader>
+        <CardContent>
+            <div className="space-y-2 rounded-lg border">
+                {lockedAccounts.length > 0 ? (
+                    lockedAccounts.map((account) => (
+                        <div
+                            key={account.username}
+                            className="flex flex-col sm:flex-row items-start sm:items-center justify-between rounded-md p-2 hover:bg-muted/50 gap-2 border-b"
+                        >
+                            <div className="flex items-center gap-3">
+                                <Lock className="h-4 w-4 text-destructive" />
+                                <div>
+                                    <p className="font-medium text-sm">@{account.username}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {account.failures} failed attempts · locked until {format(new Date(account.lockedUntil), "PPpp")}
+                                    </p>
+                                </div>
+                            </div>
+                            <Button variant="outline" size="sm" onClick={() => handleUnlockAccount(account.username)} disabled={isPending} className="self-end sm:self-center">
+                                <LockOpen className="mr-2 h-4 w-4" />
+                                Unlock
+                            </Button>
+                        </div>
+                    ))
+                ) : (
+                    <div className="text-center text-muted-foreground p-4">No accounts are locked.</div>
+                )}
+            </div>
+        </CardContent>
+      </Card>
       
+        <Dialog open={!!recoveryCodesUser} onOpenChange={(open) => !open && handleCloseRecoveryCodesDialog()}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>New Recovery Codes: {recoveryCodesUser?.name}</DialogTitle>
+                    <DialogDescription>
+                        The user's previous recovery codes no longer work. Pass these on securely; they will not be shown again.
+                    </DialogDescription>
+                </DialogHeader>
+                {recoveryCodesUser && <RecoveryCodesList codes={recoveryCodes} username={recoveryCodesUser.username} />}
+                <DialogFooter>
+                    <Button onClick={handleCloseRecoveryCodesDialog}>Done</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
             <DialogContent>
                 <DialogHeader>
@@ -438,22 +593,8 @@ export default function UsersPage() {
                         <Input id="edit-user-email" type="email" value={editedEmail} onChange={(e) => setEditedEmail(e.target.value)} disabled={isPending} />
                     </div>
                     <div className="space-y-2">
-                        <Label>Role</Label>
-                        <RadioGroup 
-                            value={editedRole} 
-                            onValueChange={(v: 'user'|'admin') => setEditedRole(v)} 
-                            className="flex gap-4 pt-2" 
-                            disabled={isPending || editingUser?.id === user?.id}
-                        >
-                            <div className="flex items-center space-x-2">
-                                <RadioGroupItem value="user" id="edit-role-user" />
-                                <Label htmlFor="edit-role-user">User</Label>
-                            </div>
-                            <div className="flex items-center space-x-2">
-                                <RadioGroupItem value="admin" id="edit-role-admin" />
-                                <Label htmlFor="edit-role-admin">Admin</Label>
-                            </div>
-                        </RadioGroup>
+                        <Label htmlFor="edit-user-role">Role</Label>
+                        {renderRoleSelect('edit-user-role', editedRole, setEditedRole, isPending || editingUser?.id === user?.id)}
                          {editingUser?.id === user?.id && (
                             <p className="text-xs text-muted-foreground">You cannot change your own role.</p>
                         )}
@@ -515,7 +656,7 @@ export default function UsersPage() {
             <TabsContent value="set-manually">
                  <div className="py-4 space-y-4">
                     <p className="text-sm text-muted-foreground">
-                        Enter a new password for the user. They will not be notified of this change.
+                        Enter a temporary password for the user. They will not be notified of this change and will have to choose a new password at their next login.
                     </p>
                     <div className="space-y-2">
                         <Label htmlFor="new-password">New Password</Label>
@@ -526,6 +667,7 @@ export default function UsersPage() {
                             onChange={(e) => setNewPassword(e.target.value)} 
                             disabled={isPending}
                         />
+                        <PasswordRequirements policy={passwordPolicy} password={newPassword} />
                     </div>
                      <div className="space-y-2">
                         <Label htmlFor="confirm-new-password">Confirm New Password</Label>
@@ -557,7 +699,7 @@ export default function UsersPage() {
               <DialogHeader>
                   <DialogTitle>Import Users from CSV</DialogTitle>
                   <DialogDescription>
-                      Upload a CSV file to bulk add or update users. The CSV must contain 'id', 'username', 'name', 'role', and 'password' columns.
+                      Upload a CSV file to bulk add or update users. The CSV must contain 'id', 'username', 'name', and 'role' columns, where 'role' is the id of an existing role such as 'admin' or 'user'. New users also need a 'password' (an initial password or an existing hash); leave it empty to keep an existing user's password.
                   </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 py-4">
@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { PlusCircle, RotateCcw, Save, Send, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { getAlertSettings, sendTestAlertEmails, updateAlertSettings } from "@/lib/actions";
+import { DEFAULT_ALERT_SETTINGS, DIGEST_ALERT_PLACEHOLDERS, IMMEDIATE_ALERT_PLACEHOLDERS } from "@/lib/alert-templates";
+import type { AlertRecipient, AlertSettings, AlertTemplate, FileStatus } from "@/types";
+
+const ALERT_STATUSES: FileStatus['status'][] = ['failed', 'timed-out'];
+
+const placeholderList = (names: string[]) => names.map(name => `{{${name}}}`).join(' ');
+
+export function AlertsCard() {
+  const [settings, setSettings] = useState<AlertSettings | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getAlertSettings().then(setSettings);
+  }, []);
+
+  if (!settings) {
+    return null;
+  }
+
+  const handleChange = <K extends keyof AlertSettings>(field: K, value: AlertSettings[K]) => {
+    setSettings({ ...settings, [field]: value });
+  };
+
+  const handleRecipientChange = <K extends keyof AlertRecipient>(index: number, field: K, value: AlertRecipient[K]) => {
+    handleChange('recipients', settings.recipients.map((r, i) => (i === index ? { ...r, [field]: value } : r)));
+  };
+
+  const handleTemplateChange = (template: 'immediateTemplate' | 'digestTemplate', field: keyof AlertTemplate, value: string) => {
+    handleChange(template, { ...settings[template], [field]: value });
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateAlertSettings(settings);
+      if (result.success) {
+        toast({ title: "Alert Settings Saved", description: "Your email alert settings have been updated." });
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const handleTest = () => {
+    startTransition(async () => {
+      const result = await sendTestAlertEmails(settings);
+      if (result.success) {
+        toast({ title: "Test Emails Sent", description: "An example alert and digest were sent to every recipient." });
+      } else {
+        toast({ title: "Sending Failed", description: result.error, variant: "destructive", duration: 10000 });
+      }
+    });
+  };
+
+  const renderTemplate = (template: 'immediateTemplate' | 'digestTemplate', title: string, placeholders: string[]) => (
+    <div className="space-y-2 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-base">{title}</Label>
+        <Button variant="ghost" size="sm" onClick={() => handleChange(template, DEFAULT_ALERT_SETTINGS[template])} disabled={isPending}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Restore Default
+        </Button>
+      </div>
+      <Input aria-label={`${title} subject`} value={settings[template].subject} onChange={(e) => handleTemplateChange(template, 'subject', e.target.value)} disabled={isPending} />
+      <Textarea aria-label={`${title} body`} rows={5} value={settings[template].body} onChange={(e) => handleTemplateChange(template, 'body', e.target.value)} disabled={isPending} />
+      <p className="text-xs text-muted-foreground font-mono break-words">{placeholderList(placeholders)}</p>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Alerts</CardTitle>
+        <CardDescription>
+          Email operators when files fail or time out, using the SMTP settings above and your branding. Each recipient can get an email per file, a periodic digest, or both.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-row items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="alerts-enabled" className="text-base">Enable Email Alerts</Label>
+            <p className="text-sm text-muted-foreground">
+              Only files that change status after alerts are enabled are reported.
+            </p>
+          </div>
+          <Switch id="alerts-enabled" checked={settings.enabled} onCheckedChange={(checked) => handleChange('enabled', checked)} disabled={isPending} />
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4">
+          {ALERT_STATUSES.map(status => (
+            <div key={status} className="flex items-center gap-2">
+              <Checkbox
+                id={`alerts-status-${status}`}
+                checked={settings.statuses.includes(status)}
+                onCheckedChange={(checked) => handleChange('statuses', checked === true ? [...settings.statuses, status] : settings.statuses.filter(s => s !== status))}
+                disabled={isPending}
+              />
+              <Label htmlFor={`alerts-status-${status}`}>Alert when a file is {status}</Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Recipients</Label>
+          {settings.recipients.map((recipient, index) => (
+            <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <Input
+                type="email"
+                placeholder="operator@example.com"
+                value={recipient.email}
+                onChange={(e) => handleRecipientChange(index, 'email', e.target.value)}
+                disabled={isPending}
+              />
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Checkbox id={`alerts-immediate-${index}`} checked={recipient.immediate} onCheckedChange={(checked) => handleRecipientChange(index, 'immediate', checked === true)} disabled={isPending} />
+                  <Label htmlFor={`alerts-immediate-${index}`}>Immediate</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox id={`alerts-digest-${index}`} checked={recipient.digest} onCheckedChange={(checked) => handleRecipientChange(index, 'digest', checked === true)} disabled={isPending} />
+                  <Label htmlFor={`alerts-digest-${index}`}>Digest</Label>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleChange('recipients', settings.recipients.filter((_, i) => i !== index))} disabled={isPending}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => handleChange('recipients', [...settings.recipients, { email: '', immediate: true, digest: false }])} disabled={isPending}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Add Recipient
+          </Button>
+        </div>
+
+        <div className="space-y-2 sm:w-1/2">
+          <Label htmlFor="alerts-digest-interval">Digest Interval (minutes)</Label>
+          <Input
+            id="alerts-digest-interval"
+            type="number"
+            min={0}
+            value={settings.digestIntervalMinutes}
+            onChange={(e) => handleChange('digestIntervalMinutes', parseInt(e.target.value, 10) || 0)}
+            disabled={isPending}
+          />
+          <p className="text-xs text-muted-foreground">Set to 0 to turn the digest off. Nothing is sent when no file failed in the interval.</p>
+        </div>
+
+        {renderTemplate('immediateTemplate', 'Immediate Alert', IMMEDIATE_ALERT_PLACEHOLDERS)}
+        {renderTemplate('digestTemplate', 'Digest', DIGEST_ALERT_PLACEHOLDERS)}
+        <p className="text-xs text-muted-foreground">
+          When many files fail at once, they are sent as one email using the digest template instead of one email each.
+        </p>
+
+        <div className="flex flex-col sm:flex-row gap-2 pt-2">
+          <Button onClick={handleSave} disabled={isPending}>
+            <Save className="mr-2 h-4 w-4" /> Save Alert Settings
+          </Button>
+          <Button variant="outline" onClick={handleTest} disabled={isPending}>
+            <Send className="mr-2 h-4 w-4" /> Send Test Emails
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { format } from "date-fns";
+import { Copy, KeySquare, PlusCircle, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { createApiToken, getApiTokens, revokeApiToken } from "@/lib/actions";
+import type { ApiToken } from "@/types";
+
+// Radix Select items cannot have an empty value.
+const NEVER_EXPIRES = "never";
+const LIFETIME_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: NEVER_EXPIRES, label: "No expiry" },
+];
+
+function tokenState(token: ApiToken): { label: string; variant: "secondary" | "destructive" | "outline" } | null {
+  if (token.revokedAt) return { label: "Revoked", variant: "destructive" };
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return { label: "Expired", variant: "outline" };
+  return null;
+}
+
+// Lets the signed-in user create and revoke personal tokens for the REST API under /api/v1.
+export function ApiTokensSection() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [name, setName] = useState("");
+  const [lifetime, setLifetime] = useState("90");
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const fetchTokens = () => getApiTokens().then(setTokens);
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      const result = await createApiToken(name, lifetime === NEVER_EXPIRES ? null : Number(lifetime));
+      if (result.success && result.token) {
+        setNewToken(result.token);
+        setName("");
+        await fetchTokens();
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const handleRevoke = (token: ApiToken) => {
+    startTransition(async () => {
+      const result = await revokeApiToken(token.id);
+      if (result.success) {
+        toast({ title: "Token Revoked", description: `"${token.name}" can no longer be used.` });
+        await fetchTokens();
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast({ title: "Copied", description: "The token has been copied to the clipboard." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Please select the token and copy it by hand.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>API Tokens</Label>
+      <p className="text-sm text-muted-foreground">
+        Tokens let scripts and other systems use the REST API at <span className="font-mono">/api/v1</span> with your permissions. Send them in an <span className="font-mono">Authorization: Bearer</span> header.
+      </p>
+
+      {newToken && (
+        <div className="space-y-2 rounded-lg border bg-muted/50 p-4">
+          <p className="text-sm font-medium">Copy your new token now. It will not be shown again.</p>
+          <div className="flex gap-2">
+            <Input readOnly value={newToken} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" size="icon" onClick={handleCopy}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input placeholder="Token name, e.g. publishing system" value={name} onChange={(e) => setName(e.target.value)} disabled={isPending} />
+        <Select value={lifetime} onValueChange={setLifetime} disabled={isPending}>
+          <SelectTrigger className="sm:w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LIFETIME_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" onClick={handleCreate} disabled={isPending || !name.trim()}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Create
+        </Button>
+      </div>
+
+      {tokens.length === 0 ? (
+        <p className="text-sm text-muted-foreground">You have no API tokens.</p>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {tokens.map(token => {
+            const state = tokenState(token);
+            return (
+              <div key={token.id} className="flex items-center gap-3 p-3">
+                <KeySquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1 space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-sm font-medium">{token.name}</span>
+                    {state && <Badge variant={state.variant}>{state.label}</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-mono">{token.prefix}…</span>
+                    {' · '}created {format(new Date(token.createdAt), "PP")}
+                    {' · '}{token.expiresAt ? `expires ${format(new Date(token.expiresAt), "PP")}` : 'never expires'}
+                    {' · '}{token.lastUsedAt ? `last used ${format(new Date(token.lastUsedAt), "PPp")}` : 'never used'}
+                  </p>
+                </div>
+                {!token.revokedAt && (
+                  <Button type="button" variant="ghost" size="icon" onClick={() => handleRevoke(token)} disabled={isPending} title="Revoke">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -44,12 +44,17 @@ import { Skeleton } from './ui/skeleton';
 import { useTheme } from "next-themes";
 import { BrandLogo } from './brand-logo';
 import { useToast } from '@/hooks/use-toast';
-import { readDb } from '@/lib/db';
+import { getMaintenanceStatus } from '@/lib/actions';
+import { validatePassword } from '@/lib/password-policy';
+import { usePasswordPolicy } from '@/hooks/use-password-policy';
+import { PasswordRequirements } from './password-requirements';
+import { ApiTokensSection } from './api-tokens-section';
+import { hasPermission } from '@/lib/permissions';
 import type { MaintenanceSettings } from '@/types';
 
 
 function ProfileDialog() {
-  const { user, updateUser, refreshCurrentUser } = useAuth();
+  const { user, updateOwnAvatar } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [isPending, startTransition] = useTransition();
   const { toast } = useToast();
@@ -61,8 +66,7 @@ function ProfileDialog() {
             const reader = new FileReader();
             reader.onloadend = () => {
                 startTransition(async () => {
-                    await updateUser({ ...user, avatar: reader.result as string });
-                    await refreshCurrentUser();
+                    await updateOwnAvatar(reader.result as string);
                     toast({ title: "Profile Picture Updated", description: "Your new picture has been saved." });
                     setIsOpen(false);
                 });
@@ -74,8 +78,7 @@ function ProfileDialog() {
     const handleClearAvatar = () => {
         if (!user) return;
         startTransition(async () => {
-            await updateUser({ ...user, avatar: null });
-            await refreshCurrentUser();
+            await updateOwnAvatar(null);
             toast({ title: "Profile Picture Cleared", description: "Your profile picture has been removed.", variant: "destructive" });
             setIsOpen(false);
         });
@@ -89,11 +92,11 @@ function ProfileDialog() {
           <span>My Profile</span>
         </DropdownMenuItem>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>My Profile</DialogTitle>
           <DialogDescription>
-            Update your personal information and profile picture.
+            Update your personal information and profile picture, and manage your API tokens.
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-6 py-4">
@@ -131,6 +134,7 @@ function ProfileDialog() {
                 <Label>Email</Label>
                 <Input value={user?.email ?? 'Not set'} disabled />
             </div>
+            {isOpen && <ApiTokensSection />}
         </div>
       </DialogContent>
     </Dialog>
@@ -144,16 +148,17 @@ function ChangePasswordDialog() {
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const passwordPolicy = usePasswordPolicy();
   const { toast } = useToast();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
-    if (newPassword.length < 6) {
+    if (passwordPolicy && validatePassword(newPassword, passwordPolicy).length > 0) {
       toast({
         title: "Error",
-        description: "New password must be at least 6 characters long.",
+        description: "New password does not meet the password policy.",
         variant: "destructive",
       });
       return;
@@ -168,9 +173,9 @@ function ChangePasswordDialog() {
       return;
     }
     
-    const success = await updateOwnPassword(user.id, currentPassword, newPassword);
+    const result = await updateOwnPassword(currentPassword, newPassword);
     
-    if (success) {
+    if (result.success) {
       toast({
         title: "Success",
         description: "Your password has been changed successfully.",
@@ -182,7 +187,7 @@ function ChangePasswordDialog() {
     } else {
        toast({
         title: "Error",
-        description: "Your current password is not correct.",
+        description: result.error,
         variant: "destructive",
       });
     }
@@ -231,6 +236,11 @@ function ChangePasswordDialog() {
                 required
               />
             </div>
+            <div className="grid grid-cols-4 gap-4 -mt-2">
+              <div className="col-start-2 col-span-3">
+                <PasswordRequirements policy={passwordPolicy} password={newPassword} />
+              </div>
+            </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="confirm-password" className="text-right">
                 Confirm
@@ -261,8 +271,8 @@ function Header() {
   const router = useRouter();
   const { setTheme } = useTheme();
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     router.push('/login');
   };
 
@@ -314,7 +324,8 @@ function Header() {
             </DropdownMenuPortal>
           </DropdownMenuSub>
           <ProfileDialog />
-          <ChangePasswordDialog />
+          {/* LDAP and OIDC users change their password with their provider. */}
+          {(user?.authProvider ?? 'local') === 'local' && <ChangePasswordDialog />}
           <DropdownMenuSeparator />
           <DropdownMenuItem onClick={handleLogout}>
             <LogOutIcon className="mr-2 h-4 w-4" />
@@ -341,8 +352,7 @@ export function AppShell({ children }: { children: React.ReactNode }) {
 
    useEffect(() => {
     async function fetchMaintenanceStatus() {
-        const settings = await readDb();
-        setMaintenanceSettings(settings.maintenanceSettings);
+        setMaintenanceSettings(await getMaintenanceStatus());
     }
     fetchMaintenanceStatus();
     // Also poll for changes in case it's disabled remotely
@@ -356,7 +366,7 @@ export function AppShell({ children }: { children: React.ReactNode }) {
     const isMaintenancePage = pathname === '/maintenance';
     const isLoginPage = pathname === '/login';
 
-    if (maintenanceSettings.enabled && user?.role !== 'admin' && !isMaintenancePage && !isLoginPage) {
+    if (maintenanceSettings.enabled && !hasPermission(user, 'manage-settings') && !isMaintenancePage && !isLoginPage) {
         router.replace('/maintenance');
         return;
     }
@@ -385,7 +395,7 @@ export function AppShell({ children }: { children: React.ReactNode }) {
     );
   }
 
-  if (maintenanceSettings.enabled && user?.role !== 'admin') {
+  if (maintenanceSettings.enabled && !hasPermission(user, 'manage-settings')) {
       if (pathname === '/maintenance' || pathname === '/login') {
           return <>{children}</>;
       }
@@ -426,29 +436,29 @@ export function AppShell({ children }: { children: React.ReactNode }) {
                   <span>Statistics</span>
                 </SidebarMenuButton>
               </SidebarMenuItem>
-              {user?.role === 'admin' && (
-                <>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton
-                      onClick={() => router.push('/users')}
-                      isActive={pathname === '/users'}
-                      tooltip="Users"
-                    >
-                      <Users />
-                      <span>Users</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton
-                      onClick={() => router.push('/settings')}
-                      isActive={pathname === '/settings'}
-                      tooltip="Settings"
-                    >
-                      <CogIcon />
-                      <span>Settings</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                </>
+              {hasPermission(user, 'manage-users') && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton
+                    onClick={() => router.push('/users')}
+                    isActive={pathname === '/users'}
+                    tooltip="Users"
+                  >
+                    <Users />
+                    <span>Users</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
+              {hasPermission(user, 'manage-settings') && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton
+                    onClick={() => router.push('/settings')}
+                    isActive={pathname === '/settings'}
+                    tooltip="Settings"
+                  >
+                    <CogIcon />
+                    <span>Settings</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
               )}
             </SidebarMenu>
           </SidebarContent>
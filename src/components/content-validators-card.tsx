@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { PlusCircle, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getContentValidators, updateContentValidators } from "@/lib/actions";
+import { CHECKSUM_ALGORITHMS, newContentValidator, validateContentValidator } from "@/lib/content-validators";
+import type { ContentValidator } from "@/types";
+
+export function ContentValidatorsCard() {
+  const [validators, setValidators] = useState<ContentValidator[] | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getContentValidators().then(setValidators);
+  }, []);
+
+  if (!validators) {
+    return null;
+  }
+
+  const handleChange = <K extends keyof ContentValidator>(index: number, field: K, value: ContentValidator[K]) => {
+    setValidators(validators.map((validator, i) => (i === index ? { ...validator, [field]: value } : validator)));
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateContentValidators(validators);
+      if (result.success) {
+        toast({ title: "Content Validators Saved", description: "New files are now checked with the updated validators." });
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const renderNumber = (index: number, field: 'minSize' | 'maxSize' | 'stableSeconds', label: string, hint: string) => {
+    const validator = validators[index];
+    return (
+      <div className="space-y-2">
+        <Label htmlFor={`validator-${field}-${validator.id}`}>{label}</Label>
+        <Input
+          id={`validator-${field}-${validator.id}`}
+          type="number"
+          min={0}
+          value={validator[field]}
+          onChange={(e) => handleChange(index, field, Math.max(0, parseInt(e.target.value, 10) || 0))}
+          disabled={isPending}
+        />
+        <p className="text-xs text-muted-foreground">{hint}</p>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Content Validators</CardTitle>
+        <CardDescription>
+          Check the content of new files in the import folder by extension. Files that are empty, too large, of the wrong type or do not match their checksum are flagged on the dashboard, or quarantined in the failed folder before they are processed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {validators.length === 0 && <p className="text-sm text-muted-foreground">No content validators. Only file names and extensions are checked.</p>}
+
+        {validators.map((validator, index) => {
+          const error = validateContentValidator(validator);
+          return (
+            <div key={validator.id} className="space-y-4 rounded-lg border p-4">
+              <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor={`validator-extension-${validator.id}`}>Extension</Label>
+                  <Input id={`validator-extension-${validator.id}`} className="font-mono" placeholder="xml" value={validator.extension} onChange={(e) => handleChange(index, 'extension', e.target.value)} disabled={isPending} />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={validator.enabled} onCheckedChange={(checked) => handleChange(index, 'enabled', checked)} disabled={isPending} />
+                  <span className="text-sm text-muted-foreground">{validator.enabled ? 'Enabled' : 'Disabled'}</span>
+                  <Button variant="ghost" size="icon" onClick={() => setValidators(validators.filter((_, i) => i !== index))} disabled={isPending}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {renderNumber(index, 'minSize', 'Minimum Size (bytes)', 'Set to 1 to reject empty files.')}
+                {renderNumber(index, 'maxSize', 'Maximum Size (bytes)', 'Set to 0 for no limit.')}
+                {renderNumber(index, 'stableSeconds', 'Wait Until Unchanged For (seconds)', 'Files still being written are checked once they stop changing.')}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`validator-magic-${validator.id}`}>Signatures</Label>
+                <Input id={`validator-magic-${validator.id}`} className="font-mono" placeholder="3C3F786D6C, EFBBBF3C3F786D6C" value={validator.magicBytes} onChange={(e) => handleChange(index, 'magicBytes', e.target.value)} disabled={isPending} />
+                <p className="text-xs text-muted-foreground">The bytes a file must start with, in hex. Separate alternatives with commas; leave empty to skip the check.</p>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Checksum Sidecar</Label>
+                  <Select value={validator.checksum} onValueChange={(value) => handleChange(index, 'checksum', value as ContentValidator['checksum'])} disabled={isPending}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not required</SelectItem>
+                      {CHECKSUM_ALGORITHMS.map(algorithm => (
+                        <SelectItem key={algorithm} value={algorithm}>{algorithm.toUpperCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {validator.checksum === 'none'
+                      ? 'Files are not compared with a checksum.'
+                      : `Each file needs a sidecar named after it, such as report.${validator.extension || 'xml'}.${validator.checksum}, holding its digest.`}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Failing Files</Label>
+                  <Select value={validator.action} onValueChange={(value) => handleChange(index, 'action', value as ContentValidator['action'])} disabled={isPending}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="flag">Flag on the dashboard</SelectItem>
+                      <SelectItem value="quarantine">Quarantine in the failed folder</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          );
+        })}
+
+        <div className="flex flex-col sm:flex-row gap-2 pt-2">
+          <Button variant="outline" onClick={() => setValidators([...validators, newContentValidator()])} disabled={isPending}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Validator
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            <Save className="mr-2 h-4 w-4" /> Save Content Validators
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
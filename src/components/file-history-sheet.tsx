@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ArrowRight } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FileStatusBadge } from "./file-status-badge";
+import type { FileStatus, FileStatusEvent } from "@/types";
+import { getFileStatusHistory } from "@/lib/actions";
+import { formatBytes } from "@/lib/content-validators";
+
+interface FileHistorySheetProps {
+  file: FileStatus | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FileHistorySheet({ file, onOpenChange }: FileHistorySheetProps) {
+  const [events, setEvents] = useState<FileStatusEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    async function fetchEvents({ pipelineId, name }: FileStatus) {
+      setLoading(true);
+      try {
+        setEvents(await getFileStatusHistory(pipelineId ?? '', name));
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchEvents(file);
+  }, [file]);
+
+  const formatTimestamp = (dateString: string) => {
+    try {
+      return format(new Date(dateString), "MM/dd/yyyy hh:mm:ss a");
+    } catch (e) {
+      return "Invalid date";
+    }
+  };
+
+  return (
+    <Sheet open={!!file} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Status History</SheetTitle>
+          <SheetDescription className="break-all">{file?.name}</SheetDescription>
+        </SheetHeader>
+        {file?.validation && (
+          <div className="mt-4 space-y-1 rounded-md border p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">Content Checks</span>
+              <Badge variant={file.validation === 'failed' ? 'destructive' : 'outline'}>{file.validation === 'failed' ? 'Failed' : 'Passed'}</Badge>
+            </div>
+            {file.fileSize != null && <p className="text-muted-foreground">Size: {formatBytes(file.fileSize)}</p>}
+            {file.checksum && <p className="text-muted-foreground break-all">Checksum: <span className="font-mono">{file.checksum}</span></p>}
+            {file.validationDetails && <p>{file.validationDetails}</p>}
+          </div>
+        )}
+        <ScrollArea className="h-[calc(100vh-8rem)] pr-4 mt-4">
+          {loading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          ) : events.length > 0 ? (
+            <ol className="relative border-l ml-2 space-y-6">
+              {events.map(event => (
+                <li key={event.id} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+                  <div className="flex flex-wrap items-center gap-2">
+                    {event.oldStatus ? <FileStatusBadge status={event.oldStatus} /> : <Badge variant="outline">New</Badge>}
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    {event.newStatus ? <FileStatusBadge status={event.newStatus} /> : <Badge variant="outline">Removed</Badge>}
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {formatTimestamp(event.timestamp)} · by {event.actor}
+                  </p>
+                  {event.remarks && <p className="mt-1 text-sm">{event.remarks}</p>}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="text-center text-muted-foreground p-4">No history recorded for this file.</div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,17 @@
+import type { NamingViolation } from "@/lib/naming-schema";
+
+// A file name with the part that breaks the naming schema underlined.
+export function FileNameWithIssue({ fileName, violation }: { fileName: string; violation: NamingViolation | null }) {
+  if (!violation) {
+    return <span>{fileName}</span>;
+  }
+  // An empty part (such as a missing field) has nothing to underline, so the spot is marked instead.
+  const invalid = fileName.slice(violation.start, violation.end);
+  return (
+    <span>
+      {fileName.slice(0, violation.start)}
+      <span className="text-destructive underline decoration-wavy decoration-destructive underline-offset-4">{invalid || "‸"}</span>
+      {fileName.slice(violation.end)}
+    </span>
+  );
+}
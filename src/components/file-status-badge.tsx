@@ -0,0 +1,27 @@
+import { Badge } from "@/components/ui/badge";
+import type { FileStatus } from "@/types";
+
+export const getStatusClasses = (status: FileStatus['status']): string => {
+  switch (status) {
+    case 'arriving':
+      return 'bg-sky-500/80 border-transparent text-white';
+    case 'processing':
+      return 'bg-yellow-500/80 border-transparent text-white';
+    case 'failed':
+      return 'bg-red-500/80 border-transparent text-white';
+    case 'published':
+      return 'bg-green-500/80 border-transparent text-white';
+    case 'timed-out':
+      return 'bg-orange-500/80 border-transparent text-white';
+    default:
+      return 'bg-secondary text-secondary-foreground';
+  }
+};
+
+export function FileStatusBadge({ status }: { status: FileStatus['status'] }) {
+  return (
+    <Badge className={`${getStatusClasses(status)} capitalize transition-colors duration-500`}>
+      {status}
+    </Badge>
+  );
+}
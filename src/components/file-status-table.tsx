@@ -10,19 +10,23 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Badge } from "@/components/ui/badge";
-import type { FileStatus, User, ProcessingSettings } from "@/types";
+import type { FilenameRule, FileStatus, FileStatusSortColumn, NamingSchema, Permission, ProcessingSettings, Pipeline } from "@/types";
 import { format } from "date-fns";
 import { AnimatePresence, motion } from "framer-motion";
 import { Button } from "./ui/button";
-import { RefreshCw, FilePenLine, Trash2, GitBranchPlus } from "lucide-react";
+import { RefreshCw, FilePenLine, Trash2, GitBranchPlus, History, ArrowUp, ArrowDown, ArrowUpDown } from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { getProcessingSettings } from "@/lib/db";
+import { getFilenameRules, getNamingSchemas, getProcessingSettings } from "@/lib/actions";
+import { findFilenameRule } from "@/lib/filename-rules";
+import { findNamingViolation } from "@/lib/naming-schema";
+import { FileStatusBadge } from "./file-status-badge";
+import { FileHistorySheet } from "./file-history-sheet";
+import { FileNameWithIssue } from "./file-name-issue";
 
 
 interface FileStatusTableProps {
@@ -32,33 +36,31 @@ interface FileStatusTableProps {
   onDelete: (file: FileStatus) => void;
   onExpand: (file: FileStatus) => void;
   isReadOnly?: boolean;
-  userRole?: User['role'];
+  permissions?: Permission[];
+  pipelines?: Pipeline[];
+  sortBy?: FileStatusSortColumn;
+  sortDir?: 'asc' | 'desc';
+  onSortChange?: (column: FileStatusSortColumn) => void;
 }
 
-export function FileStatusTable({ files, onRetry, onRename, onDelete, onExpand, isReadOnly = false, userRole }: FileStatusTableProps) {
+export function FileStatusTable({ files, onRetry, onRename, onDelete, onExpand, isReadOnly = false, permissions = [], pipelines = [], sortBy, sortDir, onSortChange }: FileStatusTableProps) {
   const [processingSettings, setProcessingSettings] = useState<ProcessingSettings | null>(null);
+  const [filenameRules, setFilenameRules] = useState<FilenameRule[]>([]);
+  const [namingSchemas, setNamingSchemas] = useState<NamingSchema[]>([]);
+  const [historyFile, setHistoryFile] = useState<FileStatus | null>(null);
 
   useEffect(() => {
     async function fetchSettings() {
-        const settings = await getProcessingSettings();
+        const [settings, rules, schemas] = await Promise.all([getProcessingSettings(), getFilenameRules(), getNamingSchemas()]);
         setProcessingSettings(settings);
+        setFilenameRules(rules);
+        setNamingSchemas(schemas);
     }
     fetchSettings();
   }, []);
 
-  const getStatusClasses = (status: FileStatus['status']): string => {
-    switch (status) {
-      case 'processing':
-        return 'bg-yellow-500/80 border-transparent text-white';
-      case 'failed':
-        return 'bg-red-500/80 border-transparent text-white';
-      case 'published':
-        return 'bg-green-500/80 border-transparent text-white';
-      case 'timed-out':
-        return 'bg-orange-500/80 border-transparent text-white';
-      default:
-        return 'bg-secondary text-secondary-foreground';
-    }
+  const getPipelineName = (pipelineId?: string | null) => {
+    return pipelines.find(p => p.id === pipelineId)?.name ?? '—';
   };
 
   const formatLastUpdated = (dateString: string) => {
@@ -69,40 +71,44 @@ export function FileStatusTable({ files, onRetry, onRename, onDelete, onExpand,
     }
   };
 
-  const isExpandable = (fileName: string): boolean => {
-    const name = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
-    const parts = name.split('_');
-    if (parts.length !== 4) return false;
-    const prefixPairs = parts[0];
-    if (prefixPairs.length < 4 || prefixPairs.length % 2 !== 0) return false;
+  const isExpandable = (file: FileStatus): boolean => findFilenameRule(filenameRules, 'expand', file.name, file.pipelineId) !== null;
 
-    let validPrefixCount = 0;
-    for (let i = 0; i < prefixPairs.length; i += 2) {
-      if (['P', 'B', 'C'].includes(prefixPairs[i].toUpperCase())) {
-        validPrefixCount++;
-      }
+  const renderSortableHead = (column: FileStatusSortColumn, label: string, className?: string) => {
+    if (!onSortChange) {
+      return <TableHead className={className}>{label}</TableHead>;
     }
-    return validPrefixCount > 1;
+    const SortIcon = sortBy !== column ? ArrowUpDown : sortDir === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <TableHead className={className}>
+        <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => onSortChange(column)}>
+          {label}
+          <SortIcon className={`ml-2 h-4 w-4 ${sortBy === column ? '' : 'text-muted-foreground/50'}`} />
+        </Button>
+      </TableHead>
+    );
   };
 
-
   return (
     <TooltipProvider>
       <div className="rounded-lg border">
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead className="w-[35%]">File Name</TableHead>
-              <TableHead>Status</TableHead>
+              {renderSortableHead('name', 'File Name', 'w-[30%]')}
+              <TableHead>Pipeline</TableHead>
+              {renderSortableHead('status', 'Status')}
               <TableHead>Remarks</TableHead>
-              <TableHead>Last Updated</TableHead>
-              <TableHead className="text-right w-[160px]">Actions</TableHead>
+              {renderSortableHead('lastUpdated', 'Last Updated')}
+              <TableHead className="text-right w-[200px]">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             <AnimatePresence>
               {files.length > 0 ? (
-                files.map((file) => (
+                files.map((file) => {
+                  // Published files made it through, whatever the schema says now.
+                  const violation = file.status === 'published' ? null : findNamingViolation(file.name, namingSchemas, file.pipelineId);
+                  return (
                   <motion.tr
                     key={file.id}
                     layout
@@ -115,17 +121,19 @@ export function FileStatusTable({ files, onRetry, onRename, onDelete, onExpand,
                     <TableCell className="font-medium max-w-xs truncate">
                        <Tooltip>
                         <TooltipTrigger asChild>
-                          <span>{file.name}</span>
+                          <span><FileNameWithIssue fileName={file.name} violation={violation} /></span>
                         </TooltipTrigger>
                         <TooltipContent>
                           <p>{file.name}</p>
+                          {violation && <p className="text-destructive">Naming schema "{violation.schema}": {violation.message}</p>}
                         </TooltipContent>
                       </Tooltip>
                     </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {getPipelineName(file.pipelineId)}
+                    </TableCell>
                     <TableCell>
-                      <Badge className={`${getStatusClasses(file.status)} capitalize transition-colors duration-500`}>
-                        {file.status}
-                      </Badge>
+                      <FileStatusBadge status={file.status} />
                     </TableCell>
                      <TableCell className="text-muted-foreground whitespace-normal">
                       {file.remarks}
@@ -134,9 +142,20 @@ export function FileStatusTable({ files, onRetry, onRename, onDelete, onExpand,
                       {formatLastUpdated(file.lastUpdated)}
                     </TableCell>
                     <TableCell className="text-right">
+                      <div className="flex gap-1 justify-end">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setHistoryFile(file)}>
+                              <History className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>Status History</p>
+                          </TooltipContent>
+                        </Tooltip>
                       {file.status === 'failed' && (
-                        <div className="flex gap-1 justify-end">
-                          {isExpandable(file.name) && !processingSettings?.autoExpandPrefixes && (
+                        <>
+                          {permissions.includes('expand') && isExpandable(file) && !processingSettings?.autoExpandPrefixes && (
                             <Tooltip>
                                 <TooltipTrigger asChild>
                                 <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => onExpand(file)} disabled={isReadOnly}>
@@ -144,10 +163,11 @@ export function FileStatusTable({ files, onRetry, onRename, onDelete, onExpand,
                                 </Button>
                                 </TooltipTrigger>
                                 <TooltipContent>
-                                <p>Expand Prefixes</p>
+                                <p>Expand File</p>
                                 </TooltipContent>
                             </Tooltip>
                           )}
+                          {permissions.includes('rename') && (
                            <Tooltip>
                             <TooltipTrigger asChild>
                                <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => onRename(file)} disabled={isReadOnly}>
@@ -158,6 +178,8 @@ export function FileStatusTable({ files, onRetry, onRename, onDelete, onExpand,
                               <p>Rename & Retry</p>
                             </TooltipContent>
                           </Tooltip>
+                          )}
+                          {permissions.includes('retry') && (
                           <Tooltip>
                             <TooltipTrigger asChild>
                               <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => onRetry(file)} disabled={isReadOnly}>
@@ -168,7 +190,8 @@ export function FileStatusTable({ files, onRetry, onRename, onDelete, onExpand,
                               <p>Retry</p>
                             </TooltipContent>
                           </Tooltip>
-                           {userRole === 'admin' && (
+                          )}
+                           {permissions.includes('delete') && (
                             <Tooltip>
                                 <TooltipTrigger asChild>
                                 <Button variant="outline" size="icon" className="h-8 w-8 hover:bg-destructive/10" onClick={() => onDelete(file)} disabled={isReadOnly}>
@@ -180,14 +203,16 @@ export function FileStatusTable({ files, onRetry, onRename, onDelete, onExpand,
                                 </TooltipContent>
                             </Tooltip>
                            )}
-                        </div>
+                        </>
                       )}
+                      </div>
                     </TableCell>
                   </motion.tr>
-                ))
+                  );
+                })
               ) : (
                   <TableRow>
-                      <TableCell colSpan={5} className="h-24 text-center">
+                      <TableCell colSpan={6} className="h-24 text-center">
                       No files found for the current filter.
                       </TableCell>
                   </TableRow>
@@ -196,6 +221,7 @@ export function FileStatusTable({ files, onRetry, onRename, onDelete, onExpand,
           </TableBody>
         </Table>
       </div>
+      <FileHistorySheet file={historyFile} onOpenChange={(open) => !open && setHistoryFile(null)} />
     </TooltipProvider>
   );
 }
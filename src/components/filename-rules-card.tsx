@@ -0,0 +1,226 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { ArrowDown, ArrowUp, PlusCircle, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getFilenameRules, getPipelines, updateFilenameRules } from "@/lib/actions";
+import { BUILT_IN_PLACEHOLDERS, applyFilenameRule, findFilenameRule, validateFilenameRule } from "@/lib/filename-rules";
+import type { FilenameRule, FilenameRuleAction, Pipeline } from "@/types";
+
+// Radix Select items cannot have an empty value.
+const ALL_PIPELINES = "all";
+
+const newRule = (): FilenameRule => ({
+  id: `rule-${Date.now()}`,
+  name: '',
+  enabled: true,
+  pipelineId: null,
+  action: 'rename',
+  pattern: '^(?<base>.+)\\.XML$',
+  template: '{base}.xml',
+  splitGroup: '',
+  splitSize: 0,
+  splitSeparator: '+',
+  itemPattern: '',
+});
+
+export function FilenameRulesCard() {
+  const [rules, setRules] = useState<FilenameRule[] | null>(null);
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [sampleName, setSampleName] = useState("P1B2_Title_20240101_01.xml");
+  const [samplePipelineId, setSamplePipelineId] = useState(ALL_PIPELINES);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getFilenameRules().then(setRules);
+    getPipelines().then(setPipelines);
+  }, []);
+
+  if (!rules) {
+    return null;
+  }
+
+  const handleRuleChange = <K extends keyof FilenameRule>(index: number, field: K, value: FilenameRule[K]) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, [field]: value } : rule)));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setRules(next);
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateFilenameRules(rules);
+      if (result.success) {
+        toast({ title: "Filename Rules Saved", description: "The watcher and the dashboard now use the updated rules." });
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  // What happens to the sample file when it fails in the chosen pipeline.
+  const samplePipeline = samplePipelineId === ALL_PIPELINES ? null : samplePipelineId;
+  const expansion = sampleName ? findFilenameRule(rules, 'expand', sampleName, samplePipeline) : null;
+  const rename = sampleName && !expansion ? findFilenameRule(rules, 'rename', sampleName, samplePipeline) : null;
+
+  const describeRule = (rule: FilenameRule): { text: string; isError?: boolean } => {
+    const error = validateFilenameRule(rule);
+    if (error) return { text: error, isError: true };
+    if (!sampleName) return { text: 'Enter a sample file name above to preview this rule.' };
+    const fileNames = applyFilenameRule(rule, sampleName);
+    if (!fileNames) return { text: 'Does not apply to the sample file name.' };
+    return { text: `${rule.action === 'expand' ? 'Expands into' : 'Renames to'}: ${fileNames.join(', ')}` };
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Filename Rules</CardTitle>
+        <CardDescription>
+          Describe the naming conventions of each pipeline. Expand rules split a failed file into one copy per item (such as a prefix), rename rules suggest or apply a corrected name. The first matching rule of each kind is used, in the order below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 rounded-lg border p-4">
+          <Label htmlFor="rules-sample">Preview</Label>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input id="rules-sample" className="font-mono" placeholder="File name to test" value={sampleName} onChange={(e) => setSampleName(e.target.value)} />
+            <Select value={samplePipelineId} onValueChange={setSamplePipelineId}>
+              <SelectTrigger className="sm:w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PIPELINES}>Any pipeline</SelectItem>
+                {pipelines.map(pipeline => (
+                  <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-sm">
+            {expansion && <>Expanded by <strong>{expansion.rule.name}</strong> into <span className="font-mono">{expansion.fileNames.join(', ')}</span>.</>}
+            {rename && <>Renamed by <strong>{rename.rule.name}</strong> to <span className="font-mono">{rename.fileNames[0]}</span>.</>}
+            {sampleName && !expansion && !rename && <span className="text-muted-foreground">No rule applies to this file name.</span>}
+          </p>
+        </div>
+
+        {rules.map((rule, index) => {
+          const preview = describeRule(rule);
+          return (
+            <div key={rule.id} className="space-y-4 rounded-lg border p-4">
+              <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor={`rule-name-${rule.id}`}>Name</Label>
+                  <Input id={`rule-name-${rule.id}`} value={rule.name} onChange={(e) => handleRuleChange(index, 'name', e.target.value)} disabled={isPending} />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={rule.enabled} onCheckedChange={(checked) => handleRuleChange(index, 'enabled', checked)} disabled={isPending} />
+                  <span className="text-sm text-muted-foreground">{rule.enabled ? 'Enabled' : 'Disabled'}</span>
+                  <Button variant="ghost" size="icon" onClick={() => handleMove(index, -1)} disabled={isPending || index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleMove(index, 1)} disabled={isPending || index === rules.length - 1}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setRules(rules.filter((_, i) => i !== index))} disabled={isPending}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Action</Label>
+                  <Select value={rule.action} onValueChange={(value) => handleRuleChange(index, 'action', value as FilenameRuleAction)} disabled={isPending}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="expand">Expand into copies</SelectItem>
+                      <SelectItem value="rename">Rename</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Pipeline</Label>
+                  <Select
+                    value={rule.pipelineId ?? ALL_PIPELINES}
+                    onValueChange={(value) => handleRuleChange(index, 'pipelineId', value === ALL_PIPELINES ? null : value)}
+                    disabled={isPending}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_PIPELINES}>All pipelines</SelectItem>
+                      {pipelines.map(pipeline => (
+                        <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`rule-pattern-${rule.id}`}>Pattern</Label>
+                <Input id={`rule-pattern-${rule.id}`} className="font-mono" value={rule.pattern} onChange={(e) => handleRuleChange(index, 'pattern', e.target.value)} disabled={isPending} />
+                <p className="text-xs text-muted-foreground">A regular expression matched against the whole file name, ignoring case. Name the parts you need, such as <code>(?&lt;title&gt;[^_]+)</code>.</p>
+              </div>
+
+              {rule.action === 'expand' && (
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`rule-split-group-${rule.id}`}>Split Group</Label>
+                    <Input id={`rule-split-group-${rule.id}`} className="font-mono" placeholder="prefixes" value={rule.splitGroup} onChange={(e) => handleRuleChange(index, 'splitGroup', e.target.value)} disabled={isPending} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`rule-split-size-${rule.id}`}>Characters per Item</Label>
+                    <Input id={`rule-split-size-${rule.id}`} type="number" min={0} value={rule.splitSize} onChange={(e) => handleRuleChange(index, 'splitSize', Math.max(0, parseInt(e.target.value, 10) || 0))} disabled={isPending} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`rule-separator-${rule.id}`}>Separator</Label>
+                    <Input id={`rule-separator-${rule.id}`} className="font-mono" placeholder="+" value={rule.splitSeparator} onChange={(e) => handleRuleChange(index, 'splitSeparator', e.target.value)} disabled={isPending || rule.splitSize > 0} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`rule-item-pattern-${rule.id}`}>Keep Items Matching</Label>
+                    <Input id={`rule-item-pattern-${rule.id}`} className="font-mono" placeholder="^[PBC]" value={rule.itemPattern} onChange={(e) => handleRuleChange(index, 'itemPattern', e.target.value)} disabled={isPending} />
+                  </div>
+                  <p className="text-xs text-muted-foreground sm:col-span-4">The split group is cut into items of a fixed number of characters, or at the separator when that is 0. Items not matching the pattern are dropped; a file is only expanded into two or more copies.</p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor={`rule-template-${rule.id}`}>{rule.action === 'expand' ? 'Copy Name Template' : 'New Name Template'}</Label>
+                <Input id={`rule-template-${rule.id}`} className="font-mono" value={rule.template} onChange={(e) => handleRuleChange(index, 'template', e.target.value)} disabled={isPending} />
+                <p className="text-xs text-muted-foreground">
+                  Placeholders: {[...BUILT_IN_PLACEHOLDERS, ...(rule.action === 'expand' ? ['item'] : [])].map(key => `{${key}}`).join(', ')} and the named groups of the pattern.
+                </p>
+              </div>
+
+              <p className={`text-sm ${preview.isError ? 'text-destructive' : 'text-muted-foreground'}`}>{preview.text}</p>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-col sm:flex-row gap-2 pt-2">
+          <Button variant="outline" onClick={() => setRules([...rules, newRule()])} disabled={isPending}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Rule
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            <Save className="mr-2 h-4 w-4" /> Save Filename Rules
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
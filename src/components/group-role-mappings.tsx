@@ -0,0 +1,98 @@
+"use client";
+
+import { PlusCircle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { GroupRoleMapping, Role } from "@/types";
+
+// Radix Select items cannot have an empty value.
+const NO_ROLE = "none";
+
+interface GroupRoleMappingsProps {
+  idPrefix: string;
+  groupPlaceholder: string;
+  mappings: GroupRoleMapping[];
+  defaultRole: string | null;
+  // Roles the signed-in user may hand out.
+  roles: Role[];
+  disabled: boolean;
+  onMappingsChange: (mappings: GroupRoleMapping[]) => void;
+  onDefaultRoleChange: (roleId: string | null) => void;
+}
+
+// Editor for the group-to-role mappings shared by the LDAP and OIDC settings.
+export function GroupRoleMappings({
+  idPrefix,
+  groupPlaceholder,
+  mappings,
+  defaultRole,
+  roles,
+  disabled,
+  onMappingsChange,
+  onDefaultRoleChange,
+}: GroupRoleMappingsProps) {
+  const handleMappingChange = (index: number, field: keyof GroupRoleMapping, value: string) => {
+    onMappingsChange(mappings.map((mapping, i) => (i === index ? { ...mapping, [field]: value } : mapping)));
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label>Group Role Mappings</Label>
+        <p className="text-sm text-muted-foreground">
+          The first group the user is a member of decides their role. You can only map roles whose permissions you have yourself.
+        </p>
+        {mappings.map((mapping, index) => (
+          <div key={index} className="flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder={groupPlaceholder}
+              value={mapping.group}
+              onChange={(e) => handleMappingChange(index, 'group', e.target.value)}
+              disabled={disabled}
+            />
+            <div className="flex gap-2">
+              <Select value={mapping.role} onValueChange={(value) => handleMappingChange(index, 'role', value)} disabled={disabled}>
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map(role => (
+                    <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" onClick={() => onMappingsChange(mappings.filter((_, i) => i !== index))} disabled={disabled}>
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={() => onMappingsChange([...mappings, { group: '', role: 'user' }])} disabled={disabled}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Add Mapping
+        </Button>
+      </div>
+
+      <div className="space-y-2 sm:w-1/2">
+        <Label htmlFor={`${idPrefix}-default-role`}>Users in No Mapped Group</Label>
+        <Select
+          value={defaultRole ?? NO_ROLE}
+          onValueChange={(value) => onDefaultRoleChange(value === NO_ROLE ? null : value)}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${idPrefix}-default-role`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_ROLE}>Refuse sign-in</SelectItem>
+            {roles.map(role => (
+              <SelectItem key={role.id} value={role.id}>Sign in as {role.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+}
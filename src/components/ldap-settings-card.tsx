@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { Save, Send, UserCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { GroupRoleMappings } from "@/components/group-role-mappings";
+import { useToast } from "@/hooks/use-toast";
+import { getLdapSettings, testLdapConnection, updateLdapSettings } from "@/lib/actions";
+import type { LdapSettings, Role } from "@/types";
+
+type TestSignInResult = Awaited<ReturnType<typeof testLdapConnection>>;
+
+export function LdapSettingsCard() {
+  const [settings, setSettings] = useState<LdapSettings | null>(null);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [testUsername, setTestUsername] = useState("");
+  const [testPassword, setTestPassword] = useState("");
+  const [testResult, setTestResult] = useState<TestSignInResult | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getLdapSettings().then(({ settings, assignableRoles }) => {
+      setSettings(settings);
+      setRoles(assignableRoles);
+    });
+  }, []);
+
+  if (!settings) {
+    return null;
+  }
+
+  const handleChange = <K extends keyof LdapSettings>(field: K, value: LdapSettings[K]) => {
+    setSettings({ ...settings, [field]: value });
+  };
+
+  const roleName = (roleId: string | null) => roles.find(role => role.id === roleId)?.name ?? roleId;
+
+  const save = async () => {
+    const result = await updateLdapSettings(settings);
+    if (!result.success) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+    }
+    return result.success;
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      if (await save()) {
+        toast({ title: "LDAP Settings Saved", description: "Your directory sign-in settings have been updated." });
+      }
+    });
+  };
+
+  const handleTest = (withUser: boolean) => {
+    setTestResult(null);
+    startTransition(async () => {
+      if (!await save()) return; // Save before testing
+      const result = withUser ? await testLdapConnection(testUsername, testPassword) : await testLdapConnection();
+      if (withUser) {
+        setTestResult(result);
+      } else if (result.success) {
+        toast({ title: "LDAP Connection Successful", description: "The application successfully connected and bound to your directory." });
+      } else {
+        toast({ title: "LDAP Connection Failed", description: result.error, variant: "destructive", duration: 10000 });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>LDAP / Active Directory</CardTitle>
+        <CardDescription>
+          Let users sign in with their directory account. They are created on their first sign-in, and their name, email and role follow the directory on every sign-in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-row items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="ldap-enabled" className="text-base">Enable LDAP Sign-In</Label>
+            <p className="text-sm text-muted-foreground">
+              Local users, including the default admin, keep signing in with their own password.
+            </p>
+          </div>
+          <Switch id="ldap-enabled" checked={settings.enabled} onCheckedChange={(checked) => handleChange('enabled', checked)} disabled={isPending} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="ldap-url">Server URL</Label>
+            <Input id="ldap-url" placeholder="ldaps://dc1.example.com:636" value={settings.url} onChange={(e) => handleChange('url', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ldap-bind-dn">Bind DN</Label>
+            <Input id="ldap-bind-dn" placeholder="cn=reader,dc=example,dc=com" value={settings.bindDn} onChange={(e) => handleChange('bindDn', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ldap-bind-password">Bind Password</Label>
+            <Input id="ldap-bind-password" type="password" value={settings.bindPassword} onChange={(e) => handleChange('bindPassword', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ldap-search-base">Search Base</Label>
+            <Input id="ldap-search-base" placeholder="ou=people,dc=example,dc=com" value={settings.searchBase} onChange={(e) => handleChange('searchBase', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ldap-user-filter">User Filter</Label>
+            <Input id="ldap-user-filter" placeholder="(sAMAccountName={username})" value={settings.userFilter} onChange={(e) => handleChange('userFilter', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ldap-name-attribute">Name Attribute</Label>
+            <Input id="ldap-name-attribute" value={settings.nameAttribute} onChange={(e) => handleChange('nameAttribute', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ldap-email-attribute">Email Attribute</Label>
+            <Input id="ldap-email-attribute" value={settings.emailAttribute} onChange={(e) => handleChange('emailAttribute', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ldap-group-attribute">Group Attribute</Label>
+            <Input id="ldap-group-attribute" value={settings.groupAttribute} onChange={(e) => handleChange('groupAttribute', e.target.value)} disabled={isPending} />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Use `&#123;username&#125;` in the user filter where the sign-in name goes.
+        </p>
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="flex items-center space-x-2">
+            <Switch id="ldap-start-tls" checked={settings.startTls} onCheckedChange={(checked) => handleChange('startTls', checked)} disabled={isPending} />
+            <Label htmlFor="ldap-start-tls">Use StartTLS</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="ldap-verify-certificate" checked={settings.tlsRejectUnauthorized} onCheckedChange={(checked) => handleChange('tlsRejectUnauthorized', checked)} disabled={isPending} />
+            <Label htmlFor="ldap-verify-certificate">Verify Server Certificate</Label>
+          </div>
+        </div>
+
+        <GroupRoleMappings
+          idPrefix="ldap"
+          groupPlaceholder="cn=operators,ou=groups,dc=example,dc=com"
+          mappings={settings.groupRoleMappings}
+          defaultRole={settings.defaultRole}
+          roles={roles}
+          disabled={isPending}
+          onMappingsChange={(mappings) => handleChange('groupRoleMappings', mappings)}
+          onDefaultRoleChange={(roleId) => handleChange('defaultRole', roleId)}
+        />
+
+        <div className="flex flex-col sm:flex-row gap-2 pt-2">
+          <Button onClick={handleSave} disabled={isPending}>
+            <Save className="mr-2 h-4 w-4" /> Save LDAP Settings
+          </Button>
+          <Button variant="outline" onClick={() => handleTest(false)} disabled={isPending}>
+            <Send className="mr-2 h-4 w-4" /> Test Connection
+          </Button>
+        </div>
+
+        <div className="space-y-2 rounded-lg border p-4">
+          <Label className="text-base">Test a Sign-In</Label>
+          <p className="text-sm text-muted-foreground">
+            Checks a directory account against the saved settings without creating the user.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input placeholder="Username" value={testUsername} onChange={(e) => setTestUsername(e.target.value)} disabled={isPending} />
+            <Input type="password" placeholder="Password" value={testPassword} onChange={(e) => setTestPassword(e.target.value)} disabled={isPending} />
+            <Button variant="outline" onClick={() => handleTest(true)} disabled={isPending || !testUsername || !testPassword}>
+              <UserCheck className="mr-2 h-4 w-4" /> Test
+            </Button>
+          </div>
+          {testResult && (
+            testResult.success && testResult.identity ? (
+              <div className="space-y-1 text-sm">
+                <p><span className="text-muted-foreground">DN:</span> {testResult.identity.dn}</p>
+                <p><span className="text-muted-foreground">Name:</span> {testResult.identity.name || '—'}</p>
+                <p><span className="text-muted-foreground">Email:</span> {testResult.identity.email || '—'}</p>
+                <p>
+                  <span className="text-muted-foreground">Role:</span>{' '}
+                  {testResult.role ? roleName(testResult.role) : <span className="text-destructive">None; sign-in would be refused</span>}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {testResult.identity.groups.map(group => (
+                    <Badge key={group} variant="secondary">{group}</Badge>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-destructive">{testResult.error}</p>
+            )
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
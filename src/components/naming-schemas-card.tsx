@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { ArrowDown, ArrowUp, PlusCircle, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getNamingSchemas, getPipelines, updateNamingSchemas } from "@/lib/actions";
+import { NAMING_FIELD_LABELS, checkFileName, newNamingField, validateNamingSchema } from "@/lib/naming-schema";
+import type { NamingField, NamingFieldType, NamingSchema, Pipeline } from "@/types";
+import { FileNameWithIssue } from "./file-name-issue";
+
+// Radix Select items cannot have an empty value.
+const ALL_PIPELINES = "all";
+
+const newSchema = (): NamingSchema => ({
+  id: `schema-${Date.now()}`,
+  name: '',
+  enabled: true,
+  pipelineId: null,
+  action: 'flag',
+  fields: [
+    { ...newNamingField(), name: 'title' },
+    { ...newNamingField(), name: 'date', type: 'date', separator: '' },
+  ],
+});
+
+export function NamingSchemasCard() {
+  const [schemas, setSchemas] = useState<NamingSchema[] | null>(null);
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [sampleName, setSampleName] = useState("Title_20240101.xml");
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getNamingSchemas().then(setSchemas);
+    getPipelines().then(setPipelines);
+  }, []);
+
+  if (!schemas) {
+    return null;
+  }
+
+  const handleSchemaChange = <K extends keyof NamingSchema>(index: number, field: K, value: NamingSchema[K]) => {
+    setSchemas(schemas.map((schema, i) => (i === index ? { ...schema, [field]: value } : schema)));
+  };
+
+  const handleFieldChange = <K extends keyof NamingField>(schemaIndex: number, fieldIndex: number, field: K, value: NamingField[K]) => {
+    const fields = schemas[schemaIndex].fields.map((f, i) => (i === fieldIndex ? { ...f, [field]: value } : f));
+    handleSchemaChange(schemaIndex, 'fields', fields);
+  };
+
+  const handleMoveField = (schemaIndex: number, fieldIndex: number, offset: number) => {
+    const fields = [...schemas[schemaIndex].fields];
+    [fields[fieldIndex], fields[fieldIndex + offset]] = [fields[fieldIndex + offset], fields[fieldIndex]];
+    handleSchemaChange(schemaIndex, 'fields', fields);
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateNamingSchemas(schemas);
+      if (result.success) {
+        toast({ title: "Naming Schemas Saved", description: "New files are now checked against the updated schemas." });
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const renderSample = (schema: NamingSchema) => {
+    const error = validateNamingSchema(schema);
+    if (error) return <p className="text-sm text-destructive">{error}</p>;
+    if (!sampleName) return <p className="text-sm text-muted-foreground">Enter a sample file name above to test this schema.</p>;
+    const violation = checkFileName(sampleName, schema);
+    return (
+      <div className="space-y-1 text-sm">
+        <p className="font-mono break-all"><FileNameWithIssue fileName={sampleName} violation={violation} /></p>
+        <p className={violation ? "text-destructive" : "text-muted-foreground"}>
+          {violation ? violation.message : 'The sample file name follows this schema.'}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Naming Schemas</CardTitle>
+        <CardDescription>
+          Describe how the files of a pipeline must be named, field by field. New files in the import folder that do not follow the schema are flagged on the dashboard, or quarantined in the failed folder before they are processed. The first enabled schema for a pipeline is used, in the order below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="naming-sample">Test a Filename</Label>
+          <Input id="naming-sample" className="font-mono" placeholder="File name to test" value={sampleName} onChange={(e) => setSampleName(e.target.value)} />
+        </div>
+
+        {schemas.length === 0 && <p className="text-sm text-muted-foreground">No naming schemas. File names are not checked when files arrive.</p>}
+
+        {schemas.map((schema, index) => (
+          <div key={schema.id} className="space-y-4 rounded-lg border p-4">
+            <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor={`schema-name-${schema.id}`}>Name</Label>
+                <Input id={`schema-name-${schema.id}`} value={schema.name} onChange={(e) => handleSchemaChange(index, 'name', e.target.value)} disabled={isPending} />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={schema.enabled} onCheckedChange={(checked) => handleSchemaChange(index, 'enabled', checked)} disabled={isPending} />
+                <span className="text-sm text-muted-foreground">{schema.enabled ? 'Enabled' : 'Disabled'}</span>
+                <Button variant="ghost" size="icon" onClick={() => setSchemas(schemas.filter((_, i) => i !== index))} disabled={isPending}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Pipeline</Label>
+                <Select
+                  value={schema.pipelineId ?? ALL_PIPELINES}
+                  onValueChange={(value) => handleSchemaChange(index, 'pipelineId', value === ALL_PIPELINES ? null : value)}
+                  disabled={isPending}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PIPELINES}>All pipelines</SelectItem>
+                    {pipelines.map(pipeline => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Non-conforming Files</Label>
+                <Select value={schema.action} onValueChange={(value) => handleSchemaChange(index, 'action', value as NamingSchema['action'])} disabled={isPending}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="flag">Flag on the dashboard</SelectItem>
+                    <SelectItem value="quarantine">Quarantine in the failed folder</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Fields</Label>
+              {schema.fields.map((field, fieldIndex) => {
+                const isLast = fieldIndex === schema.fields.length - 1;
+                return (
+                  <div key={field.id} className="flex flex-col lg:flex-row lg:flex-wrap lg:items-center gap-2 rounded-md border p-3">
+                    <span className="text-sm font-medium lg:w-6">{fieldIndex + 1}.</span>
+                    <Input className="lg:w-[140px]" placeholder="Name" value={field.name} onChange={(e) => handleFieldChange(index, fieldIndex, 'name', e.target.value)} disabled={isPending} />
+                    <Select value={field.type} onValueChange={(value) => handleFieldChange(index, fieldIndex, 'type', value as NamingFieldType)} disabled={isPending}>
+                      <SelectTrigger className="lg:w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(NAMING_FIELD_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {field.type === 'list' && (
+                      <Input
+                        className="font-mono lg:flex-1"
+                        placeholder="EN, DE, FR"
+                        value={field.allowedValues.join(', ')}
+                        onChange={(e) => handleFieldChange(index, fieldIndex, 'allowedValues', e.target.value.split(',').map(value => value.trimStart()))}
+                        disabled={isPending}
+                      />
+                    )}
+                    {field.type === 'date' && (
+                      <Input className="font-mono lg:w-[140px]" placeholder="yyyyMMdd" value={field.dateFormat} onChange={(e) => handleFieldChange(index, fieldIndex, 'dateFormat', e.target.value)} disabled={isPending} />
+                    )}
+                    <Input type="number" min={0} className="lg:w-[80px]" placeholder="Min" value={field.minLength || ''} onChange={(e) => handleFieldChange(index, fieldIndex, 'minLength', Math.max(0, parseInt(e.target.value, 10) || 0))} disabled={isPending} />
+                    <Input type="number" min={0} className="lg:w-[80px]" placeholder="Max" value={field.maxLength || ''} onChange={(e) => handleFieldChange(index, fieldIndex, 'maxLength', Math.max(0, parseInt(e.target.value, 10) || 0))} disabled={isPending} />
+                    <span className="text-sm text-muted-foreground">characters</span>
+                    {!isLast && (
+                      <>
+                        <span className="text-sm text-muted-foreground lg:ml-auto">then</span>
+                        <Input className="font-mono lg:w-[60px]" placeholder="_" value={field.separator} onChange={(e) => handleFieldChange(index, fieldIndex, 'separator', e.target.value)} disabled={isPending} />
+                      </>
+                    )}
+                    <div className={`flex items-center ${isLast ? 'lg:ml-auto' : ''}`}>
+                      <Button variant="ghost" size="icon" onClick={() => handleMoveField(index, fieldIndex, -1)} disabled={isPending || fieldIndex === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleMoveField(index, fieldIndex, 1)} disabled={isPending || isLast}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleSchemaChange(index, 'fields', schema.fields.filter((_, i) => i !== fieldIndex))} disabled={isPending}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+              <p className="text-xs text-muted-foreground">Fields are read from the name without its extension, up to the separator after each one. Leave a length at 0 for no limit; a field without a separator must have the same minimum and maximum length. Dates use date-fns tokens, such as <code>yyyyMMdd</code>.</p>
+              <Button variant="outline" size="sm" onClick={() => handleSchemaChange(index, 'fields', [...schema.fields, newNamingField()])} disabled={isPending}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Field
+              </Button>
+            </div>
+
+            {renderSample(schema)}
+          </div>
+        ))}
+
+        <div className="flex flex-col sm:flex-row gap-2 pt-2">
+          <Button variant="outline" onClick={() => setSchemas([...schemas, newSchema()])} disabled={isPending}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Schema
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            <Save className="mr-2 h-4 w-4" /> Save Naming Schemas
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { Save, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { GroupRoleMappings } from "@/components/group-role-mappings";
+import { useToast } from "@/hooks/use-toast";
+import { getOidcSettings, testOidcDiscovery, updateOidcSettings } from "@/lib/actions";
+import type { OidcSettings, Role } from "@/types";
+
+export function OidcSettingsCard() {
+  const [settings, setSettings] = useState<OidcSettings | null>(null);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [callbackUrl, setCallbackUrl] = useState("");
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // Must match the redirect URI registered with the identity provider.
+    setCallbackUrl(`${window.location.origin}/api/auth/oidc/callback`);
+    getOidcSettings().then(({ settings, assignableRoles }) => {
+      setSettings(settings);
+      setRoles(assignableRoles);
+    });
+  }, []);
+
+  if (!settings) {
+    return null;
+  }
+
+  const handleChange = <K extends keyof OidcSettings>(field: K, value: OidcSettings[K]) => {
+    setSettings({ ...settings, [field]: value });
+  };
+
+  const save = async () => {
+    const result = await updateOidcSettings(settings);
+    if (!result.success) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+    }
+    return result.success;
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      if (await save()) {
+        toast({ title: "Single Sign-On Settings Saved", description: "Your identity provider settings have been updated." });
+      }
+    });
+  };
+
+  const handleTest = () => {
+    startTransition(async () => {
+      if (!await save()) return; // Save before testing
+      const result = await testOidcDiscovery();
+      if (result.success) {
+        toast({ title: "Discovery Successful", description: `Found the identity provider ${result.issuer}.` });
+      } else {
+        toast({ title: "Discovery Failed", description: result.error, variant: "destructive", duration: 10000 });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Single Sign-On (OpenID Connect)</CardTitle>
+        <CardDescription>
+          Add a sign-in button for an OpenID Connect identity provider. Users are created on their first sign-in, and their name, email and role follow the provider's claims on every sign-in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-row items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="oidc-enabled" className="text-base">Enable Single Sign-On</Label>
+            <p className="text-sm text-muted-foreground">
+              Register <span className="font-mono break-all">{callbackUrl}</span> as the redirect URI at your identity provider.
+            </p>
+          </div>
+          <Switch id="oidc-enabled" checked={settings.enabled} onCheckedChange={(checked) => handleChange('enabled', checked)} disabled={isPending} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="oidc-display-name">Button Label</Label>
+            <Input id="oidc-display-name" placeholder="e.g. Okta" value={settings.displayName} onChange={(e) => handleChange('displayName', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oidc-issuer">Issuer URL</Label>
+            <Input id="oidc-issuer" placeholder="https://login.example.com/realms/main" value={settings.issuerUrl} onChange={(e) => handleChange('issuerUrl', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oidc-client-id">Client ID</Label>
+            <Input id="oidc-client-id" value={settings.clientId} onChange={(e) => handleChange('clientId', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oidc-client-secret">Client Secret</Label>
+            <Input id="oidc-client-secret" type="password" placeholder="Leave empty for a public client" value={settings.clientSecret} onChange={(e) => handleChange('clientSecret', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="oidc-scopes">Scopes</Label>
+            <Input id="oidc-scopes" value={settings.scopes} onChange={(e) => handleChange('scopes', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oidc-username-claim">Username Claim</Label>
+            <Input id="oidc-username-claim" value={settings.usernameClaim} onChange={(e) => handleChange('usernameClaim', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oidc-name-claim">Name Claim</Label>
+            <Input id="oidc-name-claim" value={settings.nameClaim} onChange={(e) => handleChange('nameClaim', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oidc-email-claim">Email Claim</Label>
+            <Input id="oidc-email-claim" value={settings.emailClaim} onChange={(e) => handleChange('emailClaim', e.target.value)} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oidc-groups-claim">Groups Claim</Label>
+            <Input id="oidc-groups-claim" value={settings.groupsClaim} onChange={(e) => handleChange('groupsClaim', e.target.value)} disabled={isPending} />
+          </div>
+        </div>
+
+        <GroupRoleMappings
+          idPrefix="oidc"
+          groupPlaceholder="e.g. file-tracker-operators"
+          mappings={settings.groupRoleMappings}
+          defaultRole={settings.defaultRole}
+          roles={roles}
+          disabled={isPending}
+          onMappingsChange={(mappings) => handleChange('groupRoleMappings', mappings)}
+          onDefaultRoleChange={(roleId) => handleChange('defaultRole', roleId)}
+        />
+
+        <div className="flex flex-col sm:flex-row gap-2 pt-2">
+          <Button onClick={handleSave} disabled={isPending}>
+            <Save className="mr-2 h-4 w-4" /> Save Single Sign-On Settings
+          </Button>
+          <Button variant="outline" onClick={handleTest} disabled={isPending}>
+            <Send className="mr-2 h-4 w-4" /> Test Discovery
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { Check, Circle, X } from "lucide-react";
+import { getPasswordRules } from "@/lib/password-policy";
+import type { PasswordPolicy } from "@/types";
+
+interface PasswordRequirementsProps {
+  policy: PasswordPolicy | null;
+  password: string;
+}
+
+export function PasswordRequirements({ policy, password }: PasswordRequirementsProps) {
+  if (!policy) return null;
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {getPasswordRules(policy).map(rule => {
+        const met = rule.isMet ? rule.isMet(password) : null;
+        const Icon = met === null ? Circle : met ? Check : X;
+        return (
+          <li key={rule.label} className={`flex items-center gap-2 ${met ? 'text-green-600 dark:text-green-400' : 'text-muted-foreground'}`}>
+            <Icon className="h-3 w-3" />
+            {rule.label}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { Copy, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  username: string;
+}
+
+export function RecoveryCodesList({ codes, username }: RecoveryCodesListProps) {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast({ title: "Copied", description: "The recovery codes have been copied to the clipboard." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Please download the codes or write them down instead.", variant: "destructive" });
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([codes.join('\n') + '\n'], { type: 'text/plain;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `recovery-codes-${username}.txt`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/50 p-4 font-mono text-sm">
+        {codes.map(code => (
+          <span key={code} className="text-center">{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleCopy}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
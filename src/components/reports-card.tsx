@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { format } from "date-fns";
+import { PlusCircle, RefreshCw, Save, Send, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TimeZoneInput } from "@/components/time-zone-input";
+import { useToast } from "@/hooks/use-toast";
+import { getReportRuns, getReportSettings, sendReportNow, updateReportSettings } from "@/lib/actions";
+import { getNextScheduledReport, isValidReportTime } from "@/lib/report-schedule";
+import { WEEKDAYS, formatInTimeZone, isValidTimeZone } from "@/lib/time-zones";
+import type { ReportFrequency, ReportRun, ReportSettings } from "@/types";
+
+export function ReportsCard() {
+  const [settings, setSettings] = useState<ReportSettings | null>(null);
+  const [runs, setRuns] = useState<ReportRun[]>([]);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const fetchRuns = async () => setRuns(await getReportRuns());
+
+  useEffect(() => {
+    getReportSettings().then(setSettings);
+    fetchRuns();
+  }, []);
+
+  if (!settings) {
+    return null;
+  }
+
+  const handleChange = <K extends keyof ReportSettings>(field: K, value: ReportSettings[K]) => {
+    setSettings({ ...settings, [field]: value });
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateReportSettings(settings);
+      if (result.success) {
+        toast({ title: "Report Settings Saved", description: "Your scheduled report settings have been updated." });
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const handleSendNow = () => {
+    startTransition(async () => {
+      const result = await sendReportNow(settings);
+      if (result.success) {
+        toast({ title: "Report Sent", description: `The ${settings.frequency} report was sent to ${settings.recipients.filter(Boolean).length} recipient(s).` });
+      } else {
+        toast({ title: "Sending Failed", description: result.error, variant: "destructive", duration: 10000 });
+      }
+      await fetchRuns();
+    });
+  };
+
+  const canSchedule = isValidReportTime(settings.time) && isValidTimeZone(settings.timeZone);
+  const nextRun = settings.enabled && canSchedule ? getNextScheduledReport(settings, new Date()) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scheduled Reports</CardTitle>
+        <CardDescription>
+          Email a summary each day or week with the file counts per status, the failure rate, the most common failure remarks and the slowest files. The statistics report CSV is attached.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-row items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="reports-enabled" className="text-base">Send Scheduled Reports</Label>
+            <p className="text-sm text-muted-foreground">
+              {nextRun ? `Next report: ${formatInTimeZone(nextRun, settings.timeZone)} (${settings.timeZone}).` : 'Reports are not sent until this is turned on.'}
+            </p>
+          </div>
+          <Switch id="reports-enabled" checked={settings.enabled} onCheckedChange={(checked) => handleChange('enabled', checked)} disabled={isPending} />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="reports-frequency">Frequency</Label>
+            <Select value={settings.frequency} onValueChange={(value) => handleChange('frequency', value as ReportFrequency)} disabled={isPending}>
+              <SelectTrigger id="reports-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {settings.frequency === 'weekly' && (
+            <div className="space-y-2">
+              <Label htmlFor="reports-day">Day</Label>
+              <Select value={String(settings.dayOfWeek)} onValueChange={(value) => handleChange('dayOfWeek', Number(value))} disabled={isPending}>
+                <SelectTrigger id="reports-day">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day, index) => (
+                    <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="reports-time">Time</Label>
+            <Input id="reports-time" type="time" value={settings.time} onChange={(e) => handleChange('time', e.target.value)} disabled={isPending} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reports-time-zone">Time Zone</Label>
+          <TimeZoneInput id="reports-time-zone" value={settings.timeZone} onChange={(timeZone) => handleChange('timeZone', timeZone)} disabled={isPending} />
+          <p className="text-xs text-muted-foreground">The report covers the day or week up to the scheduled time, and its times are shown in this time zone.</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Recipients</Label>
+          {settings.recipients.map((email, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="email"
+                placeholder="manager@example.com"
+                value={email}
+                onChange={(e) => handleChange('recipients', settings.recipients.map((r, i) => (i === index ? e.target.value : r)))}
+                disabled={isPending}
+              />
+              <Button variant="ghost" size="icon" onClick={() => handleChange('recipients', settings.recipients.filter((_, i) => i !== index))} disabled={isPending}>
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => handleChange('recipients', [...settings.recipients, ''])} disabled={isPending}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Add Recipient
+          </Button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 pt-2">
+          <Button onClick={handleSave} disabled={isPending}>
+            <Save className="mr-2 h-4 w-4" /> Save Report Settings
+          </Button>
+          <Button variant="outline" onClick={handleSendNow} disabled={isPending}>
+            <Send className="mr-2 h-4 w-4" /> Send Report Now
+          </Button>
+        </div>
+
+        <div className="space-y-2 pt-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-base">Recent Runs</Label>
+            <Button variant="outline" size="icon" onClick={() => startTransition(fetchRuns)} disabled={isPending}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Report</TableHead>
+                  <TableHead>Recipients</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.length > 0 ? runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell className="whitespace-nowrap text-xs">{format(new Date(run.createdAt), "PPpp")}</TableCell>
+                    <TableCell className="text-sm">
+                      <span className="capitalize">{run.frequency}</span>
+                      {run.trigger === 'manual' && <span className="text-muted-foreground"> (sent manually)</span>}
+                      <p className="text-xs text-muted-foreground">{format(new Date(run.periodStart), "PPp")} – {format(new Date(run.periodEnd), "PPp")}</p>
+                    </TableCell>
+                    <TableCell className="text-xs break-all">{run.recipients || '—'}</TableCell>
+                    <TableCell className="text-sm">
+                      <Badge variant={run.status === 'sent' ? "secondary" : "destructive"} className="capitalize">{run.status}</Badge>
+                      {run.error && <p className="text-xs text-destructive">{run.error}</p>}
+                    </TableCell>
+                  </TableRow>
+                )) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">No reports sent yet.</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Pencil, PlusCircle, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { deleteRole, saveRole } from "@/lib/actions";
+import { PERMISSIONS } from "@/lib/permissions";
+import type { Permission, Role } from "@/types";
+
+interface RolesCardProps {
+  roles: Role[];
+  // Permissions of the signed-in user; only these can be granted to a role.
+  grantablePermissions: Permission[];
+  onRolesChanged: () => Promise<void>;
+}
+
+export function RolesCard({ roles, grantablePermissions, onRolesChanged }: RolesCardProps) {
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const permissionLabel = (permission: Permission) =>
+    PERMISSIONS.find(p => p.id === permission)?.label ?? permission;
+
+  const handleTogglePermission = (permission: Permission, checked: boolean) => {
+    if (!editingRole) return;
+    setEditingRole({
+      ...editingRole,
+      permissions: checked
+        ? [...editingRole.permissions, permission]
+        : editingRole.permissions.filter(p => p !== permission),
+    });
+  };
+
+  const handleSave = () => {
+    if (!editingRole) return;
+    startTransition(async () => {
+      const result = await saveRole(editingRole);
+      if (result.success) {
+        toast({ title: "Role Saved", description: `The ${editingRole.name} role has been saved.` });
+        setEditingRole(null);
+        await onRolesChanged();
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const handleDelete = (role: Role) => {
+    startTransition(async () => {
+      const result = await deleteRole(role.id);
+      if (result.success) {
+        toast({ title: "Role Deleted", description: `The ${role.name} role has been deleted.`, variant: "destructive" });
+        await onRolesChanged();
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Roles</CardTitle>
+          <CardDescription>Roles decide what their users may do. The built-in Admin and User roles cannot be changed.</CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setEditingRole({ id: '', name: '', permissions: ['view'] })} disabled={isPending}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          New Role
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2 rounded-lg border">
+          {roles.map(role => (
+            <div key={role.id} className="flex flex-col sm:flex-row items-start sm:items-center justify-between rounded-md p-2 hover:bg-muted/50 gap-2 border-b">
+              <div className="space-y-1">
+                <p className="font-medium text-sm">
+                  {role.name} {role.builtIn && <span className="text-xs text-muted-foreground">(built-in)</span>}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {role.permissions.length > 0 ? (
+                    role.permissions.map(permission => (
+                      <Badge key={permission} variant="secondary">{permissionLabel(permission)}</Badge>
+                    ))
+                  ) : (
+                    <span className="text-xs text-muted-foreground">No permissions</span>
+                  )}
+                </div>
+              </div>
+              {!role.builtIn && (
+                <div className="flex items-center gap-1 self-end sm:self-center">
+                  <Button variant="outline" size="sm" onClick={() => setEditingRole(role)} disabled={isPending}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    <span className="hidden sm:inline">Edit</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(role)} disabled={isPending}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editingRole} onOpenChange={(open) => !open && setEditingRole(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRole?.id ? `Edit Role: ${editingRole.name}` : 'New Role'}</DialogTitle>
+            <DialogDescription>
+              Choose what users with this role may do. You can only grant permissions you have yourself.
+            </DialogDescription>
+          </DialogHeader>
+          {editingRole && (
+            <div className="space-y-4 py-2">
+              <div className="space-y-2">
+                <Label htmlFor="role-name">Name</Label>
+                <Input
+                  id="role-name"
+                  placeholder="e.g. Operator"
+                  value={editingRole.name}
+                  onChange={(e) => setEditingRole({ ...editingRole, name: e.target.value })}
+                  disabled={isPending}
+                />
+              </div>
+              <div className="space-y-3">
+                {PERMISSIONS.map(permission => (
+                  <div key={permission.id} className="flex items-start gap-3">
+                    <Checkbox
+                      id={`role-permission-${permission.id}`}
+                      checked={editingRole.permissions.includes(permission.id)}
+                      onCheckedChange={(checked) => handleTogglePermission(permission.id, checked === true)}
+                      disabled={isPending || !grantablePermissions.includes(permission.id)}
+                    />
+                    <div className="space-y-0.5">
+                      <Label htmlFor={`role-permission-${permission.id}`}>{permission.label}</Label>
+                      <p className="text-xs text-muted-foreground">{permission.description}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingRole(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isPending}>
+              {isPending ? "Saving..." : "Save Role"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { ArrowDown, ArrowRight, ArrowUp, PlusCircle, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getSanitizeSteps, updateSanitizeSteps } from "@/lib/actions";
+import { SANITIZE_STEP_LABELS, newSanitizeStep, previewSanitizeSteps, sanitizeFileName, validateSanitizeStep } from "@/lib/filename-sanitizer";
+import type { SanitizeStep, SanitizeStepType } from "@/types";
+
+// The steps of the filename auto-fix, with a dry run on a sample name. Part of the File
+// Processing card on the settings page.
+export function SanitizeStepsEditor() {
+  const [steps, setSteps] = useState<SanitizeStep[] | null>(null);
+  const [sampleName, setSampleName] = useState("Résumé Q1 *final*.xml");
+  const [newStepType, setNewStepType] = useState<SanitizeStepType>("replace");
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getSanitizeSteps().then(setSteps);
+  }, []);
+
+  if (!steps) {
+    return null;
+  }
+
+  const handleStepChange = <K extends keyof SanitizeStep>(index: number, field: K, value: SanitizeStep[K]) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, [field]: value } : step)));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSteps(next);
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateSanitizeSteps(steps);
+      if (result.success) {
+        toast({ title: "Auto-fix Steps Saved", description: "Failed files are now fixed with the updated steps." });
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const errors = steps.map((step, index) => validateSanitizeStep(step, index + 1));
+  const preview = sampleName ? previewSanitizeSteps(sampleName, steps) : [];
+  const result = sampleName ? sanitizeFileName(sampleName, steps) : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="sanitize-sample">Test a Filename</Label>
+        <Input id="sanitize-sample" className="font-mono" placeholder="File name to test" value={sampleName} onChange={(e) => setSampleName(e.target.value)} />
+        {sampleName && (
+          <p className="text-sm">
+            {result === sampleName
+              ? <span className="text-muted-foreground">The file name would stay as it is.</span>
+              : <>Would be retried as <span className="font-mono font-medium">{result}</span></>}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Steps</Label>
+        {steps.length === 0 && <p className="text-sm text-muted-foreground">No steps. File names are left as they are.</p>}
+        {steps.map((step, index) => (
+          <div key={step.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <span className="text-sm font-medium sm:w-6">{index + 1}.</span>
+              <Select value={step.type} onValueChange={(value) => handleStepChange(index, 'type', value as SanitizeStepType)} disabled={isPending}>
+                <SelectTrigger className="sm:w-[260px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SANITIZE_STEP_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {(step.type === 'remove' || step.type === 'replace') && (
+                <Input className="font-mono sm:w-[200px]" placeholder="[\s]" value={step.pattern} onChange={(e) => handleStepChange(index, 'pattern', e.target.value)} disabled={isPending} />
+              )}
+              {step.type === 'replace' && (
+                <>
+                  <span className="text-sm text-muted-foreground">with</span>
+                  <Input className="font-mono sm:w-[80px]" value={step.replacement} onChange={(e) => handleStepChange(index, 'replacement', e.target.value)} disabled={isPending} />
+                </>
+              )}
+              {step.type === 'normalize' && (
+                <Select value={step.normalization} onValueChange={(value) => handleStepChange(index, 'normalization', value as SanitizeStep['normalization'])} disabled={isPending}>
+                  <SelectTrigger className="sm:w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="NFC">NFC (composed)</SelectItem>
+                    <SelectItem value="NFD">NFD (decomposed)</SelectItem>
+                    <SelectItem value="NFKC">NFKC (compatibility, composed)</SelectItem>
+                    <SelectItem value="NFKD">NFKD (compatibility, decomposed)</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {step.type === 'case' && (
+                <Select value={step.case} onValueChange={(value) => handleStepChange(index, 'case', value as SanitizeStep['case'])} disabled={isPending}>
+                  <SelectTrigger className="sm:w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="lower">lowercase</SelectItem>
+                    <SelectItem value="upper">UPPERCASE</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {step.type === 'max-length' && (
+                <>
+                  <Input type="number" min={1} className="sm:w-[100px]" value={step.maxLength} onChange={(e) => handleStepChange(index, 'maxLength', parseInt(e.target.value, 10) || 0)} disabled={isPending} />
+                  <span className="text-sm text-muted-foreground">characters, extension included</span>
+                </>
+              )}
+
+              <div className="flex items-center sm:ml-auto">
+                <Button variant="ghost" size="icon" onClick={() => handleMove(index, -1)} disabled={isPending || index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleMove(index, 1)} disabled={isPending || index === steps.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setSteps(steps.filter((_, i) => i !== index))} disabled={isPending}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+            {errors[index]
+              ? <p className="text-xs text-destructive">{errors[index]}</p>
+              : sampleName && (
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <ArrowRight className="h-3 w-3" /> <span className="font-mono break-all">{preview[index]}</span>
+                </p>
+              )}
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">Steps run in order on the name without its extension. Remove and replace take a regular expression for the characters to change, such as <code>[*?\s]</code>.</p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="flex gap-2">
+          <Select value={newStepType} onValueChange={(value) => setNewStepType(value as SanitizeStepType)} disabled={isPending}>
+            <SelectTrigger className="sm:w-[260px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SANITIZE_STEP_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setSteps([...steps, newSanitizeStep(newStepType)])} disabled={isPending}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Step
+          </Button>
+        </div>
+        <Button onClick={handleSave} disabled={isPending}>
+          <Save className="mr-2 h-4 w-4" /> Save Auto-fix Steps
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const TIME_ZONES = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// A free-text IANA time zone field that suggests the zones the browser knows.
+export function TimeZoneInput({ id, value, onChange, disabled }: { id: string, value: string, onChange: (timeZone: string) => void, disabled?: boolean }) {
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <Input
+        id={id}
+        list={`${id}-options`}
+        placeholder="Europe/Berlin"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+      />
+      <datalist id={`${id}-options`}>
+        {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+      </datalist>
+      <Button variant="outline" onClick={() => onChange(getBrowserTimeZone())} disabled={disabled}>
+        Use My Time Zone
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { format } from "date-fns";
+import { Copy, Pencil, PlusCircle, RefreshCw, RotateCcw, Send, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileStatusBadge } from "@/components/file-status-badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deleteWebhook,
+  getPipelines,
+  getWebhookDeliveries,
+  getWebhooks,
+  redeliverWebhook,
+  regenerateWebhookSecret,
+  saveWebhook,
+  sendTestWebhook,
+} from "@/lib/actions";
+import type { FileStatus, Pipeline, Webhook, WebhookDelivery } from "@/types";
+
+const STATUSES: FileStatus['status'][] = ['arriving', 'processing', 'failed', 'timed-out', 'published'];
+// Radix Select items cannot have an empty value.
+const ALL_WEBHOOKS = "all";
+
+const DELIVERY_STATUS_VARIANTS: Record<WebhookDelivery['status'], "secondary" | "destructive" | "outline"> = {
+  delivered: "secondary",
+  pending: "outline",
+  failed: "destructive",
+};
+
+const newWebhook = (): Webhook => ({
+  id: '',
+  name: '',
+  url: '',
+  secret: '',
+  enabled: true,
+  statuses: ['failed', 'timed-out', 'published'],
+  pipelineIds: [],
+});
+
+// What the log shows for a delivery: the file and its new status, or the test event.
+function describeDelivery(delivery: WebhookDelivery): { fileName?: string; status?: FileStatus['status'] } {
+  try {
+    const { data } = JSON.parse(delivery.payload);
+    return delivery.eventType === 'file.status_changed' ? { fileName: data.fileName, status: data.status } : {};
+  } catch {
+    return {};
+  }
+}
+
+export function WebhooksCard() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [logFilter, setLogFilter] = useState(ALL_WEBHOOKS);
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const fetchWebhooks = async () => setWebhooks(await getWebhooks());
+  const fetchDeliveries = async () =>
+    setDeliveries(await getWebhookDeliveries(logFilter === ALL_WEBHOOKS ? undefined : logFilter));
+
+  useEffect(() => {
+    fetchWebhooks();
+    getPipelines().then(setPipelines);
+  }, []);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [logFilter]);
+
+  const webhookName = (webhookId: string) => webhooks.find(w => w.id === webhookId)?.name ?? 'Deleted webhook';
+  const pipelineNames = (webhook: Webhook) =>
+    webhook.pipelineIds.length === 0
+      ? 'All pipelines'
+      : webhook.pipelineIds.map(id => pipelines.find(p => p.id === id)?.name ?? id).join(', ');
+
+  const toggleListItem = <T,>(list: T[], item: T, checked: boolean): T[] =>
+    checked ? [...list, item] : list.filter(i => i !== item);
+
+  const handleSave = () => {
+    if (!editingWebhook) return;
+    startTransition(async () => {
+      const result = await saveWebhook(editingWebhook);
+      if (result.success) {
+        toast({ title: "Webhook Saved", description: `The ${editingWebhook.name} webhook has been saved.` });
+        setEditingWebhook(null);
+        await fetchWebhooks();
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    startTransition(async () => {
+      const result = await deleteWebhook(webhook.id);
+      if (result.success) {
+        toast({ title: "Webhook Deleted", description: `The ${webhook.name} webhook has been deleted.`, variant: "destructive" });
+        await fetchWebhooks();
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const handleRegenerateSecret = (webhook: Webhook) => {
+    startTransition(async () => {
+      const result = await regenerateWebhookSecret(webhook.id);
+      if (result.success) {
+        const updated = await getWebhooks();
+        setWebhooks(updated);
+        // Keep unsaved edits in the dialog; only the secret changed on the server.
+        const secret = updated.find(w => w.id === webhook.id)?.secret ?? '';
+        setEditingWebhook(current => current && { ...current, secret });
+        toast({ title: "Secret Regenerated", description: "Update the receiving system with the new secret." });
+      } else {
+        toast({ title: "Error", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast({ title: "Copied", description: "The signing secret has been copied to the clipboard." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Please select the secret and copy it by hand.", variant: "destructive" });
+    }
+  };
+
+  const reportDelivery = (title: string, result: { success: boolean; error?: string; delivery?: WebhookDelivery }) => {
+    if (result.success) {
+      toast({ title, description: `The endpoint responded with HTTP ${result.delivery?.responseStatus}.` });
+    } else {
+      toast({ title: "Delivery Failed", description: result.error, variant: "destructive", duration: 10000 });
+    }
+  };
+
+  const handleTest = (webhook: Webhook) => {
+    startTransition(async () => {
+      reportDelivery("Test Event Delivered", await sendTestWebhook(webhook.id));
+      await fetchDeliveries();
+    });
+  };
+
+  const handleRedeliver = (delivery: WebhookDelivery) => {
+    startTransition(async () => {
+      reportDelivery("Redelivered", await redeliverWebhook(delivery.id));
+      await fetchDeliveries();
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Webhooks</CardTitle>
+          <CardDescription>
+            Notify other systems when files change status. Each request is a JSON POST signed with the webhook's secret: the X-FileTracker-Signature header holds <span className="font-mono">sha256=</span> and the HMAC-SHA256 of the X-FileTracker-Timestamp header, a dot and the body. Failed deliveries are retried with increasing delays for about two hours.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setEditingWebhook(newWebhook())} disabled={isPending}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          New Webhook
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {webhooks.length > 0 ? (
+          <div className="space-y-2 rounded-lg border">
+            {webhooks.map(webhook => (
+              <div key={webhook.id} className="flex flex-col sm:flex-row items-start sm:items-center justify-between rounded-md p-2 hover:bg-muted/50 gap-2 border-b">
+                <div className="space-y-1 min-w-0">
+                  <p className="font-medium text-sm">
+                    {webhook.name} {!webhook.enabled && <span className="text-xs text-muted-foreground">(disabled)</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground font-mono break-all">{webhook.url}</p>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {webhook.statuses.map(status => <FileStatusBadge key={status} status={status} />)}
+                    <span className="text-xs text-muted-foreground ml-1">{pipelineNames(webhook)}</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 self-end sm:self-center">
+                  <Button variant="outline" size="sm" onClick={() => handleTest(webhook)} disabled={isPending}>
+                    <Send className="mr-2 h-4 w-4" />
+                    <span className="hidden sm:inline">Test</span>
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setEditingWebhook(webhook)} disabled={isPending}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    <span className="hidden sm:inline">Edit</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(webhook)} disabled={isPending}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center text-muted-foreground p-4">No webhooks are configured.</div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <Label className="text-base">Recent Deliveries</Label>
+            <div className="flex gap-2">
+              <Select value={logFilter} onValueChange={setLogFilter}>
+                <SelectTrigger className="sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_WEBHOOKS}>All webhooks</SelectItem>
+                  {webhooks.map(webhook => (
+                    <SelectItem key={webhook.id} value={webhook.id}>{webhook.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="icon" onClick={() => startTransition(fetchDeliveries)} disabled={isPending}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Webhook</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.length > 0 ? deliveries.map(delivery => {
+                  const { fileName, status } = describeDelivery(delivery);
+                  return (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="whitespace-nowrap text-xs">{format(new Date(delivery.createdAt), "PPpp")}</TableCell>
+                      <TableCell className="text-sm">{webhookName(delivery.webhookId)}</TableCell>
+                      <TableCell className="text-sm">
+                        {fileName ? (
+                          <div className="flex flex-wrap items-center gap-1">
+                            <span className="font-mono text-xs break-all">{fileName}</span>
+                            {status && <FileStatusBadge status={status} />}
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">Test event</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={DELIVERY_STATUS_VARIANTS[delivery.status]} className="capitalize">{delivery.status}</Badge>
+                          {delivery.responseStatus !== null && <span className="font-mono text-xs">HTTP {delivery.responseStatus}</span>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {delivery.attempts} attempt(s)
+                          {delivery.status === 'pending' && delivery.nextAttemptAt && ` · next at ${format(new Date(delivery.nextAttemptAt), "pp")}`}
+                        </p>
+                        {delivery.error && <p className="text-xs text-destructive">{delivery.error}</p>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => handleRedeliver(delivery)} disabled={isPending || !webhooks.some(w => w.id === delivery.webhookId)}>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Redeliver
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                }) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">No deliveries yet.</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editingWebhook} onOpenChange={(open) => !open && setEditingWebhook(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingWebhook?.id ? `Edit Webhook: ${editingWebhook.name}` : 'New Webhook'}</DialogTitle>
+            <DialogDescription>
+              Choose where to send status changes and which ones to send.
+            </DialogDescription>
+          </DialogHeader>
+          {editingWebhook && (
+            <div className="space-y-4 py-2">
+              <div className="flex items-center space-x-2">
+                <Switch id="webhook-enabled" checked={editingWebhook.enabled} onCheckedChange={(enabled) => setEditingWebhook({ ...editingWebhook, enabled })} disabled={isPending} />
+                <Label htmlFor="webhook-enabled">Enabled</Label>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-name">Name</Label>
+                <Input id="webhook-name" placeholder="e.g. Publishing system" value={editingWebhook.name} onChange={(e) => setEditingWebhook({ ...editingWebhook, name: e.target.value })} disabled={isPending} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">URL</Label>
+                <Input id="webhook-url" placeholder="https://example.com/hooks/file-tracker" value={editingWebhook.url} onChange={(e) => setEditingWebhook({ ...editingWebhook, url: e.target.value })} disabled={isPending} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-secret">Signing Secret</Label>
+                {editingWebhook.id ? (
+                  <div className="flex gap-2">
+                    <Input id="webhook-secret" readOnly value={editingWebhook.secret} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                    <Button type="button" variant="outline" size="icon" onClick={() => handleCopySecret(editingWebhook.secret)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => handleRegenerateSecret(editingWebhook)} disabled={isPending}>
+                      Regenerate
+                    </Button>
+                  </div>
+                ) : (
+                  <Input id="webhook-secret" placeholder="Leave empty to generate one" value={editingWebhook.secret} onChange={(e) => setEditingWebhook({ ...editingWebhook, secret: e.target.value })} disabled={isPending} />
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Statuses</Label>
+                <div className="flex flex-wrap gap-4">
+                  {STATUSES.map(status => (
+                    <div key={status} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`webhook-status-${status}`}
+                        checked={editingWebhook.statuses.includes(status)}
+                        onCheckedChange={(checked) => setEditingWebhook({ ...editingWebhook, statuses: toggleListItem(editingWebhook.statuses, status, checked === true) })}
+                        disabled={isPending}
+                      />
+                      <Label htmlFor={`webhook-status-${status}`} className="capitalize">{status}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Pipelines</Label>
+                <p className="text-xs text-muted-foreground">Leave all unchecked to send changes from every pipeline.</p>
+                <div className="space-y-2">
+                  {pipelines.map(pipeline => (
+                    <div key={pipeline.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`webhook-pipeline-${pipeline.id}`}
+                        checked={editingWebhook.pipelineIds.includes(pipeline.id)}
+                        onCheckedChange={(checked) => setEditingWebhook({ ...editingWebhook, pipelineIds: toggleListItem(editingWebhook.pipelineIds, pipeline.id, checked === true) })}
+                        disabled={isPending}
+                      />
+                      <Label htmlFor={`webhook-pipeline-${pipeline.id}`}>{pipeline.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingWebhook(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isPending}>
+              {isPending ? "Saving..." : "Save Webhook"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
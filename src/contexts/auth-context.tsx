@@ -3,22 +3,23 @@
 
 import React, { createContext, useState, useEffect, ReactNode, useCallback } from 'react';
 import type { User } from '@/types';
-import * as db from '@/lib/db';
 import * as actions from '@/lib/actions';
+import { hasPermission } from '@/lib/permissions';
 
 
-const CURRENT_USER_STORAGE_KEY = 'file-tracker-user';
-
 interface AuthContextType {
   user: User | null;
   users: User[];
   loading: boolean;
-  login: (username: string, password: string) => Promise<{ success: boolean; twoFactorRequired: boolean; requiresTwoFactorSetup: boolean; user?: User }>;
-  completeTwoFactorLogin: (userId: string, token: string) => Promise<boolean>;
-  logout: () => void;
+  login: (username: string, password: string) => Promise<actions.LoginResult>;
+  completeTwoFactorLogin: (token: string) => Promise<actions.LoginResult>;
+  completeRecoveryCodeLogin: (code: string) => Promise<actions.LoginResult>;
+  completePasswordChange: (newPassword: string) => Promise<actions.LoginResult>;
+  logout: () => Promise<void>;
   addUser: (user: User) => Promise<{success: boolean, message?: string}>;
   removeUser: (userId: string) => Promise<void>;
-  updateOwnPassword: (userId: string, currentPassword: string, newPassword: string) => Promise<boolean>;
+  updateOwnPassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
+  updateOwnAvatar: (avatar: string | null) => Promise<void>;
   updateUser: (user: User) => Promise<void>;
   refreshUsers: () => Promise<void>;
   refreshCurrentUser: () => Promise<void>;
@@ -26,82 +27,80 @@ interface AuthContextType {
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// The session itself lives in an HTTP-only cookie; this provider only mirrors the user
+// the server says is signed in.
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
 
   const refreshUsers = useCallback(async () => {
-    const freshUsers = await db.getUsers();
+    const freshUsers = await actions.getUsers();
     setUsers(freshUsers);
   }, []);
 
   const refreshCurrentUser = useCallback(async () => {
-     if (!user) return;
-     const currentUser = await db.getUserById(user.id);
-     if(currentUser) {
-        const { password: _, ...userToStore } = currentUser;
-        localStorage.setItem(CURRENT_USER_STORAGE_KEY, JSON.stringify(userToStore));
-        setUser(userToStore);
-     }
-  }, [user]);
+    setUser(await actions.getCurrentUser());
+  }, []);
 
 
   useEffect(() => {
     const checkUser = async () => {
       setLoading(true);
       try {
-        await actions.ensureAdminUserExists();
-        const storedCurrentUser = localStorage.getItem(CURRENT_USER_STORAGE_KEY);
-        if (storedCurrentUser) {
-          setUser(JSON.parse(storedCurrentUser));
-        }
-        await refreshUsers();
+        setUser(await actions.getCurrentUser());
       } catch (error) {
-        console.error("Failed to sync users or check current user", error);
+        console.error("Failed to check current user", error);
       } finally {
         setLoading(false);
       }
     };
     checkUser();
-  }, [refreshUsers]);
+  }, []);
+
+  const canManageUsers = hasPermission(user, 'manage-users');
+  useEffect(() => {
+    if (canManageUsers) {
+      refreshUsers().catch(error => console.error("Failed to load users", error));
+    } else {
+      setUsers([]);
+    }
+  }, [canManageUsers, refreshUsers]);
 
-  const login = async (username: string, password: string): Promise<{ success: boolean; twoFactorRequired: boolean; requiresTwoFactorSetup: boolean; user?: User }> => {
-    const result = await actions.validateUserCredentials(username, password);
-    
+  const login = async (username: string, password: string): Promise<actions.LoginResult> => {
+    const result = await actions.login(username, password);
     if (result.success && result.user) {
-      const userToLogin = result.user;
-      if (userToLogin.twoFactorRequired) {
-        const requiresSetup = !userToLogin.twoFactorSecret;
-        return { success: true, twoFactorRequired: true, requiresTwoFactorSetup: requiresSetup, user: userToLogin };
-      } else {
-        const { password: _, ...userToStore } = userToLogin;
-        localStorage.setItem(CURRENT_USER_STORAGE_KEY, JSON.stringify(userToStore));
-        setUser(userToStore);
-        await refreshUsers();
-        return { success: true, twoFactorRequired: false, requiresTwoFactorSetup: false, user: userToLogin };
-      }
+      setUser(result.user);
     }
-    return { success: false, twoFactorRequired: false, requiresTwoFactorSetup: false };
+    return result;
   };
   
-  const completeTwoFactorLogin = async (userId: string, token: string): Promise<boolean> => {
-    const isValid = await actions.verifyTwoFactorToken(userId, token);
-    if (isValid) {
-      const userToLogin = await db.getUserById(userId);
-      if (userToLogin) {
-        const { password: _, ...userToStore } = userToLogin;
-        localStorage.setItem(CURRENT_USER_STORAGE_KEY, JSON.stringify(userToStore));
-        setUser(userToStore);
-        await refreshUsers();
-        return true;
-      }
+  const completeTwoFactorLogin = async (token: string): Promise<actions.LoginResult> => {
+    const result = await actions.completeTwoFactorLogin(token);
+    if (result.success && result.user) {
+      setUser(result.user);
     }
-    return false;
+    return result;
   };
 
-  const logout = () => {
-    localStorage.removeItem(CURRENT_USER_STORAGE_KEY);
+  const completeRecoveryCodeLogin = async (code: string): Promise<actions.LoginResult> => {
+    const result = await actions.completeRecoveryCodeLogin(code);
+    if (result.success && result.user) {
+      setUser(result.user);
+    }
+    return result;
+  };
+
+  const completePasswordChange = async (newPassword: string): Promise<actions.LoginResult> => {
+    const result = await actions.completePasswordChange(newPassword);
+    if (result.success && result.user) {
+      setUser(result.user);
+    }
+    return result;
+  };
+
+  const logout = async () => {
+    await actions.logout();
     setUser(null);
   };
   
@@ -118,15 +117,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await refreshUsers();
   };
   
-  const updateOwnPassword = async (userId: string, currentPassword: string, newPassword: string): Promise<boolean> => {
-    const userToUpdate = await db.getUserById(userId);
+  const updateOwnPassword = async (currentPassword: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
+    return actions.updateOwnPassword(currentPassword, newPassword);
+  };
 
-    if (!userToUpdate || userToUpdate.password !== currentPassword) {
-      return false; // Current password does not match
-    }
-    userToUpdate.password = newPassword;
-    await db.updateUser(userToUpdate);
-    return true;
+  const updateOwnAvatar = async (avatar: string | null) => {
+    await actions.updateOwnAvatar(avatar);
+    await refreshCurrentUser();
   };
 
   const updateUser = async (updatedUser: User) => {
@@ -137,7 +134,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }
 
-  const value = { user, users, loading, login, completeTwoFactorLogin, logout, addUser, removeUser, updateOwnPassword, updateUser, refreshUsers, refreshCurrentUser };
+  const value = { user, users, loading, login, completeTwoFactorLogin, completeRecoveryCodeLogin, completePasswordChange, logout, addUser, removeUser, updateOwnPassword, updateOwnAvatar, updateUser, refreshUsers, refreshCurrentUser };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 }
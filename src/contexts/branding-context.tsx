@@ -2,8 +2,7 @@
 "use client";
 
 import React, { createContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { readDb } from '@/lib/db';
-import { updateBrandingSettings } from '@/lib/actions';
+import { getBrandingSettings, updateBrandingSettings } from '@/lib/actions';
 import type { BrandingSettings } from '@/types';
 
 interface BrandingContextType {
@@ -31,12 +30,12 @@ export function BrandingProvider({ children }: { children: ReactNode }) {
   const refreshBranding = useCallback(async () => {
     setBrandingLoading(true);
     try {
-        const db = await readDb();
-        if (db.branding) {
-            setBrandNameState(db.branding.brandName);
-            setLogoState(db.branding.logo);
-            setFaviconState(db.branding.favicon);
-            setFooterTextState(db.branding.footerText);
+        const branding = await getBrandingSettings();
+        if (branding) {
+            setBrandNameState(branding.brandName);
+            setLogoState(branding.logo);
+            setFaviconState(branding.favicon);
+            setFooterTextState(branding.footerText);
         }
     } catch (error) {
         console.error("Failed to load branding from DB", error);
@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { getPasswordPolicy } from '@/lib/actions';
+import type { PasswordPolicy } from '@/types';
+
+export const usePasswordPolicy = () => {
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    getPasswordPolicy()
+      .then(setPolicy)
+      .catch(error => console.error("Failed to load password policy", error));
+  }, []);
+
+  return policy;
+};
@@ -3,17 +3,38 @@
 
 import { revalidatePath } from 'next/cache';
 import * as db from './db';
-import type { BrandingSettings, CleanupSettings, MonitoredPaths, User, FileStatus, MonitoredPath, SmtpSettings, ProcessingSettings, ChartData, Database, MaintenanceSettings } from '../types';
+import type { AlertSettings, ApiToken, BrandingSettings, CleanupSettings, ContentValidator, FilenameRule, LdapSettings, LockedAccount, MonitoredPaths, NamingSchema, OidcSettings, PasswordPolicy, Permission, ReportRun, ReportSettings, Role, SanitizeStep, SecurityEventType, User, FileStatus, FileStatusEvent, FileStatusQuery, FileStatusQueryResult, MonitoredPath, Pipeline, SmtpSettings, ProcessingSettings, ChartData, Database, StatisticsBucket, StatisticsQuery, MaintenanceSettings, Webhook, WebhookDelivery } from '../types';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { authenticator } from 'otplib';
 import qrcode from 'qrcode';
-import nodemailer from 'nodemailer';
 import Papa from 'papaparse';
-import { format, parseISO, startOfWeek, startOfMonth } from 'date-fns';
-
-
-export async function ensureAdminUserExists() {
+import { generateTemporaryPassword, hashPassword, isPasswordHash, verifyPassword } from './password';
+import { isPasswordExpired, validatePassword } from './password-policy';
+import { endSession, getClientIpAddress, getCurrentSession, getUserPermissions, requirePendingSession, requireSession, startSession, toClientUser } from './session';
+import { ALL_PERMISSIONS, BUILT_IN_ROLES, resolveMappedRole } from './permissions';
+import { generateRecoveryCodes, hashRecoveryCode } from './recovery-codes';
+import { hasLocalPassword, validateUserCredentials } from './auth-providers';
+import { authenticateWithLdap, checkLdapConnection, type LdapIdentity } from './ldap';
+import { discoverOidcProvider } from './oidc';
+import * as fileOperations from './file-operations';
+import { issueApiToken } from './api-tokens';
+import { buildPingPayload, generateWebhookSecret, sendWebhook } from './webhooks';
+import { createMailTransport, sendMail } from './mailer';
+import { sendTestAlerts } from './alerts';
+import { buildStatisticsCsv, sendSummaryReport } from './reports';
+import { isValidReportTime } from './report-schedule';
+import { isValidTimeZone } from './time-zones';
+import { validateFilenameRule } from './filename-rules';
+import { validateSanitizeStep } from './filename-sanitizer';
+import { validateNamingSchema } from './naming-schema';
+import { validateContentValidator } from './content-validators';
+import type { FileOperationResult } from './file-operations';
+import { buildStatistics, isValidDay, type StatisticsResult } from './statistics';
+import { clearLoginFailures, formatRetryDelay, getLoginRetryDelay, recordLoginFailure, unlockAccount } from './login-throttle';
+
+
+async function ensureAdminUserExists() {
   const adminUser = await db.getUserByUsername('admin');
   if (!adminUser) {
     console.log("Admin user not found, creating one.");
@@ -23,101 +44,378 @@ export async function ensureAdminUserExists() {
       name: 'Default Admin',
       email: 'admin@example.com',
       role: 'admin',
-      password: 'P@ssw00rd',
+      password: await hashPassword('P@ssw00rd'),
+      mustChangePassword: true,
     };
     await db.addUser(newAdmin);
     console.log("Default admin user created.");
   }
 }
 
-export async function validateUserCredentials(username: string, password: string):Promise<{ success: boolean; user?: User }> {
-  const user = await db.getUserByUsername(username);
-  if (user && user.password === password) {
-    return { success: true, user: user };
+export type LoginResult = {
+  success: boolean;
+  twoFactorRequired?: boolean;
+  requiresTwoFactorSetup?: boolean;
+  passwordChangeRequired?: boolean;
+  // Set when too many failed attempts ended the sign-in; the user has to start over.
+  lockedOut?: boolean;
+  // New recovery codes, returned once when 2FA has just been set up.
+  recoveryCodes?: string[];
+  // Unused codes left after signing in with a recovery code.
+  recoveryCodesRemaining?: number;
+  user?: User;
+  error?: string;
+};
+
+// Checks a new password against the policy and, when it is for an existing user,
+// against their current and previous passwords. Returns the problem, or null if acceptable.
+async function checkNewPassword(password: string, userId?: string): Promise<string | null> {
+  const policy = await db.getPasswordPolicy();
+  const errors = validatePassword(password, policy);
+  if (errors.length > 0) {
+    return `Password does not meet the policy: ${errors.join(', ').toLowerCase()}.`;
+  }
+  if (userId && policy.historyCount > 0) {
+    const user = await db.getUserById(userId);
+    const previousPasswords = [user?.password, ...await db.getPasswordHistory(userId, policy.historyCount)];
+    for (const previous of previousPasswords) {
+      if ((await verifyPassword(password, previous)).valid) {
+        return `Password must not match any of your last ${policy.historyCount} passwords.`;
+      }
+    }
+  }
+  return null;
+}
+
+// The signed-in user as sent to the browser, with the permissions the UI needs.
+async function toSignedInUser(user: User): Promise<User> {
+  return { ...toClientUser(user), permissions: await getUserPermissions(user) };
+}
+
+// Users may only hand out roles, or act on accounts, whose permissions they hold themselves,
+// so 'manage-users' alone cannot be used to gain more access.
+const holdsAll = (granted: Permission[], required: Permission[]) => required.every(p => granted.includes(p));
+
+async function checkAssignableRole(roleId: string, permissions: Permission[]): Promise<string | null> {
+  const role = await db.getRoleById(roleId);
+  if (!role) {
+    return `The role "${roleId}" does not exist.`;
+  }
+  if (!holdsAll(permissions, role.permissions)) {
+    return `You cannot assign the ${role.name} role, as it has permissions you do not have.`;
+  }
+  return null;
+}
+
+async function getManageableUser(userId: string, permissions: Permission[]): Promise<{ user?: User; error?: string }> {
+  const user = await db.getUserById(userId);
+  if (!user) {
+    return { error: 'User not found.' };
   }
-  return { success: false };
+  if (!holdsAll(permissions, await getUserPermissions(user))) {
+    return { error: `You cannot manage ${user.name}, who has permissions you do not have.` };
+  }
+  return { user };
 }
 
+// Last step of every login: users holding a temporary or expired password only get a
+// session that allows choosing a new one.
+async function finishLogin(user: User): Promise<LoginResult> {
+  await clearLoginFailures(user.username);
+  const policy = await db.getPasswordPolicy();
+  // Directory passwords are managed, and expire, in the directory.
+  if (hasLocalPassword(user) && (user.mustChangePassword || isPasswordExpired(user.passwordChangedAt, policy))) {
+    await startSession(user.id, 'pending_password_change');
+    return { success: true, passwordChangeRequired: true };
+  }
+  await startSession(user.id, 'active');
+  return { success: true, user: await toSignedInUser(user) };
+}
 
-export async function generateTwoFactorSecretForUser(userId: string, username: string, issuer: string) {
-  let user = await db.getUserById(userId);
+// Checks the credentials and issues the session cookie. Users with 2FA get a pending
+// session that only the 2FA actions below accept until a valid token upgrades it.
+export async function login(username: string, password: string): Promise<LoginResult> {
+  await ensureAdminUserExists();
+  const ipAddress = await getClientIpAddress();
+  const retryDelay = await getLoginRetryDelay(username, ipAddress);
+  if (retryDelay > 0) {
+    return { success: false, lockedOut: true, error: formatRetryDelay(retryDelay) };
+  }
+
+  const user = await validateUserCredentials(username, password);
   if (!user) {
-    throw new Error('User not found');
+    await recordLoginFailure(username, ipAddress);
+    return { success: false };
+  }
+
+  if (user.twoFactorRequired) {
+    const requiresTwoFactorSetup = !user.twoFactorSecret;
+    await startSession(user.id, requiresTwoFactorSetup ? 'pending_2fa_setup' : 'pending_2fa');
+    return { success: true, twoFactorRequired: true, requiresTwoFactorSetup };
   }
 
+  return finishLogin(user);
+}
+
+export async function completePasswordChange(newPassword: string): Promise<LoginResult> {
+  const { user } = await requirePendingSession('pending_password_change');
+  const error = await checkNewPassword(newPassword, user.id);
+  if (error) {
+    return { success: false, error };
+  }
+  await db.updateUserPassword(user.id, await hashPassword(newPassword), false);
+  // Also ends the pending session; the new password gets a fresh one.
+  await db.revokeUserSessions(user.id);
+  await startSession(user.id, 'active');
+  return { success: true, user: await toSignedInUser({ ...user, mustChangePassword: false }) };
+}
+
+// The policy is needed by the password forms, including the one shown during login.
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  return db.getPasswordPolicy();
+}
+
+export async function logout() {
+  await endSession();
+}
+
+export async function getCurrentUser(): Promise<User | null> {
+  const current = await getCurrentSession();
+  if (!current || current.session.stage !== 'active') {
+    return null;
+  }
+  return { ...toClientUser(current.user), permissions: current.permissions };
+}
+
+export async function generateTwoFactorSecret(issuer: string) {
+  const { user } = await requirePendingSession('pending_2fa_setup');
+
   // Only generate a new secret if one doesn't already exist.
   if (!user.twoFactorSecret) {
-    const secret = authenticator.generateSecret();
-    user.twoFactorSecret = secret;
+    user.twoFactorSecret = authenticator.generateSecret();
     await db.updateUser(user);
     revalidatePath('/users'); // To update user data for other admins
   }
   
-  const otpauth = authenticator.keyuri(username, issuer, user.twoFactorSecret!);
+  const otpauth = authenticator.keyuri(user.username, issuer, user.twoFactorSecret);
   const qrCodeDataUrl = await qrcode.toDataURL(otpauth);
 
   return { qrCodeDataUrl };
 }
 
+// Shared by the authenticator and recovery code steps. Failures count towards the same
+// lockout as password failures; once locked, the pending session is ended.
+async function verifySecondFactor(user: User, verify: () => Promise<boolean>): Promise<LoginResult | null> {
+  const ipAddress = await getClientIpAddress();
+  let retryDelay = await getLoginRetryDelay(user.username, ipAddress);
+  if (retryDelay === 0 && !(await verify())) {
+    await recordLoginFailure(user.username, ipAddress);
+    retryDelay = await getLoginRetryDelay(user.username, ipAddress);
+    if (retryDelay === 0) {
+      return { success: false };
+    }
+  }
+  if (retryDelay > 0) {
+    await endSession();
+    return { success: false, lockedOut: true, error: formatRetryDelay(retryDelay) };
+  }
+  return null;
+}
+
+async function recordSecurityEvent(type: SecurityEventType, username: string, actor: string, details: string | null = null) {
+  await db.addSecurityEvent({ type, username, ipAddress: await getClientIpAddress(), actor, timestamp: new Date().toISOString(), details });
+}
+
+// Replaces the user's recovery codes and returns the new ones. They are only ever shown this once.
+async function issueRecoveryCodes(user: User, actor: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await db.replaceRecoveryCodes(user.id, codes.map(hashRecoveryCode));
+  await recordSecurityEvent('recovery_codes_generated', user.username, actor);
+  return codes;
+}
+
+export async function completeTwoFactorLogin(token: string): Promise<LoginResult> {
+  const { session, user } = await requirePendingSession('pending_2fa_setup', 'pending_2fa');
+  const failure = await verifySecondFactor(user, async () =>
+    !!user.twoFactorSecret && authenticator.verify({ token, secret: user.twoFactorSecret })
+  );
+  if (failure) {
+    return failure;
+  }
+  await db.revokeSession(session.id);
+
+  if (session.stage === 'pending_2fa_setup') {
+    // First sign-in with the new authenticator: hand out recovery codes in case it is lost.
+    const recoveryCodes = await issueRecoveryCodes(user, user.username);
+    return { ...(await finishLogin(user)), recoveryCodes };
+  }
+  return finishLogin(user);
+}
+
+export async function completeRecoveryCodeLogin(code: string): Promise<LoginResult> {
+  const { session, user } = await requirePendingSession('pending_2fa');
+  const failure = await verifySecondFactor(user, () => db.redeemRecoveryCode(user.id, hashRecoveryCode(code)));
+  if (failure) {
+    return failure;
+  }
+  await db.revokeSession(session.id);
+
+  const recoveryCodesRemaining = (await db.getRemainingRecoveryCodeCounts())[user.id] ?? 0;
+  await recordSecurityEvent('recovery_code_used', user.username, user.username, `${recoveryCodesRemaining} codes left`);
+  return { ...(await finishLogin(user)), recoveryCodesRemaining };
+}
+
 export async function enableTwoFactor(userId: string) {
-    let user = await db.getUserById(userId);
+    const { user: admin, permissions } = await requireSession('manage-users');
+    const { user, error } = await getManageableUser(userId, permissions);
     if (!user) {
-        throw new Error('User not found');
+        throw new Error(error);
     }
 
     user.twoFactorRequired = true;
     await db.updateUser(user);
+    await recordSecurityEvent('two_factor_enabled', user.username, admin.username);
     revalidatePath('/users');
 }
 
 export async function disableTwoFactor(userId: string) {
-    let user = await db.getUserById(userId);
+    const { user: admin, permissions } = await requireSession('manage-users');
+    const { user, error } = await getManageableUser(userId, permissions);
     if (!user) {
-        throw new Error('User not found');
+        throw new Error(error);
     }
 
     user.twoFactorRequired = false;
     user.twoFactorSecret = null; // Clear the secret when disabling
     await db.updateUser(user);
+    await db.deleteRecoveryCodes(user.id);
+    await recordSecurityEvent('two_factor_disabled', user.username, admin.username);
     revalidatePath('/users');
 }
 
+// For a user who lost their authenticator: 2FA stays required, but they enrol a new
+// authenticator (and get new recovery codes) on their next sign-in.
+export async function resetTwoFactor(userId: string) {
+    const { user: admin, permissions } = await requireSession('manage-users');
+    const { user, error } = await getManageableUser(userId, permissions);
+    if (!user) {
+        throw new Error(error);
+    }
 
-export async function verifyTwoFactorToken(userId: string, token: string) {
-  const user = await db.getUserById(userId);
-  if (!user || !user.twoFactorSecret) {
-    return false;
+    user.twoFactorSecret = null;
+    await db.updateUser(user);
+    await db.deleteRecoveryCodes(user.id);
+    await db.revokeUserSessions(user.id);
+    await recordSecurityEvent('two_factor_reset', user.username, admin.username);
+    revalidatePath('/users');
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<{ success: boolean; recoveryCodes?: string[]; error?: string }> {
+    const { user: admin, permissions } = await requireSession('manage-users');
+    const { user, error } = await getManageableUser(userId, permissions);
+    if (!user) {
+        return { success: false, error };
+    }
+    if (!user.twoFactorSecret) {
+        return { success: false, error: `${user.name} has not set up two-factor authentication yet.` };
+    }
+    const recoveryCodes = await issueRecoveryCodes(user, admin.username);
+    revalidatePath('/users');
+    return { success: true, recoveryCodes };
+}
+
+export async function updateOwnPassword(currentPassword: string, newPassword: string): Promise<{ success: boolean; error?: string }> {
+    const { session, user } = await requireSession();
+    if (!hasLocalPassword(user)) {
+        return { success: false, error: 'Your password is managed by your organization\'s sign-in provider and cannot be changed here.' };
+    }
+    const { valid } = await verifyPassword(currentPassword, user.password);
+    if (!valid) {
+        return { success: false, error: 'Your current password is not correct.' };
+    }
+    const error = await checkNewPassword(newPassword, user.id);
+    if (error) {
+        return { success: false, error };
+    }
+    await db.updateUserPassword(user.id, await hashPassword(newPassword), false);
+    // Sign out every other device that knew the old password.
+    await db.revokeUserSessions(user.id, session.id);
+    return { success: true };
+}
+
+export async function updateOwnAvatar(avatar: string | null) {
+    const { user } = await requireSession();
+    await db.updateUser({ ...user, avatar });
+    revalidatePath('/users');
+}
+
+
+// --- API tokens ---
+// Every user manages their own tokens; a token can never do more than its owner's role allows.
+
+const MAX_API_TOKEN_NAME_LENGTH = 100;
+
+export async function getApiTokens(): Promise<ApiToken[]> {
+  const { user } = await requireSession();
+  return db.getApiTokensForUser(user.id);
+}
+
+// The token is only returned here; it cannot be looked up again later.
+export async function createApiToken(name: string, expiresInDays: number | null): Promise<{ success: boolean; token?: string; error?: string }> {
+  const { user } = await requireSession();
+  const trimmedName = name.trim();
+  if (!trimmedName || trimmedName.length > MAX_API_TOKEN_NAME_LENGTH) {
+    return { success: false, error: `Token name must be 1 to ${MAX_API_TOKEN_NAME_LENGTH} characters long.` };
+  }
+  if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays <= 0)) {
+    return { success: false, error: 'Token lifetime must be a whole number of days.' };
   }
-  return authenticator.verify({ token, secret: user.twoFactorSecret });
+  const expiresAt = expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+  const { secret } = await issueApiToken(user.id, trimmedName, expiresAt);
+  await recordSecurityEvent('api_token_created', user.username, user.username, trimmedName);
+  return { success: true, token: secret };
 }
 
+export async function revokeApiToken(tokenId: string): Promise<{ success: boolean; error?: string }> {
+  const { user } = await requireSession();
+  const token = (await db.getApiTokensForUser(user.id)).find(t => t.id === tokenId);
+  if (!token || !await db.revokeApiToken(tokenId, user.id)) {
+    return { success: false, error: 'Token not found or already revoked.' };
+  }
+  await recordSecurityEvent('api_token_revoked', user.username, user.username, token.name);
+  return { success: true };
+}
 
 export async function checkWriteAccess(): Promise<{ canWrite: boolean; error?: string }> {
-  const { import: importPath, failed: failedPath } = await db.getMonitoredPaths();
+  await requireSession();
+  const pipelines = await db.getPipelines();
+  const configured = pipelines.filter(p => p.import.path && p.failed.path);
 
-  if (!importPath.path || !failedPath.path) {
+  if (configured.length === 0) {
     return { canWrite: false, error: 'Monitored paths are not configured.' };
   }
 
-  const testFilePathImport = path.join(importPath.path, `.write_test_${Date.now()}`);
-  const testFilePathFailed = path.join(failedPath.path, `.write_test_${Date.now()}`);
+  for (const pipeline of configured) {
+    const testFilePathImport = path.join(pipeline.import.path, `.write_test_${Date.now()}`);
+    const testFilePathFailed = path.join(pipeline.failed.path, `.write_test_${Date.now()}`);
 
-  try {
-    await fs.writeFile(testFilePathImport, 'test');
-    await fs.unlink(testFilePathImport);
-    await fs.writeFile(testFilePathFailed, 'test');
-    await fs.unlink(testFilePathFailed);
-    return { canWrite: true };
-  } catch (error: any) {
-    if (error.code === 'EACCES') {
-      return { canWrite: false, error: `Permission denied. The application user cannot write to the monitored directories.` };
+    try {
+      await fs.writeFile(testFilePathImport, 'test');
+      await fs.unlink(testFilePathImport);
+      await fs.writeFile(testFilePathFailed, 'test');
+      await fs.unlink(testFilePathFailed);
+    } catch (error: any) {
+      if (error.code === 'EACCES') {
+        return { canWrite: false, error: `Permission denied. The application user cannot write to the monitored directories of pipeline "${pipeline.name}".` };
+      }
+      return { canWrite: false, error: error.message };
     }
-    return { canWrite: false, error: error.message };
   }
+  return { canWrite: true };
 }
 
-
 export async function testPath(path: string): Promise<{ success: boolean; error?: string }> {
+    await requireSession('manage-settings');
     try {
         await fs.access(path);
         return { success: true };
@@ -132,237 +430,493 @@ export async function testPath(path: string): Promise<{ success: boolean; error?
     }
 }
 
-export async function retryFile(fileName: string, username: string): Promise<{ success: boolean; error?: string }> {
-    const { import: importPath, failed: failedPath } = await db.getMonitoredPaths();
-    const oldPath = path.join(failedPath.path, fileName);
-    const newPath = path.join(importPath.path, fileName);
+export async function retryFile(pipelineId: string, fileName: string): Promise<FileOperationResult> {
+    const { user: { username } } = await requireSession('retry');
+    return fileOperations.retryFile(pipelineId, fileName, username);
+}
 
-    try {
-        await fs.access(oldPath);
-        await fs.rename(oldPath, newPath);
-
-        let fileStatus = await db.getFileStatusByName(fileName);
-        if (fileStatus) {
-            fileStatus.status = 'processing';
-            fileStatus.lastUpdated = new Date().toISOString();
-            fileStatus.remarks = `Retrying file. [user: ${username}]`;
-            await db.upsertFileStatus(fileStatus);
-        }
-        
-        revalidatePath('/dashboard');
-        return { success: true };
-    } catch (error: any) {
-        console.error(`Error retrying file ${fileName}:`, error);
-        if (error.code === 'EACCES') {
-             return { success: false, error: `Permission Denied: The application user does not have write permissions to move files between the 'import' and 'failed' directories. Please check folder permissions on the server.` };
-        }
-        if (error.code === 'ENOENT') {
-            return { success: false, error: `File not found in failed directory: ${fileName}` };
-        }
-        return { success: false, error: `An unexpected error occurred: ${error.message}` };
-    }
+export async function renameFile(pipelineId: string, oldName: string, newName: string): Promise<FileOperationResult> {
+    const { user: { username } } = await requireSession('rename');
+    return fileOperations.renameFile(pipelineId, oldName, newName, username);
 }
 
-export async function renameFile(oldName: string, newName: string, username: string): Promise<{ success: boolean; error?: string }> {
-    const { import: importPath, failed: failedPath } = await db.getMonitoredPaths();
-    const oldPath = path.join(failedPath.path, oldName);
-    const newPath = path.join(importPath.path, newName);
+export async function deleteFailedFile(pipelineId: string, fileName: string): Promise<FileOperationResult> {
+    const { user: { username } } = await requireSession('delete');
+    return fileOperations.deleteFailedFile(pipelineId, fileName, username);
+}
 
-    try {
-        await fs.access(oldPath);
-        try {
-            await fs.access(newPath);
-            return { success: false, error: `A file named "${newName}" already exists in the import directory.` };
-        } catch (e) {}
-
-        await fs.rename(oldPath, newPath);
-        await db.deleteFileStatus(oldName);
-        
-        const newFileStatus: FileStatus = {
-            id: `file-${Date.now()}-${Math.random()}`,
-            name: newName,
-            status: 'processing',
-            source: importPath.name,
-            lastUpdated: new Date().toISOString(),
-            remarks: `Renamed from "${oldName}" and retrying. [user: ${username}]`
-        };
-        await db.upsertFileStatus(newFileStatus);
-        
-        revalidatePath('/dashboard');
-        return { success: true };
-    } catch (error: any) {
-        console.error(`Error renaming and moving file ${oldName}:`, error);
-        if (error.code === 'EACCES') {
-             return { success: false, error: `Permission Denied: The application user does not have write permissions to move files from the 'failed' to the 'import' directory. Please check folder permissions on the server.` };
-        }
-        if (error.code === 'ENOENT') {
-            return { success: false, error: `File not found to rename: ${oldName}` };
-        }
-        return { success: false, error: `An unexpected error occurred: ${error.message}` };
-    }
+export async function expandFile(pipelineId: string, fileName: string): Promise<FileOperationResult & { count?: number }> {
+    const { user: { username } } = await requireSession('expand');
+    return fileOperations.expandFile(pipelineId, fileName, username);
 }
 
-export async function deleteFailedFile(fileName: string): Promise<{ success: boolean; error?: string }> {
-    const { failed: failedPath } = await db.getMonitoredPaths();
-    const filePath = path.join(failedPath.path, fileName);
-    
-    try {
-        await fs.unlink(filePath);
-        await db.deleteFileStatus(fileName);
-        revalidatePath('/dashboard');
-        return { success: true };
-    } catch (error: any) {
-        console.error(`Error deleting file ${fileName}:`, error);
-        if (error.code === 'ENOENT') {
-            await db.deleteFileStatus(fileName);
-            revalidatePath('/dashboard');
-            return { success: true, error: 'File was not found on disk, but its status entry was removed.' };
-        }
-         if (error.code === 'EACCES') {
-             return { success: false, error: `Permission Denied: The application user does not have write permissions to delete files from the 'failed' directory.` };
-        }
-        return { success: false, error: `An unexpected error occurred: ${error.message}` };
-    }
+// --- Reads for client components ---
+// The database module is server-only; pages fetch through these so every read is checked
+// against the session as well.
+
+// Branding and maintenance status are shown on the login and maintenance pages,
+// so they are readable without a session.
+export async function getBrandingSettings(): Promise<BrandingSettings> {
+  return db.getBranding();
 }
 
-export async function expandFilePrefixes(fileName: string, username: string): Promise<{ success: boolean; count?: number; error?: string }> {
-    const { import: importPath, failed: failedPath } = await db.getMonitoredPaths();
-    const originalFilePath = path.join(failedPath.path, fileName);
-    const fileExt = path.extname(fileName);
-    const baseName = path.basename(fileName, fileExt);
-    
-    try {
-        await fs.access(originalFilePath);
-    } catch {
-        return { success: false, error: `File not found in failed directory: ${fileName}` };
-    }
+export async function getMaintenanceStatus(): Promise<MaintenanceSettings> {
+  return db.getMaintenanceSettings();
+}
 
-    const parts = baseName.split('_');
-    if (parts.length !== 4) {
-        return { success: false, error: 'Filename does not match the required format for expansion.' };
-    }
+export async function queryFileStatuses(query: FileStatusQuery): Promise<FileStatusQueryResult> {
+  await requireSession('view');
+  return db.queryFileStatuses(query);
+}
 
-    const prefixPairsStr = parts[0];
-    const validPairs: string[] = [];
-    if (prefixPairsStr.length > 0 && prefixPairsStr.length % 2 === 0) {
-        for (let i = 0; i < prefixPairsStr.length; i += 2) {
-            if (['P', 'B', 'C'].includes(prefixPairsStr[i].toUpperCase())) {
-                validPairs.push(prefixPairsStr.substring(i, i + 2));
-            }
-        }
-    }
+export async function getFileStatuses(): Promise<FileStatus[]> {
+  await requireSession('view');
+  return db.getFileStatuses();
+}
 
-    if (validPairs.length <= 1) {
-        return { success: false, error: 'File does not contain multiple valid prefixes to expand.' };
-    }
+export async function getFileStatusHistory(pipelineId: string, fileName: string): Promise<FileStatusEvent[]> {
+  await requireSession('view');
+  return db.getFileStatusEvents(pipelineId, fileName);
+}
 
-    let allCopiesSucceeded = true;
-    const newFilesToUpsert: FileStatus[] = [];
+const STATISTICS_BUCKETS: StatisticsBucket[] = ['hour', 'day', 'week', 'month'];
 
-    for (const pair of validPairs) {
-        const newFileName = `${pair}_${parts[1]}_${parts[2]}_${parts[3]}${fileExt}`;
-        const newFilePath = path.join(importPath.path, newFileName);
-        try {
-            await fs.copyFile(originalFilePath, newFilePath);
-            newFilesToUpsert.push({
-                id: `file-${Date.now()}-${Math.random()}`,
-                name: newFileName,
-                status: 'processing',
-                source: importPath.name,
-                lastUpdated: new Date().toISOString(),
-                remarks: `Expanded from ${fileName}. [user: ${username}]`
-            });
-        } catch (copyError) {
-            console.error(`[Action] ERROR: Failed to create copy "${newFileName}":`, copyError);
-            allCopiesSucceeded = false;
-            // Attempt to clean up already created files
-            for (const fileToClean of newFilesToUpsert) {
-                try { await fs.unlink(path.join(importPath.path, fileToClean.name)); } catch {}
-            }
-            return { success: false, error: `Failed to create copy: ${newFileName}. Expansion aborted.` };
-        }
-    }
+export async function getStatistics(query: StatisticsQuery): Promise<{ statistics?: StatisticsResult; error?: string }> {
+  await requireSession('view');
+  if (!isValidDay(query.from) || !isValidDay(query.to) || query.from > query.to) {
+    return { error: "Please choose a valid date range." };
+  }
+  if (!STATISTICS_BUCKETS.includes(query.bucket)) {
+    return { error: "Please choose an hourly, daily, weekly or monthly breakdown." };
+  }
+  if (!isValidTimeZone(query.timeZone)) {
+    return { error: `"${query.timeZone}" is not a known time zone.` };
+  }
+  try {
+    return { statistics: await buildStatistics({ ...query, compare: !!query.compare }) };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+}
 
-    if (allCopiesSucceeded) {
-        try {
-            await fs.unlink(originalFilePath);
-            await db.deleteFileStatus(fileName);
-            await db.bulkUpsertFileStatuses(newFilesToUpsert);
-            revalidatePath('/dashboard');
-            return { success: true, count: validPairs.length };
-        } catch (deleteError) {
-            console.error(`[Action] ERROR: Failed to delete original expanded file "${fileName}":`, deleteError);
-            return { success: false, error: `Failed to delete original file after expansion.` };
-        }
-    }
+export async function getPipelines(): Promise<Pipeline[]> {
+  await requireSession('view');
+  return db.getPipelines();
+}
 
-    return { success: false, error: 'An unknown error occurred during expansion.' };
+export async function getProcessingSettings(): Promise<ProcessingSettings> {
+  await requireSession('view');
+  return db.getProcessingSettings();
+}
+
+export async function getFilenameRules(): Promise<FilenameRule[]> {
+  await requireSession('view');
+  return db.getFilenameRules();
+}
+
+export type AppSettings = Omit<Database, 'users' | 'fileStatuses'>;
+
+export async function getAllSettings(): Promise<AppSettings> {
+  await requireSession('manage-settings');
+  const { users: _users, fileStatuses: _fileStatuses, ...settings } = await db.readDb();
+  return settings;
 }
 
 export async function updateBrandingSettings(settings: BrandingSettings) {
+  await requireSession('manage-settings');
   await db.updateBranding(settings);
   revalidatePath('/settings');
   revalidatePath('/', 'layout');
 }
 
 export async function updateSmtpSettings(settings: SmtpSettings) {
+    await requireSession('manage-settings');
     await db.updateSmtpSettings(settings);
     revalidatePath('/settings');
 }
 
 export async function testSmtpConnection(): Promise<{success: boolean, error?: string}> {
+    await requireSession('manage-settings');
     const smtpSettings = await db.getSmtpSettings();
 
     if (!smtpSettings.host) {
         return { success: false, error: "SMTP host is not configured." };
     }
 
-    const transporter = nodemailer.createTransport({
-        host: smtpSettings.host,
-        port: smtpSettings.port,
-        secure: smtpSettings.secure,
-        auth: {
-            user: smtpSettings.auth.user,
-            pass: smtpSettings.auth.pass
-        },
+    try {
+        await createMailTransport(smtpSettings).verify();
+        return { success: true };
+    } catch (error: any) {
+        return { success: false, error: `Connection failed: ${error.message}` };
+    }
+}
+
+// --- Email alerts ---
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ALERT_STATUSES: FileStatus['status'][] = ['failed', 'timed-out'];
+const MAX_DIGEST_INTERVAL_MINUTES = 7 * 24 * 60;
+
+function normalizeAlertSettings(settings: AlertSettings): { settings?: AlertSettings; error?: string } {
+  const recipients = settings.recipients
+    .map(r => ({ ...r, email: r.email.trim() }))
+    .filter(r => r.email);
+  const invalid = recipients.find(r => !EMAIL_PATTERN.test(r.email));
+  if (invalid) {
+    return { error: `"${invalid.email}" is not a valid email address.` };
+  }
+  const interval = Number(settings.digestIntervalMinutes);
+  if (!Number.isInteger(interval) || interval < 0 || interval > MAX_DIGEST_INTERVAL_MINUTES) {
+    return { error: `The digest interval must be a whole number of minutes from 0 to ${MAX_DIGEST_INTERVAL_MINUTES}.` };
+  }
+  for (const template of [settings.immediateTemplate, settings.digestTemplate]) {
+    if (!template.subject.trim() || !template.body.trim()) {
+      return { error: 'Email templates need a subject and a body.' };
+    }
+  }
+  return {
+    settings: {
+      ...settings,
+      statuses: ALERT_STATUSES.filter(status => settings.statuses.includes(status)),
+      recipients,
+      digestIntervalMinutes: interval,
+    },
+  };
+}
+
+export async function getAlertSettings(): Promise<AlertSettings> {
+  await requireSession('manage-settings');
+  return db.getAlertSettings();
+}
+
+export async function updateAlertSettings(alertSettings: AlertSettings): Promise<{ success: boolean; error?: string }> {
+  await requireSession('manage-settings');
+  const { settings, error } = normalizeAlertSettings(alertSettings);
+  if (!settings) {
+    return { success: false, error };
+  }
+  await db.updateAlertSettings(settings);
+  revalidatePath('/settings');
+  return { success: true };
+}
+
+export async function sendTestAlertEmails(alertSettings: AlertSettings): Promise<{ success: boolean; error?: string }> {
+  await requireSession('manage-settings');
+  const { settings, error } = normalizeAlertSettings(alertSettings);
+  if (!settings) {
+    return { success: false, error };
+  }
+  try {
+    await sendTestAlerts(settings);
+    return { success: true };
+  } catch (error: any) {
+    console.error('[Alerts] Failed to send test alerts:', error);
+    return { success: false, error: `Failed to send email: ${error.message}` };
+  }
+}
+
+// --- Scheduled reports ---
+
+const MAX_REPORT_RUNS = 50;
+
+function normalizeReportSettings(settings: ReportSettings): { settings?: ReportSettings; error?: string } {
+  const recipients = settings.recipients.map(email => email.trim()).filter(Boolean);
+  const invalid = recipients.find(email => !EMAIL_PATTERN.test(email));
+  if (invalid) {
+    return { error: `"${invalid}" is not a valid email address.` };
+  }
+  if (settings.frequency !== 'daily' && settings.frequency !== 'weekly') {
+    return { error: 'The report must be daily or weekly.' };
+  }
+  if (!isValidReportTime(settings.time)) {
+    return { error: 'The report time must be in HH:mm format.' };
+  }
+  if (!Number.isInteger(settings.dayOfWeek) || settings.dayOfWeek < 0 || settings.dayOfWeek > 6) {
+    return { error: 'Choose the day of the week for the report.' };
+  }
+  const timeZone = settings.timeZone.trim();
+  if (!isValidTimeZone(timeZone)) {
+    return { error: `"${timeZone}" is not a known time zone.` };
+  }
+  if (settings.enabled && recipients.length === 0) {
+    return { error: 'Add at least one recipient to schedule the report.' };
+  }
+  return { settings: { ...settings, recipients, timeZone } };
+}
+
+export async function getReportSettings(): Promise<ReportSettings> {
+  await requireSession('manage-settings');
+  return db.getReportSettings();
+}
+
+export async function updateReportSettings(reportSettings: ReportSettings): Promise<{ success: boolean; error?: string }> {
+  await requireSession('manage-settings');
+  const { settings, error } = normalizeReportSettings(reportSettings);
+  if (!settings) {
+    return { success: false, error };
+  }
+  await db.updateReportSettings(settings);
+  revalidatePath('/settings');
+  return { success: true };
+}
+
+export async function getReportRuns(): Promise<ReportRun[]> {
+  await requireSession('manage-settings');
+  return db.getReportRuns(MAX_REPORT_RUNS);
+}
+
+// Sends the report for the day or week up to now, using the given (possibly unsaved) settings.
+export async function sendReportNow(reportSettings: ReportSettings): Promise<{ success: boolean; error?: string }> {
+  await requireSession('manage-settings');
+  const { settings, error } = normalizeReportSettings(reportSettings);
+  if (!settings) {
+    return { success: false, error };
+  }
+  const periodEnd = new Date();
+  const periodStart = new Date(periodEnd.getTime() - (settings.frequency === 'weekly' ? 7 : 1) * 24 * 60 * 60 * 1000);
+  try {
+    await sendSummaryReport(settings, periodStart, periodEnd, 'manual');
+    return { success: true };
+  } catch (error: any) {
+    console.error('[Reports] Failed to send the report:', error);
+    return { success: false, error: `Failed to send the report: ${error.message}` };
+  }
+}
+
+// Directory and single sign-on settings are kept out of getAllSettings and the settings
+// backup: their group mappings hand out roles, so saving them is checked like assigning a role.
+async function getAssignableRoles(permissions: Permission[]): Promise<Role[]> {
+    const roles = await db.getRoles();
+    return roles.filter(role => holdsAll(permissions, role.permissions));
+}
+
+async function checkMappedRoles(settings: LdapSettings | OidcSettings, permissions: Permission[]): Promise<string | null> {
+    const roleIds = [...settings.groupRoleMappings.map(m => m.role), ...(settings.defaultRole ? [settings.defaultRole] : [])];
+    for (const roleId of new Set(roleIds)) {
+        const roleError = await checkAssignableRole(roleId, permissions);
+        if (roleError) return roleError;
+    }
+    return null;
+}
+
+export async function getLdapSettings(): Promise<{ settings: LdapSettings; assignableRoles: Role[] }> {
+    const { permissions } = await requireSession('manage-settings');
+    return { settings: await db.getLdapSettings(), assignableRoles: await getAssignableRoles(permissions) };
+}
+
+export async function updateLdapSettings(settings: LdapSettings): Promise<{ success: boolean; error?: string }> {
+    const { permissions } = await requireSession('manage-settings');
+    if (settings.enabled && (!settings.url || !settings.searchBase || !settings.userFilter.includes('{username}'))) {
+        return { success: false, error: 'A server URL, a search base and a user filter containing {username} are required.' };
+    }
+    const roleError = await checkMappedRoles(settings, permissions);
+    if (roleError) {
+        return { success: false, error: roleError };
+    }
+    await db.updateLdapSettings({
+        ...settings,
+        groupRoleMappings: settings.groupRoleMappings.filter(m => m.group.trim()),
     });
+    revalidatePath('/settings');
+    return { success: true };
+}
 
+// Checks the saved settings. With a username and password it also signs that user in against
+// the directory, without creating them, and reports what they would get.
+export async function testLdapConnection(username?: string, password?: string): Promise<{ success: boolean; error?: string; identity?: LdapIdentity; role?: string | null }> {
+    await requireSession('manage-settings');
+    const settings = await db.getLdapSettings();
+    if (!settings.url) {
+        return { success: false, error: "LDAP server URL is not configured." };
+    }
     try {
-        await transporter.verify();
-        return { success: true };
+        if (!username) {
+            await checkLdapConnection(settings);
+            return { success: true };
+        }
+        const identity = await authenticateWithLdap(settings, username, password || '');
+        if (!identity) {
+            return { success: false, error: `The directory did not accept the credentials of "${username}".` };
+        }
+        return { success: true, identity, role: resolveMappedRole(settings, identity.groups) };
     } catch (error: any) {
         return { success: false, error: `Connection failed: ${error.message}` };
     }
 }
 
+// Needed by the login page, before anyone is signed in.
+export async function getOidcLoginOption(): Promise<{ enabled: boolean; displayName: string }> {
+    const { enabled, displayName } = await db.getOidcSettings();
+    return { enabled, displayName };
+}
+
+export async function getOidcSettings(): Promise<{ settings: OidcSettings; assignableRoles: Role[] }> {
+    const { permissions } = await requireSession('manage-settings');
+    return { settings: await db.getOidcSettings(), assignableRoles: await getAssignableRoles(permissions) };
+}
+
+export async function updateOidcSettings(settings: OidcSettings): Promise<{ success: boolean; error?: string }> {
+    const { permissions } = await requireSession('manage-settings');
+    if (settings.enabled && (!settings.issuerUrl || !settings.clientId || !settings.usernameClaim)) {
+        return { success: false, error: 'An issuer URL, a client ID and a username claim are required.' };
+    }
+    if (settings.issuerUrl && !URL.canParse(settings.issuerUrl)) {
+        return { success: false, error: 'The issuer URL is not a valid URL.' };
+    }
+    const roleError = await checkMappedRoles(settings, permissions);
+    if (roleError) {
+        return { success: false, error: roleError };
+    }
+    await db.updateOidcSettings({
+        ...settings,
+        groupRoleMappings: settings.groupRoleMappings.filter(m => m.group.trim()),
+    });
+    revalidatePath('/settings');
+    return { success: true };
+}
+
+// Fetches the provider's discovery document with the saved settings.
+export async function testOidcDiscovery(): Promise<{ success: boolean; error?: string; issuer?: string }> {
+    await requireSession('manage-settings');
+    const settings = await db.getOidcSettings();
+    if (!settings.issuerUrl || !settings.clientId) {
+        return { success: false, error: "OIDC issuer URL and client ID are not configured." };
+    }
+    try {
+        const config = await discoverOidcProvider(settings);
+        return { success: true, issuer: config.serverMetadata().issuer };
+    } catch (error: any) {
+        return { success: false, error: `Discovery failed: ${error.message}` };
+    }
+}
+
+// --- Webhooks ---
+
+const WEBHOOK_STATUSES: FileStatus['status'][] = ['arriving', 'processing', 'failed', 'timed-out', 'published'];
+const WEBHOOK_LOG_LIMIT = 100;
+
+export async function getWebhooks(): Promise<Webhook[]> {
+  await requireSession('manage-settings');
+  return db.getWebhooks();
+}
+
+// Creates the webhook if its id is new. A new webhook without a secret gets a generated one.
+export async function saveWebhook(webhook: Webhook): Promise<{ success: boolean; error?: string }> {
+  await requireSession('manage-settings');
+  const name = webhook.name.trim();
+  if (!name) {
+    return { success: false, error: 'Please enter a name for the webhook.' };
+  }
+  let url: URL;
+  try {
+    url = new URL(webhook.url.trim());
+  } catch {
+    return { success: false, error: 'Please enter a valid URL.' };
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return { success: false, error: 'The URL must start with http:// or https://.' };
+  }
+  const statuses = WEBHOOK_STATUSES.filter(status => webhook.statuses.includes(status));
+  if (statuses.length === 0) {
+    return { success: false, error: 'Select at least one status to send.' };
+  }
+
+  // An empty pipeline list means every pipeline, including ones added later.
+  const pipelineIds = (await db.getPipelines()).map(p => p.id).filter(id => webhook.pipelineIds.includes(id));
+
+  const webhooks = await db.getWebhooks();
+  const existing = webhooks.find(w => w.id === webhook.id);
+  const saved: Webhook = {
+    id: existing?.id ?? `webhook-${Date.now()}`,
+    name,
+    url: url.toString(),
+    secret: webhook.secret.trim() || existing?.secret || generateWebhookSecret(),
+    enabled: webhook.enabled,
+    statuses,
+    pipelineIds,
+  };
+  await db.updateWebhooks(existing ? webhooks.map(w => (w.id === saved.id ? saved : w)) : [...webhooks, saved]);
+  revalidatePath('/settings');
+  return { success: true };
+}
+
+export async function deleteWebhook(webhookId: string): Promise<{ success: boolean; error?: string }> {
+  await requireSession('manage-settings');
+  const webhooks = await db.getWebhooks();
+  if (!webhooks.some(w => w.id === webhookId)) {
+    return { success: false, error: 'Webhook not found.' };
+  }
+  await db.updateWebhooks(webhooks.filter(w => w.id !== webhookId));
+  revalidatePath('/settings');
+  return { success: true };
+}
+
+// Receivers have to be updated with the new secret; deliveries are signed with it from now on.
+export async function regenerateWebhookSecret(webhookId: string): Promise<{ success: boolean; error?: string }> {
+  await requireSession('manage-settings');
+  const webhooks = await db.getWebhooks();
+  if (!webhooks.some(w => w.id === webhookId)) {
+    return { success: false, error: 'Webhook not found.' };
+  }
+  await db.updateWebhooks(webhooks.map(w => (w.id === webhookId ? { ...w, secret: generateWebhookSecret() } : w)));
+  return { success: true };
+}
+
+export async function getWebhookDeliveries(webhookId?: string): Promise<WebhookDelivery[]> {
+  await requireSession('manage-settings');
+  return db.getWebhookDeliveries(WEBHOOK_LOG_LIMIT, webhookId);
+}
+
+export async function sendTestWebhook(webhookId: string): Promise<{ success: boolean; error?: string; delivery?: WebhookDelivery }> {
+  await requireSession('manage-settings');
+  const webhook = (await db.getWebhooks()).find(w => w.id === webhookId);
+  if (!webhook) {
+    return { success: false, error: 'Webhook not found.' };
+  }
+  const delivery = await sendWebhook(webhook, 'ping', buildPingPayload(webhook));
+  return { success: delivery.status === 'delivered', error: delivery.error ?? undefined, delivery };
+}
+
+// Sends the payload of an earlier delivery again as a new delivery, with its own retries.
+export async function redeliverWebhook(deliveryId: number): Promise<{ success: boolean; error?: string; delivery?: WebhookDelivery }> {
+  await requireSession('manage-settings');
+  const original = await db.getWebhookDeliveryById(deliveryId);
+  if (!original) {
+    return { success: false, error: 'Delivery not found.' };
+  }
+  const webhook = (await db.getWebhooks()).find(w => w.id === original.webhookId);
+  if (!webhook) {
+    return { success: false, error: 'The webhook of this delivery has been deleted.' };
+  }
+  const delivery = await sendWebhook(webhook, original.eventType, original.payload);
+  return { success: delivery.status === 'delivered', error: delivery.error ?? undefined, delivery };
+}
+
+const EXTERNAL_PASSWORD_ERROR = 'This user signs in through LDAP or single sign-on; their password is managed there.';
+
 export async function sendPasswordResetEmail(userId: string): Promise<{ success: boolean; error?: string }> {
-    const user = await db.getUserById(userId);
+    const { permissions } = await requireSession('manage-users');
+    const { user, error } = await getManageableUser(userId, permissions);
     const smtpSettings = await db.getSmtpSettings();
     const branding = await db.getBranding();
 
-    if (!user) return { success: false, error: "User not found." };
+    if (!user) return { success: false, error };
+    if (!hasLocalPassword(user)) return { success: false, error: EXTERNAL_PASSWORD_ERROR };
     if (!user.email) return { success: false, error: "User does not have a registered email address." };
     if (!smtpSettings.host) return { success: false, error: "SMTP is not configured. Cannot send email." };
 
-    const tempPassword = Math.random().toString(36).slice(-8);
-    await db.updateUserPassword(user.id, tempPassword);
-
-    const transporter = nodemailer.createTransport({
-        host: smtpSettings.host,
-        port: smtpSettings.port,
-        secure: smtpSettings.secure,
-        auth: smtpSettings.auth,
-    });
+    const tempPassword = generateTemporaryPassword(await db.getPasswordPolicy());
+    await db.updateUserPassword(user.id, await hashPassword(tempPassword), true);
+    await db.revokeUserSessions(user.id);
 
     const mailOptions = {
-        from: `"${branding.brandName}" <${smtpSettings.auth.user}>`,
         to: user.email,
         subject: `Password Reset for ${branding.brandName}`,
         html: `<p>Hello ${user.name},</p><p>Your password has been reset by an administrator.</p><p>Your temporary password is: <strong>${tempPassword}</strong></p><p>Please log in and change your password immediately from your profile settings.</p><p>Thank you,</p><p>The ${branding.brandName} Team</p>`
     };
 
     try {
-        await transporter.sendMail(mailOptions);
+        await sendMail(smtpSettings, branding, mailOptions);
         return { success: true };
     } catch (error: any) {
         console.error("Failed to send password reset email:", error);
@@ -371,8 +925,22 @@ export async function sendPasswordResetEmail(userId: string): Promise<{ success:
 }
 
 export async function resetUserPasswordByAdmin(userId: string, newPassword: string): Promise<{ success: boolean, error?: string }> {
+    const { permissions } = await requireSession('manage-users');
+    const { user, error } = await getManageableUser(userId, permissions);
+    if (!user) {
+        return { success: false, error };
+    }
+    if (!hasLocalPassword(user)) {
+        return { success: false, error: EXTERNAL_PASSWORD_ERROR };
+    }
+    const policyError = await checkNewPassword(newPassword);
+    if (policyError) {
+        return { success: false, error: policyError };
+    }
     try {
-        await db.updateUserPassword(userId, newPassword);
+        // Passwords set by an admin are temporary; the user picks their own at the next login.
+        await db.updateUserPassword(userId, await hashPassword(newPassword), true);
+        await db.revokeUserSessions(userId);
         return { success: true };
     } catch (error: any) {
         console.error(`Failed to reset password for user ${userId}:`, error);
@@ -380,8 +948,107 @@ export async function resetUserPasswordByAdmin(userId: string, newPassword: stri
     }
 }
 
+export async function getUsers(): Promise<User[]> {
+  await requireSession('manage-users');
+  const [users, recoveryCodeCounts] = await Promise.all([db.getUsers(), db.getRemainingRecoveryCodeCounts()]);
+  return users.map(user => ({
+    ...toClientUser(user),
+    twoFactorEnrolled: !!user.twoFactorSecret,
+    recoveryCodesRemaining: recoveryCodeCounts[user.id] ?? 0,
+  }));
+}
+
+export async function getLockedAccounts(): Promise<LockedAccount[]> {
+  await requireSession('manage-users');
+  return db.getLockedAccounts();
+}
+
+export async function unlockUserAccount(username: string): Promise<{ success: boolean; error?: string }> {
+  const { user } = await requireSession('manage-users');
+  const unlocked = await unlockAccount(username, user.username);
+  if (!unlocked) {
+    return { success: false, error: `${username} is not locked.` };
+  }
+  revalidatePath('/users');
+  return { success: true };
+}
+
+export async function getRoles(): Promise<Role[]> {
+  await requireSession('manage-users');
+  return db.getRoles();
+}
+
+// Creates or updates a custom role. Built-in roles are fixed.
+export async function saveRole(role: Role): Promise<{ success: boolean; error?: string }> {
+  const { permissions } = await requireSession('manage-users');
+  if (BUILT_IN_ROLES.some(builtIn => builtIn.id === role.id)) {
+    return { success: false, error: 'Built-in roles cannot be changed.' };
+  }
+  const name = role.name.trim();
+  if (!name) {
+    return { success: false, error: 'Please enter a name for the role.' };
+  }
+  const rolePermissions = ALL_PERMISSIONS.filter(permission => role.permissions.includes(permission));
+  if (!holdsAll(permissions, rolePermissions)) {
+    return { success: false, error: 'You cannot grant permissions you do not have.' };
+  }
+
+  const customRoles = await db.getCustomRoles();
+  const existingRole = customRoles.find(r => r.id === role.id);
+  if (existingRole && !holdsAll(permissions, existingRole.permissions)) {
+    return { success: false, error: `You cannot change the ${existingRole.name} role, as it has permissions you do not have.` };
+  }
+  if ([...BUILT_IN_ROLES, ...customRoles].some(r => r.id !== role.id && r.name.toLowerCase() === name.toLowerCase())) {
+    return { success: false, error: `A role named "${name}" already exists.` };
+  }
+
+  const savedRole: Role = { id: role.id || `role-${Date.now()}`, name, permissions: rolePermissions };
+  await db.updateCustomRoles(existingRole
+    ? customRoles.map(r => (r.id === savedRole.id ? savedRole : r))
+    : [...customRoles, savedRole]);
+  revalidatePath('/users');
+  return { success: true };
+}
+
+export async function deleteRole(roleId: string): Promise<{ success: boolean; error?: string }> {
+  const { permissions } = await requireSession('manage-users');
+  const customRoles = await db.getCustomRoles();
+  const role = customRoles.find(r => r.id === roleId);
+  if (!role) {
+    return { success: false, error: BUILT_IN_ROLES.some(r => r.id === roleId) ? 'Built-in roles cannot be deleted.' : 'Role not found.' };
+  }
+  if (!holdsAll(permissions, role.permissions)) {
+    return { success: false, error: `You cannot delete the ${role.name} role, as it has permissions you do not have.` };
+  }
+  const assignedCount = (await db.getUsers()).filter(user => user.role === roleId).length;
+  if (assignedCount > 0) {
+    return { success: false, error: `${assignedCount} user(s) still have the ${role.name} role. Assign them another role first.` };
+  }
+  for (const [provider, settings] of [['LDAP', await db.getLdapSettings()], ['OIDC', await db.getOidcSettings()]] as const) {
+    if (settings.defaultRole === roleId || settings.groupRoleMappings.some(m => m.role === roleId)) {
+      return { success: false, error: `The ${role.name} role is used by the ${provider} group mappings. Change them first.` };
+    }
+  }
+  await db.updateCustomRoles(customRoles.filter(r => r.id !== roleId));
+  revalidatePath('/users');
+  return { success: true };
+}
+
 export async function addUser(newUser: User): Promise<{ success: boolean, message?: string }> {
-  const result = await db.addUser(newUser);
+  const { permissions } = await requireSession('manage-users');
+  const roleError = await checkAssignableRole(newUser.role, permissions);
+  if (roleError) {
+    return { success: false, message: roleError };
+  }
+  const policyError = newUser.password ? await checkNewPassword(newUser.password) : 'A password is required.';
+  if (policyError) {
+    return { success: false, message: policyError };
+  }
+  const result = await db.addUser({
+    ...newUser,
+    password: await hashPassword(newUser.password!),
+    mustChangePassword: true,
+  });
   if (result.success) {
     revalidatePath('/users');
     return { success: true };
@@ -390,63 +1057,275 @@ export async function addUser(newUser: User): Promise<{ success: boolean, messag
 }
 
 export async function removeUser(userId: string) {
+    const { permissions } = await requireSession('manage-users');
+    const { user, error } = await getManageableUser(userId, permissions);
+    if (!user) {
+        throw new Error(error);
+    }
     await db.removeUser(userId);
+    await db.revokeUserSessions(userId);
     revalidatePath('/users');
 }
 
+// Updates a user's profile fields. Credentials are never taken from the client; they only
+// change through the password and 2FA actions.
 export async function updateUser(user: User) {
-    await db.updateUser(user);
+    const { user: actor, permissions } = await requireSession('manage-users');
+    const { user: existingUser, error } = await getManageableUser(user.id, permissions);
+    if (!existingUser) {
+        throw new Error(error);
+    }
+    if (user.role !== existingUser.role) {
+        if (user.id === actor.id) {
+            throw new Error('You cannot change your own role.');
+        }
+        const roleError = await checkAssignableRole(user.role, permissions);
+        if (roleError) {
+            throw new Error(roleError);
+        }
+    }
+    await db.updateUser({
+        ...existingUser,
+        username: user.username,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        avatar: user.avatar,
+    });
     revalidatePath('/users');
 }
 
-export async function updateMonitoredPaths(paths: MonitoredPaths) {
-  await db.updateMonitoredPaths(paths);
-  revalidatePath('/settings');
-}
-
-export async function addMonitoredExtension(extension: string) {
-    const extensions = await db.getMonitoredExtensions();
-    if (!extensions.includes(extension)) {
-        extensions.push(extension);
-        await db.updateMonitoredExtensions(extensions);
-        revalidatePath('/settings');
+// File statuses are keyed by pipeline id, so ids must be present and unique.
+function normalizePipelines(pipelines: Pipeline[]): { pipelines?: Pipeline[]; error?: string } {
+  const normalized = pipelines.map(pipeline => ({
+    ...pipeline,
+    id: String(pipeline.id ?? '').trim(),
+    name: String(pipeline.name ?? '').trim(),
+    import: { ...pipeline.import, path: String(pipeline.import?.path ?? '').trim() },
+    failed: { ...pipeline.failed, path: String(pipeline.failed?.path ?? '').trim() },
+  }));
+  const ids = new Set<string>();
+  for (const pipeline of normalized) {
+    if (!pipeline.id) {
+      return { error: `The ${pipeline.name || 'new'} pipeline has no id.` };
+    }
+    if (ids.has(pipeline.id)) {
+      return { error: `More than one pipeline has the id "${pipeline.id}".` };
+    }
+    ids.add(pipeline.id);
+    if (!pipeline.name || !pipeline.import.path || !pipeline.failed.path) {
+      return { error: `Please fill in the name and both locations for the ${pipeline.name || 'new'} pipeline.` };
     }
+  }
+  return { pipelines: normalized };
 }
 
-export async function removeMonitoredExtension(extension: string) {
-    let extensions = await db.getMonitoredExtensions();
-    extensions = extensions.filter(e => e !== ext);
-    await db.updateMonitoredExtensions(extensions);
-    revalidatePath('/settings');
+export async function updatePipelines(allPipelines: Pipeline[]): Promise<{ success: boolean; error?: string }> {
+  await requireSession('manage-settings');
+  const { pipelines, error } = normalizePipelines(allPipelines);
+  if (!pipelines) {
+    return { success: false, error };
+  }
+  await db.updatePipelines(pipelines);
+  revalidatePath('/settings');
+  return { success: true };
 }
 
 export async function updateFailureRemark(remark: string) {
+    await requireSession('manage-settings');
     await db.updateFailureRemark(remark);
     revalidatePath('/settings');
 }
 
 export async function updateCleanupSettings(settings: CleanupSettings) {
+    await requireSession('manage-settings');
     await db.updateCleanupSettings(settings);
     revalidatePath('/settings');
 }
 
-export async function updateProcessingSettings(settings: ProcessingSettings) {
+function normalizeProcessingSettings(settings: ProcessingSettings): { settings?: ProcessingSettings; error?: string } {
+    const stabilityScans = Number(settings.stabilityScans);
+    const slaTargetMinutes = Number(settings.slaTargetMinutes);
+    if (!Number.isFinite(stabilityScans) || !Number.isFinite(slaTargetMinutes)) {
+        return { error: 'The stability window and the SLA target must be numbers.' };
+    }
+    if (!Array.isArray(settings.ignorePatterns) || settings.ignorePatterns.some(pattern => typeof pattern !== 'string')) {
+        return { error: 'The ignore patterns must be a list of file name patterns.' };
+    }
+    return {
+        settings: {
+            ...settings,
+            // A file is only taken once a scan has seen it unchanged.
+            stabilityScans: Math.max(1, Math.floor(stabilityScans)),
+            slaTargetMinutes: Math.max(0, Math.floor(slaTargetMinutes)),
+            ignorePatterns: settings.ignorePatterns.map(pattern => pattern.trim()).filter(Boolean),
+        },
+    };
+}
+
+export async function updateProcessingSettings(processingSettings: ProcessingSettings): Promise<{ success: boolean; error?: string }> {
+    await requireSession('manage-settings');
+    const { settings, error } = normalizeProcessingSettings(processingSettings);
+    if (!settings) {
+        return { success: false, error };
+    }
     await db.updateProcessingSettings(settings);
     revalidatePath('/settings');
+    return { success: true };
+}
+
+function normalizeFilenameRules(rules: FilenameRule[]): { rules?: FilenameRule[]; error?: string } {
+    const normalized = rules.map(rule => ({
+        ...rule,
+        name: rule.name.trim(),
+        template: rule.template.trim(),
+        splitSize: Number(rule.splitSize) || 0,
+    }));
+    for (const rule of normalized) {
+        const error = validateFilenameRule(rule);
+        if (error) {
+            return { error };
+        }
+    }
+    return { rules: normalized };
+}
+
+export async function updateFilenameRules(filenameRules: FilenameRule[]): Promise<{ success: boolean; error?: string }> {
+    await requireSession('manage-settings');
+    const { rules, error } = normalizeFilenameRules(filenameRules);
+    if (!rules) {
+        return { success: false, error };
+    }
+    await db.updateFilenameRules(rules);
+    revalidatePath('/settings');
+    return { success: true };
+}
+
+export async function getSanitizeSteps(): Promise<SanitizeStep[]> {
+    await requireSession('manage-settings');
+    return db.getSanitizeSteps();
+}
+
+function normalizeSanitizeSteps(steps: SanitizeStep[]): { steps?: SanitizeStep[]; error?: string } {
+    const normalized = steps.map(step => ({ ...step, maxLength: Number(step.maxLength) || 0 }));
+    for (const [index, step] of normalized.entries()) {
+        const error = validateSanitizeStep(step, index + 1);
+        if (error) {
+            return { error };
+        }
+    }
+    return { steps: normalized };
+}
+
+export async function updateSanitizeSteps(sanitizeSteps: SanitizeStep[]): Promise<{ success: boolean; error?: string }> {
+    await requireSession('manage-settings');
+    const { steps, error } = normalizeSanitizeSteps(sanitizeSteps);
+    if (!steps) {
+        return { success: false, error };
+    }
+    await db.updateSanitizeSteps(steps);
+    revalidatePath('/settings');
+    return { success: true };
+}
+
+export async function getContentValidators(): Promise<ContentValidator[]> {
+    await requireSession('manage-settings');
+    return db.getContentValidators();
+}
+
+function normalizeContentValidators(validators: ContentValidator[]): { validators?: ContentValidator[]; error?: string } {
+    const normalized = validators.map(validator => ({
+        ...validator,
+        extension: validator.extension.trim().replace(/^\./, '').toLowerCase(),
+        magicBytes: validator.magicBytes.trim(),
+        minSize: Number(validator.minSize) || 0,
+        maxSize: Number(validator.maxSize) || 0,
+        stableSeconds: Number(validator.stableSeconds) || 0,
+    }));
+    const extensions = new Set<string>();
+    for (const validator of normalized) {
+        const error = validateContentValidator(validator);
+        if (error) {
+            return { error };
+        }
+        if (extensions.has(validator.extension)) {
+            return { error: `There is more than one validator for .${validator.extension} files.` };
+        }
+        extensions.add(validator.extension);
+    }
+    return { validators: normalized };
+}
+
+export async function updateContentValidators(contentValidators: ContentValidator[]): Promise<{ success: boolean; error?: string }> {
+    await requireSession('manage-settings');
+    const { validators, error } = normalizeContentValidators(contentValidators);
+    if (!validators) {
+        return { success: false, error };
+    }
+    await db.updateContentValidators(validators);
+    revalidatePath('/settings');
+    return { success: true };
+}
+
+export async function getNamingSchemas(): Promise<NamingSchema[]> {
+    await requireSession('view');
+    return db.getNamingSchemas();
+}
+
+function normalizeNamingSchemas(schemas: NamingSchema[]): { schemas?: NamingSchema[]; error?: string } {
+    const normalized = schemas.map(schema => ({
+        ...schema,
+        name: schema.name.trim(),
+        fields: schema.fields.map(field => ({
+            ...field,
+            name: field.name.trim(),
+            minLength: Number(field.minLength) || 0,
+            maxLength: Number(field.maxLength) || 0,
+            allowedValues: field.allowedValues.map(value => value.trim()).filter(Boolean),
+        })),
+    }));
+    for (const schema of normalized) {
+        const error = validateNamingSchema(schema);
+        if (error) {
+            return { error };
+        }
+    }
+    return { schemas: normalized };
+}
+
+export async function updateNamingSchemas(namingSchemas: NamingSchema[]): Promise<{ success: boolean; error?: string }> {
+    await requireSession('manage-settings');
+    const { schemas, error } = normalizeNamingSchemas(namingSchemas);
+    if (!schemas) {
+        return { success: false, error };
+    }
+    await db.updateNamingSchemas(schemas);
+    revalidatePath('/settings');
+    revalidatePath('/dashboard');
+    return { success: true };
+}
+
+export async function updatePasswordPolicy(policy: PasswordPolicy) {
+    await requireSession('manage-settings');
+    await db.updatePasswordPolicy(policy);
+    revalidatePath('/settings');
 }
 
 export async function updateMaintenanceSettings(settings: MaintenanceSettings) {
+    await requireSession('manage-settings');
     await db.updateMaintenanceSettings(settings);
     revalidatePath('/settings');
     revalidatePath('/maintenance');
 }
 
 export async function clearAllFileStatuses() {
-    await db.deleteAllFileStatuses();
+    const { user: { username } } = await requireSession('clear-all');
+    await db.deleteAllFileStatuses(username);
     revalidatePath('/dashboard');
 }
 
 export async function exportFileStatusesToCsv(): Promise<{ csv?: string; error?: string }> {
+    await requireSession('import-export');
     try {
         const statuses = await db.getFileStatuses();
         if (statuses.length === 0) {
@@ -461,6 +1340,7 @@ export async function exportFileStatusesToCsv(): Promise<{ csv?: string; error?:
 }
 
 export async function importFileStatusesFromCsv(csvContent: string): Promise<{ importedCount?: number; error?: string }> {
+    const { user: { username } } = await requireSession('import-export');
     try {
         const result = Papa.parse<FileStatus>(csvContent, { header: true, skipEmptyLines: true });
 
@@ -479,7 +1359,7 @@ export async function importFileStatusesFromCsv(csvContent: string): Promise<{ i
             remarks: row.remarks || '',
         }));
 
-        await db.bulkUpsertFileStatuses(statusesToImport);
+        await db.bulkUpsertFileStatuses(statusesToImport, username);
         revalidatePath('/dashboard');
         return { importedCount: statusesToImport.length };
     } catch (error: any) {
@@ -489,12 +1369,14 @@ export async function importFileStatusesFromCsv(csvContent: string): Promise<{ i
 }
 
 export async function exportUsersToCsv(): Promise<{ csv?: string; error?: string }> {
+    await requireSession('manage-users');
     try {
         const users = await db.getUsers();
         if (users.length === 0) {
             return { error: "There are no users to export." };
         }
-        const csv = Papa.unparse(users);
+        // Password hashes and 2FA secrets never leave the server.
+        const csv = Papa.unparse(users.map(toClientUser));
         return { csv };
     } catch (error: any) {
         console.error("Error exporting users to CSV:", error);
@@ -503,26 +1385,74 @@ export async function exportUsersToCsv(): Promise<{ csv?: string; error?: string
 }
 
 export async function importUsersFromCsv(csvContent: string): Promise<{ importedCount?: number; error?: string }> {
+    const { permissions } = await requireSession('manage-users');
     try {
-        const result = Papa.parse<User>(csvContent, { header: true, skipEmptyLines: true });
+        const result = Papa.parse<Record<string, string>>(csvContent, { header: true, skipEmptyLines: true });
 
         if (result.errors.length > 0) {
             console.error("CSV Parsing errors:", result.errors);
             return { error: `Error parsing CSV on row ${result.errors[0].row}: ${result.errors[0].message}` };
         }
         
-        const requiredFields = ['id', 'username', 'name', 'role', 'password'];
+        const requiredFields = ['id', 'username', 'name', 'role'];
         if (!result.meta.fields || !requiredFields.every(field => result.meta.fields!.includes(field))) {
             return { error: `CSV must contain the following columns: ${requiredFields.join(', ')}` };
         }
 
-        const usersToImport = result.data.map(user => ({
-            ...user,
-            email: user.email || '',
-            avatar: user.avatar || null,
-            twoFactorRequired: user.twoFactorRequired === true || user.twoFactorRequired === "true" || user.twoFactorRequired === "1",
-            twoFactorSecret: user.twoFactorSecret || null,
-        }));
+        // The 'password' column may hold an existing hash (kept as is) or an initial password
+        // (hashed here). It may be left empty for users that already exist, whose stored
+        // password and 2FA enrolment are then kept.
+        const usersToImport: User[] = [];
+        const importedKeys = new Set<string>();
+        for (const [index, row] of result.data.entries()) {
+            // Usernames and email addresses are unique, so a row may only use those of the user it
+            // updates; taking another user's would replace that account.
+            const keys = [`id:${row.id}`, `username:${row.username}`, ...(row.email ? [`email:${row.email}`] : [])];
+            if (keys.some(key => importedKeys.has(key))) {
+                return { error: `Row ${index + 2}: the id, username or email of "${row.username}" appears on an earlier row.` };
+            }
+            keys.forEach(key => importedKeys.add(key));
+            const namesakes = [await db.getUserByUsername(row.username), row.email ? await db.getUserByEmail(row.email) : null];
+            if (namesakes.some(user => user && user.id !== row.id)) {
+                return { error: `Row ${index + 2}: the username or email of "${row.username}" belongs to another user.` };
+            }
+
+            const existingUser = await db.getUserById(row.id);
+            const accessError = (existingUser && (await getManageableUser(existingUser.id, permissions)).error)
+                || await checkAssignableRole(row.role, permissions);
+            if (accessError) {
+                return { error: `Row ${index + 2}: ${accessError}` };
+            }
+            let password = existingUser?.password;
+            let mustChangePassword = row.mustChangePassword ? row.mustChangePassword === "true" : !!existingUser?.mustChangePassword;
+            if (row.password) {
+                // An initial password is temporary, like one set from the user management page.
+                mustChangePassword = mustChangePassword || !isPasswordHash(row.password);
+                password = isPasswordHash(row.password) ? row.password : await hashPassword(row.password);
+            }
+            // LDAP and OIDC users keep their provider and have no local password to import.
+            const authProvider = existingUser?.authProvider || 'local';
+            if (authProvider !== 'local') {
+                password = undefined;
+                mustChangePassword = false;
+            } else if (!password) {
+                return { error: `Row ${index + 2}: a password is required for the new user "${row.username}".` };
+            }
+            usersToImport.push({
+                id: row.id,
+                username: row.username,
+                name: row.name,
+                role: row.role,
+                password,
+                email: row.email || '',
+                avatar: row.avatar || null,
+                twoFactorRequired: row.twoFactorRequired === "true" || row.twoFactorRequired === "1",
+                twoFactorSecret: row.twoFactorSecret || existingUser?.twoFactorSecret || null,
+                mustChangePassword,
+                passwordChangedAt: row.password ? null : existingUser?.passwordChangedAt,
+                authProvider,
+            });
+        }
 
         await db.bulkUpsertUsersWithPasswords(usersToImport);
         revalidatePath('/users');
@@ -534,52 +1464,14 @@ export async function importUsersFromCsv(csvContent: string): Promise<{ imported
 }
 
 export async function generateStatisticsReport(): Promise<{ csv?: string; error?: string }> {
+    await requireSession('view');
     try {
-        const files = await db.getFileStatuses();
-        const publishedFiles = files.filter(file => file.status === 'published');
-        
-        if (publishedFiles.length === 0) {
-            return { error: "No published files available to generate a report." };
+        const [files, events, pipelines] = await Promise.all([db.getFileStatuses(), db.getOutcomeEvents(), db.getPipelines()]);
+        const csv = buildStatisticsCsv(files, events, pipelines);
+        if (!csv) {
+            return { error: "No file activity available to generate a report." };
         }
-
-        // Process data
-        const dailyCounts: { [key: string]: number } = {};
-        const weeklyCounts: { [key: string]: number } = {};
-        const monthlyCounts: { [key: string]: number } = {};
-
-        publishedFiles.forEach(file => {
-            const date = parseISO(file.lastUpdated);
-            const dailyKey = format(date, "yyyy-MM-dd");
-            const weeklyKey = format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
-            const monthlyKey = format(startOfMonth(date), "yyyy-MM");
-
-            dailyCounts[dailyKey] = (dailyCounts[dailyKey] || 0) + 1;
-            weeklyCounts[weeklyKey] = (weeklyCounts[weeklyKey] || 0) + 1;
-            monthlyCounts[monthlyKey] = (monthlyCounts[monthlyKey] || 0) + 1;
-        });
-
-        // Convert to arrays
-        const dailyData = Object.entries(dailyCounts).map(([date, count]) => ({ period: 'Daily', date, count }));
-        const weeklyData = Object.entries(weeklyCounts).map(([date, count]) => ({ period: 'Weekly', date: `Week of ${date}`, count }));
-        const monthlyData = Object.entries(monthlyCounts).map(([date, count]) => ({ period: 'Monthly', date: format(parseISO(`${date}-01`), 'MMM yyyy'), count }));
-        
-        const summaryData = [...dailyData, ...weeklyData, ...monthlyData];
-
-        // Format raw data
-        const rawData = publishedFiles.map(f => ({
-            period: 'Raw Data',
-            fileName: f.name,
-            publishedDate: f.lastUpdated,
-            source: f.source,
-        }));
-
-        // Convert to CSV
-        const summaryCsv = Papa.unparse(summaryData);
-        const rawDataCsv = Papa.unparse(rawData);
-
-        const finalCsv = `STATISTICS SUMMARY\n${summaryCsv}\n\nRAW PUBLISHED DATA\n${rawDataCsv}`;
-
-        return { csv: finalCsv };
+        return { csv };
     } catch (error: any) {
         console.error("Error generating statistics report:", error);
         return { error: "An unexpected error occurred during report generation." };
@@ -587,19 +1479,26 @@ export async function generateStatisticsReport(): Promise<{ csv?: string; error?
 }
 
 export async function exportAllSettings(): Promise<{ settings?: string; error?: string }> {
+    await requireSession('manage-settings');
     try {
         const fullDb = await db.readDb();
         
         const settingsToExport: Partial<Database> = {
             // Users are explicitly excluded
             branding: fullDb.branding,
-            monitoredPaths: fullDb.monitoredPaths,
-            monitoredExtensions: fullDb.monitoredExtensions,
+            pipelines: fullDb.pipelines,
             cleanupSettings: fullDb.cleanupSettings,
             processingSettings: fullDb.processingSettings,
             failureRemark: fullDb.failureRemark,
             smtpSettings: fullDb.smtpSettings,
             maintenanceSettings: fullDb.maintenanceSettings,
+            passwordPolicy: fullDb.passwordPolicy,
+            alertSettings: fullDb.alertSettings,
+            reportSettings: fullDb.reportSettings,
+            filenameRules: fullDb.filenameRules,
+            sanitizeSteps: fullDb.sanitizeSteps,
+            namingSchemas: fullDb.namingSchemas,
+            contentValidators: fullDb.contentValidators,
         };
 
         const jsonString = JSON.stringify(settingsToExport, null, 2);
@@ -610,7 +1509,14 @@ export async function exportAllSettings(): Promise<{ settings?: string; error?:
     }
 }
 
-export async function importAllSettings(settings: Partial<Database>): Promise<{ success: boolean; error?: string }> {
+// Backups made before pipelines existed carry a single import/failed pair instead.
+type LegacySettingsBackup = {
+    monitoredPaths?: MonitoredPaths;
+    monitoredExtensions?: string[];
+};
+
+export async function importAllSettings(settings: Partial<Database> & LegacySettingsBackup): Promise<{ success: boolean; error?: string }> {
+    await requireSession('manage-settings');
     try {
         // Validate the structure of the imported settings
         if (!settings || typeof settings !== 'object') {
@@ -621,17 +1527,43 @@ export async function importAllSettings(settings: Partial<Database>): Promise<{
             return { success: false, error: 'Settings import should not contain user data. Please use the dedicated user import feature.' };
         }
 
+        // Settings with checks of their own go through the same ones as on the settings page,
+        // before anything is written, so an invalid backup is rejected as a whole.
+        const filenameRules = settings.filenameRules && normalizeFilenameRules(settings.filenameRules);
+        const sanitizeSteps = settings.sanitizeSteps && normalizeSanitizeSteps(settings.sanitizeSteps);
+        const namingSchemas = settings.namingSchemas && normalizeNamingSchemas(settings.namingSchemas);
+        const contentValidators = settings.contentValidators && normalizeContentValidators(settings.contentValidators);
+        const reportSettings = settings.reportSettings && normalizeReportSettings(settings.reportSettings);
+        const alertSettings = settings.alertSettings && normalizeAlertSettings(settings.alertSettings);
+        const processingSettings = settings.processingSettings && normalizeProcessingSettings(settings.processingSettings);
+        const pipelines = settings.pipelines && normalizePipelines(settings.pipelines);
+        for (const checked of [pipelines, processingSettings, alertSettings, reportSettings, filenameRules, sanitizeSteps, namingSchemas, contentValidators]) {
+            if (checked?.error) {
+                return { success: false, error: `The settings were not imported: ${checked.error}` };
+            }
+        }
+
         const dbWrites: Promise<any>[] = [];
 
         // Update each setting if it exists in the imported file
         if (settings.branding) dbWrites.push(db.updateBranding(settings.branding));
-        if (settings.monitoredPaths) dbWrites.push(db.updateMonitoredPaths(settings.monitoredPaths));
-        if (settings.monitoredExtensions) dbWrites.push(db.updateMonitoredExtensions(settings.monitoredExtensions));
+        if (pipelines?.pipelines) {
+            dbWrites.push(db.updatePipelines(pipelines.pipelines));
+        } else if (settings.monitoredPaths) {
+            dbWrites.push(db.importLegacyPipeline(settings.monitoredPaths, settings.monitoredExtensions || []));
+        }
         if (settings.cleanupSettings) dbWrites.push(db.updateCleanupSettings(settings.cleanupSettings));
-        if (settings.processingSettings) dbWrites.push(db.updateProcessingSettings(settings.processingSettings));
+        if (processingSettings?.settings) dbWrites.push(db.updateProcessingSettings(processingSettings.settings));
         if (settings.failureRemark) dbWrites.push(db.updateFailureRemark(settings.failureRemark));
         if (settings.smtpSettings) dbWrites.push(db.updateSmtpSettings(settings.smtpSettings));
         if (settings.maintenanceSettings) dbWrites.push(db.updateMaintenanceSettings(settings.maintenanceSettings));
+        if (settings.passwordPolicy) dbWrites.push(db.updatePasswordPolicy(settings.passwordPolicy));
+        if (alertSettings?.settings) dbWrites.push(db.updateAlertSettings(alertSettings.settings));
+        if (reportSettings?.settings) dbWrites.push(db.updateReportSettings(reportSettings.settings));
+        if (filenameRules?.rules) dbWrites.push(db.updateFilenameRules(filenameRules.rules));
+        if (sanitizeSteps?.steps) dbWrites.push(db.updateSanitizeSteps(sanitizeSteps.steps));
+        if (namingSchemas?.schemas) dbWrites.push(db.updateNamingSchemas(namingSchemas.schemas));
+        if (contentValidators?.validators) dbWrites.push(db.updateContentValidators(contentValidators.validators));
 
         
         await Promise.all(dbWrites);
@@ -0,0 +1,27 @@
+import type { AlertSettings } from '../types';
+
+// Shared by the alert sender and the settings page, which lists the placeholders and can
+// restore the default templates.
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  enabled: false,
+  statuses: ['failed', 'timed-out'],
+  recipients: [],
+  digestIntervalMinutes: 0,
+  immediateTemplate: {
+    subject: '[{{brandName}}] {{fileName}} is {{status}}',
+    body: 'The file {{fileName}} in the {{pipeline}} pipeline changed from {{previousStatus}} to {{status}} at {{time}}.\n\nRemarks: {{remarks}}',
+  },
+  digestTemplate: {
+    subject: '[{{brandName}}] {{count}} files need attention',
+    body: '{{count}} files failed or timed out between {{from}} and {{to}}:\n\n{{files}}',
+  },
+};
+
+export const IMMEDIATE_ALERT_PLACEHOLDERS = ['brandName', 'fileName', 'status', 'previousStatus', 'pipeline', 'remarks', 'time'];
+export const DIGEST_ALERT_PLACEHOLDERS = ['brandName', 'count', 'from', 'to', 'files'];
+
+// Replaces {{name}} with its value. Unknown placeholders are left as typed, so mistakes show up in the email.
+export function renderAlertTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => (name in values ? values[name] : placeholder));
+}
@@ -0,0 +1,168 @@
+import { format } from 'date-fns';
+import * as db from './db';
+import { renderAlertTemplate } from './alert-templates';
+import { renderBrandedEmail, sendMail } from './mailer';
+import type { AlertSettings, AlertTemplate, BrandingSettings, FileStatusEvent } from '../types';
+
+// Email alerts about files that failed or timed out, run by the watcher process. Like the
+// webhooks they follow the file status event log: immediate alerts send one email per event,
+// the digest collects the events since the last digest into one email every N minutes.
+
+const MAX_EVENTS_PER_RUN = 500;
+// A burst of more immediate alerts than this in one run is sent as one combined email.
+const MAX_IMMEDIATE_EMAILS_PER_RUN = 10;
+// Longer digests list the first files and then say how many more there were.
+const MAX_DIGEST_LINES = 200;
+
+type AlertContext = {
+    branding: BrandingSettings;
+    pipelineNames: Map<string, string>;
+};
+
+const formatTime = (timestamp: string | Date) => format(new Date(timestamp), 'PPpp');
+
+async function getAlertContext(): Promise<AlertContext> {
+    const [branding, pipelines] = await Promise.all([db.getBranding(), db.getPipelines()]);
+    return { branding, pipelineNames: new Map(pipelines.map(p => [p.id, p.name])) };
+}
+
+function renderEmail(template: AlertTemplate, values: Record<string, string>, branding: BrandingSettings) {
+    return {
+        subject: renderAlertTemplate(template.subject, values),
+        ...renderBrandedEmail(branding, renderAlertTemplate(template.body, values)),
+    };
+}
+
+function immediateEmail(settings: AlertSettings, event: FileStatusEvent, context: AlertContext) {
+    return renderEmail(settings.immediateTemplate, {
+        brandName: context.branding.brandName,
+        fileName: event.fileName,
+        status: event.newStatus ?? '',
+        previousStatus: event.oldStatus ?? 'new',
+        pipeline: context.pipelineNames.get(event.pipelineId ?? '') ?? event.pipelineId ?? '',
+        remarks: event.remarks || '—',
+        time: formatTime(event.timestamp),
+    }, context.branding);
+}
+
+function digestEmail(settings: AlertSettings, events: FileStatusEvent[], from: string, to: Date, context: AlertContext) {
+    const lines = events.slice(0, MAX_DIGEST_LINES).map(event => {
+        const pipeline = context.pipelineNames.get(event.pipelineId ?? '') ?? event.pipelineId;
+        return `- ${event.fileName} (${pipeline}): ${event.newStatus} at ${formatTime(event.timestamp)}`;
+    });
+    if (events.length > MAX_DIGEST_LINES) {
+        lines.push(`... and ${events.length - MAX_DIGEST_LINES} more.`);
+    }
+    return renderEmail(settings.digestTemplate, {
+        brandName: context.branding.brandName,
+        count: String(events.length),
+        from: formatTime(from),
+        to: formatTime(to),
+        files: lines.join('\n'),
+    }, context.branding);
+}
+
+// Returns the alerting events after the cursor and the cursor to continue from.
+async function collectAlertEvents(settings: AlertSettings, cursor: number, limit: number): Promise<{ events: FileStatusEvent[]; cursor: number }> {
+    const events: FileStatusEvent[] = [];
+    while (true) {
+        const changes = await db.getFileStatusChangesSince(cursor, MAX_EVENTS_PER_RUN);
+        if (changes.length === 0) break;
+        cursor = changes[changes.length - 1].event.id;
+        events.push(...changes.map(c => c.event).filter(e => e.newStatus !== null && settings.statuses.includes(e.newStatus)));
+        if (changes.length < MAX_EVENTS_PER_RUN || events.length >= limit) break;
+    }
+    return { events, cursor };
+}
+
+async function sendAlertEmail(recipients: string[], email: ReturnType<typeof renderEmail>, branding: BrandingSettings): Promise<void> {
+    const smtpSettings = await db.getSmtpSettings();
+    await sendMail(smtpSettings, branding, { to: recipients, ...email });
+}
+
+export async function processAlerts(): Promise<void> {
+    const settings = await db.getAlertSettings();
+    const latestEventId = await db.getLatestFileStatusEventId();
+    const savedState = await db.getAlertState();
+    const immediateRecipients = settings.recipients.filter(r => r.immediate).map(r => r.email);
+    const digestRecipients = settings.recipients.filter(r => r.digest).map(r => r.email);
+    const digestEnabled = settings.digestIntervalMinutes > 0 && digestRecipients.length > 0;
+
+    // Events from before alerts were set up, or while they were off, are never mailed.
+    if (!savedState || !settings.enabled) {
+        if (savedState?.immediateCursor !== latestEventId || savedState.digestCursor !== latestEventId) {
+            await db.updateAlertState({ immediateCursor: latestEventId, digestCursor: latestEventId, lastDigestAt: savedState?.lastDigestAt ?? null });
+        }
+        return;
+    }
+
+    const state = { ...savedState };
+    const now = new Date();
+    const context = await getAlertContext();
+
+    if (immediateRecipients.length === 0) {
+        state.immediateCursor = latestEventId;
+    } else if (state.immediateCursor < latestEventId) {
+        const { events, cursor } = await collectAlertEvents(settings, state.immediateCursor, MAX_EVENTS_PER_RUN);
+        state.immediateCursor = cursor;
+        try {
+            if (events.length > MAX_IMMEDIATE_EMAILS_PER_RUN) {
+                await sendAlertEmail(immediateRecipients, digestEmail(settings, events, events[0].timestamp, now, context), context.branding);
+            } else {
+                for (const event of events) {
+                    await sendAlertEmail(immediateRecipients, immediateEmail(settings, event, context), context.branding);
+                }
+            }
+            if (events.length > 0) console.log(`[Alerts] Sent alerts for ${events.length} file(s).`);
+        } catch (error: any) {
+            // Not retried, so a broken mail server cannot pile up a flood of late alerts.
+            console.error('[Alerts] Failed to send alert emails:', error.message);
+        }
+    }
+
+    if (!digestEnabled) {
+        state.digestCursor = latestEventId;
+    } else if (!state.lastDigestAt || now.getTime() - Date.parse(state.lastDigestAt) >= settings.digestIntervalMinutes * 60 * 1000) {
+        const { events, cursor } = await collectAlertEvents(settings, state.digestCursor, Infinity);
+        const from = state.lastDigestAt ?? events[0]?.timestamp ?? now.toISOString();
+        state.lastDigestAt = now.toISOString();
+        try {
+            if (events.length > 0) {
+                await sendAlertEmail(digestRecipients, digestEmail(settings, events, from, now, context), context.branding);
+                console.log(`[Alerts] Sent a digest of ${events.length} file(s).`);
+            }
+            state.digestCursor = cursor;
+        } catch (error: any) {
+            // The events stay in the next digest.
+            console.error('[Alerts] Failed to send the digest email:', error.message);
+        }
+    }
+
+    if (state.immediateCursor !== savedState.immediateCursor || state.digestCursor !== savedState.digestCursor || state.lastDigestAt !== savedState.lastDigestAt) {
+        await db.updateAlertState(state);
+    }
+}
+
+// Sends an example of both emails to every recipient, using the given (possibly unsaved) settings.
+export async function sendTestAlerts(settings: AlertSettings): Promise<void> {
+    const recipients = settings.recipients.map(r => r.email);
+    if (recipients.length === 0) {
+        throw new Error('Add at least one recipient first.');
+    }
+    const context = await getAlertContext();
+    const pipelineId = [...context.pipelineNames.keys()][0] ?? 'pipeline-default';
+    const now = new Date();
+    const examples: FileStatusEvent[] = ['failed', 'timed-out'].map((status, i) => ({
+        id: 0,
+        fileId: `example-${i}`,
+        fileName: `EXAMPLE_${i + 1}_test_file.xml`,
+        pipelineId,
+        oldStatus: 'processing',
+        newStatus: status as FileStatusEvent['newStatus'],
+        actor: 'watcher',
+        timestamp: now.toISOString(),
+        remarks: 'This is a test alert.',
+    }));
+    await sendAlertEmail(recipients, immediateEmail(settings, examples[0], context), context.branding);
+    await sendAlertEmail(recipients, digestEmail(settings, examples, new Date(now.getTime() - settings.digestIntervalMinutes * 60 * 1000).toISOString(), now, context), context.branding);
+}
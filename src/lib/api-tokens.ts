@@ -0,0 +1,60 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import * as db from './db';
+import { getUserPermissions } from './session';
+import type { ApiToken, Permission, User } from '../types';
+
+// Personal tokens for the REST API under /api/v1. A token carries 256 random bits, so a plain
+// SHA-256 is a safe way to store it; the token itself is only shown once, when it is created.
+
+const TOKEN_PREFIX = 'ftk_';
+// How much of the token is kept in the clear to tell tokens apart in the profile dialog.
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// lastUsedAt is only written once a minute, so busy clients do not cause a write per request.
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export type AuthenticatedApiToken = {
+    token: ApiToken;
+    user: User;
+    permissions: Permission[];
+};
+
+const hashApiToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+// Creates a token for the user and returns it together with its plaintext value.
+export async function issueApiToken(userId: string, name: string, expiresAt: string | null): Promise<{ token: ApiToken; secret: string }> {
+    const secret = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const token: ApiToken = {
+        id: randomUUID(),
+        userId,
+        name,
+        prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+        createdAt: new Date().toISOString(),
+        expiresAt,
+        lastUsedAt: null,
+        revokedAt: null,
+    };
+    await db.createApiToken(token, hashApiToken(secret));
+    return { token, secret };
+}
+
+// Resolves an `Authorization: Bearer <token>` header to the token's owner, or null if the
+// token is missing, unknown, revoked or expired. Permissions are those of the owner's current
+// role, so changing a user's role also changes what their tokens can do.
+export async function authenticateApiToken(authorization: string | null): Promise<AuthenticatedApiToken | null> {
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+    if (!match) return null;
+
+    const token = await db.getApiTokenByHash(hashApiToken(match[1]));
+    const now = Date.now();
+    if (!token || token.revokedAt || (token.expiresAt && Date.parse(token.expiresAt) <= now)) {
+        return null;
+    }
+    const user = await db.getUserById(token.userId);
+    if (!user) return null;
+
+    if (!token.lastUsedAt || now - Date.parse(token.lastUsedAt) >= LAST_USED_RESOLUTION_MS) {
+        token.lastUsedAt = new Date(now).toISOString();
+        await db.touchApiToken(token.id, token.lastUsedAt);
+    }
+    return { token, user, permissions: await getUserPermissions(user) };
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import * as db from './db';
+import { authenticateApiToken, type AuthenticatedApiToken } from './api-tokens';
+import type { FileOperationResult } from './file-operations';
+import type { FileStatus, Permission } from '../types';
+
+// Helpers for the token-authenticated REST API under /api/v1. Every response is JSON;
+// errors have the shape { error: string }.
+
+type RouteContext<P> = { params: Promise<P> };
+
+type ApiHandler<P> = (request: Request, auth: AuthenticatedApiToken, params: P) => Promise<Response>;
+
+export const apiError = (status: number, error: string) => NextResponse.json({ error }, { status });
+
+// Wraps a route handler so it only runs for a valid token whose owner holds the permission.
+// Like the pages, the API is closed to everyone but settings managers during maintenance.
+export function withApiToken<P = Record<string, never>>(permission: Permission, handler: ApiHandler<P>) {
+    return async (request: Request, context: RouteContext<P>): Promise<Response> => {
+        const auth = await authenticateApiToken(request.headers.get('authorization'));
+        if (!auth) {
+            return apiError(401, 'A valid API token is required.');
+        }
+        if (!auth.permissions.includes(permission)) {
+            return apiError(403, 'You do not have permission to perform this action.');
+        }
+        const maintenance = await db.getMaintenanceSettings();
+        if (maintenance.enabled && !auth.permissions.includes('manage-settings')) {
+            return apiError(503, maintenance.message || 'The application is under maintenance.');
+        }
+
+        try {
+            return await handler(request, auth, await context.params);
+        } catch (error) {
+            console.error(`[API] ${request.method} ${new URL(request.url).pathname} failed:`, error);
+            return apiError(500, 'An unexpected error occurred.');
+        }
+    };
+}
+
+// The tracked file a /api/v1/files/{name} request is about. The name is enough unless it is
+// tracked in several pipelines, in which case the pipelineId query parameter picks one.
+export async function findTrackedFile(request: Request, fileName: string): Promise<FileStatus | Response> {
+    const pipelineId = new URL(request.url).searchParams.get('pipelineId');
+    const files = pipelineId
+        ? [await db.getFileStatus(pipelineId, fileName)].filter((file): file is FileStatus => file !== null)
+        : await db.getFileStatusesByName(fileName);
+    if (files.length === 0) {
+        return apiError(404, `No file named "${fileName}" is being tracked${pipelineId ? ` in pipeline "${pipelineId}"` : ''}.`);
+    }
+    if (files.length > 1) {
+        const pipelineIds = files.map(file => file.pipelineId).join(', ');
+        return apiError(409, `"${fileName}" is tracked in several pipelines (${pipelineIds}); choose one with the pipelineId query parameter.`);
+    }
+    return files[0];
+}
+
+// Runs a file operation on a tracked file, answering 404 if there is no status entry for it.
+export async function runFileOperation<T extends FileOperationResult>(
+    request: Request,
+    fileName: string,
+    operation: (pipelineId: string) => Promise<T>,
+): Promise<Response> {
+    const file = await findTrackedFile(request, fileName);
+    if (file instanceof Response) {
+        return file;
+    }
+    // Stored statuses always belong to a pipeline.
+    const { success, error, ...result } = await operation(file.pipelineId ?? '');
+    if (!success) {
+        // The request was valid but the file's current state does not allow the operation.
+        return apiError(409, error ?? 'The operation failed.');
+    }
+    return NextResponse.json({ success, ...(error ? { warning: error } : {}), ...result });
+}
@@ -0,0 +1,157 @@
+import { randomUUID } from 'crypto';
+import * as db from './db';
+import type { AuthProviderId, OidcSettings, User } from '../types';
+import { hashPassword, verifyPassword } from './password';
+import { authenticateWithLdap, type LdapClientFactory } from './ldap';
+import type { OidcIdentity } from './oidc';
+import { resolveMappedRole } from './permissions';
+
+// Each user belongs to one provider, which alone checks their password. Usernames that do
+// not exist yet are offered to the providers that can create users on first sign-in.
+// OIDC users come in through the redirect flow instead, via signInWithOidc.
+
+export interface AuthProvider {
+    id: AuthProviderId;
+    // Whether usernames unknown to the database may be tried against this provider.
+    canProvisionUsers(): Promise<boolean>;
+    // Returns the user as stored after a successful check (created or updated as needed),
+    // or null if the credentials are not accepted. `user` is null for unknown usernames.
+    authenticate(username: string, password: string, user: User | null): Promise<User | null>;
+}
+
+export const localAuthProvider: AuthProvider = {
+    id: 'local',
+    canProvisionUsers: async () => false,
+    async authenticate(_username, password, user) {
+        const { valid, needsRehash } = await verifyPassword(password, user?.password);
+        if (!user || !valid) return null;
+        if (needsRehash) {
+            // Upgrades legacy plaintext passwords (and outdated hashes) the first time they are used.
+            await db.rehashUserPassword(user.id, await hashPassword(password));
+        }
+        return user;
+    },
+};
+
+type ExternalProfile = {
+    username: string;
+    name: string | null;
+    email: string | null;
+    role: string | null;
+    externalId?: string;
+};
+
+// Creates or updates a user who signed in through a directory or identity provider. Name,
+// email and role follow the provider on every sign-in. Returns null if the mapped role does
+// not allow signing in or the user cannot be created.
+async function syncExternalUser(authProvider: AuthProviderId, user: User | null, profile: ExternalProfile): Promise<User | null> {
+    if (!profile.role || !await db.getRoleById(profile.role)) {
+        console.log(`[Auth] ${authProvider.toUpperCase()} user "${profile.username}" is not in a group that is allowed to sign in.`);
+        return null;
+    }
+    const fields = {
+        name: profile.name || profile.username,
+        email: profile.email || '',
+        role: profile.role,
+    };
+    if (user) {
+        const updated = { ...user, ...fields };
+        if (updated.name !== user.name || (updated.email || '') !== (user.email || '') || updated.role !== user.role) {
+            await db.updateUser(updated);
+        }
+        return updated;
+    }
+
+    const newUser: User = {
+        id: `user-${randomUUID()}`,
+        username: profile.username,
+        ...fields,
+        authProvider,
+        externalId: profile.externalId || null,
+        twoFactorRequired: false,
+    };
+    const { success } = await db.addUser(newUser);
+    if (!success) {
+        console.error(`[Auth] Could not create ${authProvider.toUpperCase()} user "${profile.username}"; the username or email is already taken.`);
+        return null;
+    }
+    console.log(`[Auth] Created user "${profile.username}" on first ${authProvider.toUpperCase()} sign-in with the ${fields.role} role.`);
+    return db.getUserById(newUser.id);
+}
+
+export function createLdapAuthProvider(createClient?: LdapClientFactory): AuthProvider {
+    return {
+        id: 'ldap',
+        canProvisionUsers: async () => (await db.getLdapSettings()).enabled,
+        async authenticate(username, password, user) {
+            const settings = await db.getLdapSettings();
+            if (!settings.enabled) return null;
+            const identity = await authenticateWithLdap(settings, username, password, createClient);
+            if (!identity) return null;
+
+            return syncExternalUser('ldap', user, {
+                username,
+                name: identity.name,
+                email: identity.email,
+                role: resolveMappedRole(settings, identity.groups),
+            });
+        },
+    };
+}
+
+// OIDC users sign in through the redirect flow, never with a password.
+const oidcAuthProvider: AuthProvider = {
+    id: 'oidc',
+    canProvisionUsers: async () => false,
+    authenticate: async () => null,
+};
+
+const providers: Record<AuthProviderId, AuthProvider> = {
+    local: localAuthProvider,
+    ldap: createLdapAuthProvider(),
+    oidc: oidcAuthProvider,
+};
+
+// Only local users have a password this app can check, change or reset.
+export function hasLocalPassword(user: User): boolean {
+    return (user.authProvider || 'local') === 'local';
+}
+
+export function getAuthProvider(id: AuthProviderId | undefined): AuthProvider {
+    return providers[id || 'local'];
+}
+
+// Checks a username and password with the provider the user belongs to. Directory errors
+// are logged and count as a refusal, so an unreachable server never lets anyone in.
+export async function validateUserCredentials(username: string, password: string): Promise<User | null> {
+    const user = await db.getUserByUsername(username);
+    const candidates = user ? [getAuthProvider(user.authProvider)] : Object.values(providers);
+    for (const provider of candidates) {
+        try {
+            if (!user && !await provider.canProvisionUsers()) continue;
+            const authenticated = await provider.authenticate(username, password, user);
+            if (authenticated) return authenticated;
+        } catch (error) {
+            console.error(`[Auth] The ${provider.id} provider failed to check "${username}":`, error);
+        }
+    }
+    return null;
+}
+
+// Signs in the user an identity provider vouched for. Users are matched by subject, so a
+// provider cannot take over an account that was created some other way.
+export async function signInWithOidc(settings: OidcSettings, identity: OidcIdentity): Promise<User | null> {
+    const user = await db.getUserByExternalId('oidc', identity.subject);
+    const username = user?.username || identity.username;
+    if (!username) {
+        console.error(`[Auth] The OIDC identity "${identity.subject}" has no "${settings.usernameClaim}" claim.`);
+        return null;
+    }
+    return syncExternalUser('oidc', user, {
+        username,
+        name: identity.name,
+        email: identity.email,
+        role: resolveMappedRole(settings, identity.groups),
+        externalId: identity.subject,
+    });
+}
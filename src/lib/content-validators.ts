@@ -0,0 +1,82 @@
+import type { ChecksumAlgorithm, ContentValidator } from '../types';
+
+// Content checks for new files: size limits, magic-byte signatures, a minimum age so files still
+// being written are left alone, and checksum sidecars. The watcher reads the files; this module
+// holds what the settings page can check without them.
+
+export const CHECKSUM_ALGORITHMS: ChecksumAlgorithm[] = ['md5', 'sha1', 'sha256'];
+
+export const newContentValidator = (): ContentValidator => ({
+  id: `validator-${Date.now()}`,
+  extension: '',
+  enabled: true,
+  minSize: 1,
+  maxSize: 0,
+  magicBytes: '',
+  stableSeconds: 0,
+  checksum: 'none',
+  action: 'flag',
+});
+
+const normalizeExtension = (extension: string) => extension.trim().replace(/^\./, '').toLowerCase();
+
+// The accepted signatures as byte arrays, or null if any of them is not valid hex.
+export function parseMagicBytes(value: string): number[][] | null {
+  const signatures: number[][] = [];
+  for (const part of value.split(',')) {
+    const hex = part.replace(/\s/g, '');
+    if (!hex) continue;
+    if (!/^([0-9a-f]{2})+$/i.test(hex)) return null;
+    signatures.push((hex.match(/../g) || []).map(byte => parseInt(byte, 16)));
+  }
+  return signatures;
+}
+
+export const matchesMagicBytes = (header: Uint8Array, signatures: number[][]): boolean =>
+  signatures.some(signature => signature.every((byte, i) => header[i] === byte));
+
+export const toHex = (bytes: ArrayLike<number>): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+export function validateContentValidator(validator: ContentValidator): string | null {
+  const extension = normalizeExtension(validator.extension);
+  if (!extension || /[\s/\\*]/.test(extension)) return 'Every content validator needs a file extension, such as xml.';
+  const label = `The .${extension} validator`;
+  for (const value of [validator.minSize, validator.maxSize, validator.stableSeconds]) {
+    if (!Number.isInteger(value) || value < 0) return `${label} needs whole, non-negative numbers.`;
+  }
+  if (validator.maxSize > 0 && validator.minSize > validator.maxSize) {
+    return `${label} has a minimum size above its maximum.`;
+  }
+  if (!parseMagicBytes(validator.magicBytes)) {
+    return `${label} needs its signatures as hex bytes separated by commas, such as 3C3F786D6C.`;
+  }
+  return null;
+}
+
+// The enabled validator for the file's extension, if there is one.
+export function getContentValidator(validators: ContentValidator[], fileName: string): ContentValidator | null {
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0) return null;
+  const extension = fileName.slice(dot + 1).toLowerCase();
+  return validators.find(validator => validator.enabled && normalizeExtension(validator.extension) === extension) ?? null;
+}
+
+// The digest from a sidecar file: either the bare digest or the "<digest>  <file name>" lines
+// written by sha256sum and its siblings.
+export function parseChecksumSidecar(content: string): string | null {
+  const digest = content.trim().split(/\s+/)[0];
+  return digest && /^[0-9a-f]+$/i.test(digest) ? digest.toLowerCase() : null;
+}
@@ -1,18 +1,79 @@
-
-'use server';
-
 import * as fs from 'fs';
 import * as path from 'path';
 import Database from 'better-sqlite3';
-import type { Database as JsonDatabase, BrandingSettings, CleanupSettings, FileStatus, MonitoredPaths, ProcessingSettings, SmtpSettings, User, MaintenanceSettings } from '../types';
+import { DEFAULT_PASSWORD_POLICY } from './password-policy';
+import { BUILT_IN_ROLES } from './permissions';
+import { DEFAULT_LDAP_SETTINGS } from './ldap';
+import { DEFAULT_OIDC_SETTINGS } from './oidc';
+import { DEFAULT_ALERT_SETTINGS } from './alert-templates';
+import { DEFAULT_REPORT_SETTINGS } from './report-schedule';
+import { DEFAULT_FILENAME_RULES } from './filename-rules';
+import { DEFAULT_SANITIZE_STEPS } from './filename-sanitizer';
+import type { Database as JsonDatabase, AlertSettings, ApiToken, AuthProviderId, BrandingSettings, CleanupSettings, ContentValidator, FilenameRule, FileStatus, FileStatusChange, FileStatusEvent, FileStatusQuery, FileStatusQueryResult, FileStatusSortColumn, LdapSettings, LockedAccount, LoginThrottle, MonitoredPaths, NamingSchema, OidcSettings, PasswordPolicy, Pipeline, ProcessingSettings, ReportRun, ReportSettings, Role, SanitizeStep, SecurityEvent, Session, SmtpSettings, User, MaintenanceSettings, Webhook, WebhookDelivery } from '../types';
 
 const dbPath = path.resolve(process.cwd(), 'src/lib/database.sqlite');
 const jsonDbPath = path.resolve(process.cwd(), 'src/lib/database.json');
 const jsonDbMigratedPath = path.resolve(process.cwd(), 'src/lib/database.json.migrated');
 
+// Pipeline created from the single import/failed pair used before pipelines existed.
+const DEFAULT_PIPELINE_ID = 'pipeline-default';
+
+// Shape of database.json, which predates pipelines.
+type LegacyJsonDatabase = Omit<JsonDatabase, 'pipelines'> & {
+    monitoredPaths: MonitoredPaths;
+    monitoredExtensions: string[];
+};
+
 // Establish a singleton database connection
 let dbInstance: Database.Database | null = null;
 
+// Adds a column to an existing table if it is missing (for databases created by older versions).
+// Returns true if the column was added.
+function ensureColumn(db: Database.Database, table: string, column: string, definition: string): boolean {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (columns.some(c => c.name === column)) {
+        return false;
+    }
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+}
+
+// A file is identified by its pipeline and name: the same name may pass through several pipelines.
+const FILE_STATUSES_COLUMNS = `
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    source TEXT NOT NULL,
+    lastUpdated TEXT NOT NULL,
+    remarks TEXT,
+    pipelineId TEXT,
+    firstSeen TEXT,
+    processingStartedAt TEXT,
+    completedAt TEXT,
+    fileSize INTEGER,
+    checksum TEXT,
+    validation TEXT,
+    validationDetails TEXT,
+    UNIQUE (pipelineId, name)
+`;
+
+// File names used to be unique across all pipelines. SQLite cannot drop a column constraint,
+// so older tables are rebuilt with the per-pipeline one.
+function keyFileStatusesByPipeline(db: Database.Database) {
+    const { sql } = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'file_statuses'").get() as { sql: string };
+    if (!/name TEXT NOT NULL UNIQUE/.test(sql)) {
+        return;
+    }
+    console.log('[DB] Keying file statuses by pipeline and name...');
+    const columns = (db.prepare('PRAGMA table_info(file_statuses)').all() as { name: string }[]).map(c => c.name).join(', ');
+    db.transaction(() => {
+        db.exec(`CREATE TABLE file_statuses_by_pipeline (${FILE_STATUSES_COLUMNS})`);
+        db.exec(`INSERT INTO file_statuses_by_pipeline (${columns}) SELECT ${columns} FROM file_statuses`);
+        db.exec('DROP TABLE file_statuses');
+        db.exec('ALTER TABLE file_statuses_by_pipeline RENAME TO file_statuses');
+    })();
+}
+
 function migrateDataFromJson(db: Database.Database) {
     console.log('[DB] Checking if data migration is needed...');
     if (!fs.existsSync(jsonDbPath)) {
@@ -28,7 +89,7 @@ function migrateDataFromJson(db: Database.Database) {
     
     try {
         const jsonString = fs.readFileSync(jsonDbPath, 'utf-8');
-        const jsonData: JsonDatabase = JSON.parse(jsonString);
+        const jsonData: LegacyJsonDatabase = JSON.parse(jsonString);
 
         db.transaction(() => {
             // Clean tables before migrating
@@ -66,7 +127,7 @@ function migrateDataFromJson(db: Database.Database) {
             console.log('[DB] Migrated application settings.');
 
             // File Statuses
-            const insertStatus = db.prepare('INSERT OR REPLACE INTO file_statuses (id, name, status, source, lastUpdated, remarks) VALUES (?, ?, ?, ?, ?, ?)');
+            const insertStatus = db.prepare('INSERT OR REPLACE INTO file_statuses (id, name, status, source, lastUpdated, remarks, pipelineId) VALUES (?, ?, ?, ?, ?, ?, ?)');
             jsonData.fileStatuses.forEach(status => {
                 insertStatus.run(
                     status.id,
@@ -74,7 +135,8 @@ function migrateDataFromJson(db: Database.Database) {
                     status.status,
                     status.source,
                     status.lastUpdated,
-                    status.remarks || null
+                    status.remarks || null,
+                    DEFAULT_PIPELINE_ID
                 );
             });
             console.log(`[DB] Migrated ${jsonData.fileStatuses.length} file statuses.`);
@@ -113,21 +175,159 @@ const getDb = (): Database.Database => {
                 twoFactorSecret TEXT
             );
 
-            CREATE TABLE IF NOT EXISTS file_statuses (
-                id TEXT PRIMARY KEY,
-                name TEXT NOT NULL UNIQUE,
-                status TEXT NOT NULL,
-                source TEXT NOT NULL,
-                lastUpdated TEXT NOT NULL,
-                remarks TEXT
-            );
-            CREATE INDEX IF NOT EXISTS idx_file_statuses_name ON file_statuses(name);
-            CREATE INDEX IF NOT EXISTS idx_file_statuses_status ON file_statuses(status);
+            CREATE TABLE IF NOT EXISTS file_statuses (${FILE_STATUSES_COLUMNS});
 
             CREATE TABLE IF NOT EXISTS settings (
                 key TEXT PRIMARY KEY,
                 value TEXT
             );
+
+            CREATE TABLE IF NOT EXISTS file_status_events (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                fileId TEXT NOT NULL,
+                fileName TEXT NOT NULL,
+                pipelineId TEXT,
+                oldStatus TEXT,
+                newStatus TEXT,
+                actor TEXT NOT NULL,
+                timestamp TEXT NOT NULL,
+                remarks TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_file_status_events_name ON file_status_events(fileName);
+            CREATE INDEX IF NOT EXISTS idx_file_status_events_timestamp ON file_status_events(timestamp);
+
+            CREATE TABLE IF NOT EXISTS sessions (
+                id TEXT PRIMARY KEY,
+                userId TEXT NOT NULL,
+                stage TEXT NOT NULL,
+                createdAt TEXT NOT NULL,
+                expiresAt TEXT NOT NULL,
+                revokedAt TEXT,
+                userAgent TEXT,
+                ipAddress TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(userId);
+
+            CREATE TABLE IF NOT EXISTS password_history (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                userId TEXT NOT NULL,
+                passwordHash TEXT NOT NULL,
+                changedAt TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_password_history_user ON password_history(userId);
+
+            CREATE TABLE IF NOT EXISTS login_throttle (
+                key TEXT PRIMARY KEY,
+                failures INTEGER NOT NULL,
+                lastFailureAt TEXT NOT NULL,
+                lockedUntil TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS security_events (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                type TEXT NOT NULL,
+                username TEXT,
+                ipAddress TEXT,
+                actor TEXT NOT NULL,
+                timestamp TEXT NOT NULL,
+                details TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_security_events_timestamp ON security_events(timestamp);
+
+            CREATE TABLE IF NOT EXISTS recovery_codes (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                userId TEXT NOT NULL,
+                codeHash TEXT NOT NULL,
+                createdAt TEXT NOT NULL,
+                usedAt TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_recovery_codes_user ON recovery_codes(userId);
+
+            CREATE TABLE IF NOT EXISTS api_tokens (
+                id TEXT PRIMARY KEY,
+                userId TEXT NOT NULL,
+                name TEXT NOT NULL,
+                tokenHash TEXT NOT NULL UNIQUE,
+                prefix TEXT NOT NULL,
+                createdAt TEXT NOT NULL,
+                expiresAt TEXT,
+                lastUsedAt TEXT,
+                revokedAt TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(userId);
+
+            CREATE TABLE IF NOT EXISTS webhook_deliveries (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                webhookId TEXT NOT NULL,
+                eventType TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                status TEXT NOT NULL,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                createdAt TEXT NOT NULL,
+                nextAttemptAt TEXT,
+                lastAttemptAt TEXT,
+                responseStatus INTEGER,
+                error TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, nextAttemptAt);
+            CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created ON webhook_deliveries(createdAt);
+
+            CREATE TABLE IF NOT EXISTS report_runs (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                trigger TEXT NOT NULL,
+                frequency TEXT NOT NULL,
+                periodStart TEXT NOT NULL,
+                periodEnd TEXT NOT NULL,
+                recipients TEXT NOT NULL,
+                status TEXT NOT NULL,
+                error TEXT,
+                createdAt TEXT NOT NULL
+            );
+        `);
+
+        ensureColumn(db, 'file_statuses', 'pipelineId', 'TEXT');
+        const addedTimings = [
+            ensureColumn(db, 'file_statuses', 'firstSeen', 'TEXT'),
+            ensureColumn(db, 'file_statuses', 'processingStartedAt', 'TEXT'),
+            ensureColumn(db, 'file_statuses', 'completedAt', 'TEXT'),
+        ].some(Boolean);
+        if (addedTimings) {
+            // Best effort for files tracked before the timings were: take them from the event log.
+            db.exec(`
+                UPDATE file_statuses SET
+                    firstSeen = COALESCE((SELECT MIN(timestamp) FROM file_status_events e WHERE e.fileName = file_statuses.name), lastUpdated),
+                    processingStartedAt = COALESCE(
+                        (SELECT MAX(timestamp) FROM file_status_events e WHERE e.fileName = file_statuses.name AND e.newStatus = 'processing'),
+                        CASE WHEN status = 'processing' THEN lastUpdated END
+                    ),
+                    completedAt = CASE WHEN status != 'processing' THEN COALESCE(
+                        (SELECT MAX(timestamp) FROM file_status_events e WHERE e.fileName = file_statuses.name AND e.newStatus = file_statuses.status),
+                        lastUpdated
+                    ) END
+            `);
+        }
+        ensureColumn(db, 'file_statuses', 'fileSize', 'INTEGER');
+        ensureColumn(db, 'file_statuses', 'checksum', 'TEXT');
+        ensureColumn(db, 'file_statuses', 'validation', 'TEXT');
+        ensureColumn(db, 'file_statuses', 'validationDetails', 'TEXT');
+        ensureColumn(db, 'users', 'mustChangePassword', 'INTEGER DEFAULT 0');
+        ensureColumn(db, 'users', 'passwordChangedAt', 'TEXT');
+        ensureColumn(db, 'users', 'authProvider', "TEXT NOT NULL DEFAULT 'local'");
+        ensureColumn(db, 'users', 'externalId', 'TEXT');
+        db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_users_external_id ON users(authProvider, externalId) WHERE externalId IS NOT NULL');
+        // Password age is counted from the upgrade for users created before it was tracked.
+        db.prepare('UPDATE users SET passwordChangedAt = ? WHERE passwordChangedAt IS NULL').run(new Date().toISOString());
+        // Statuses recorded before pipelines existed belong to the legacy pipeline.
+        db.prepare('UPDATE file_statuses SET pipelineId = ? WHERE pipelineId IS NULL').run(DEFAULT_PIPELINE_ID);
+        keyFileStatusesByPipeline(db);
+        // Files still arriving were once stored as completed.
+        db.exec("UPDATE file_statuses SET completedAt = NULL WHERE status = 'arriving' AND completedAt IS NOT NULL");
+        db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_file_statuses_name ON file_statuses(name);
+            CREATE INDEX IF NOT EXISTS idx_file_statuses_status ON file_statuses(status);
+            CREATE INDEX IF NOT EXISTS idx_file_statuses_last_updated ON file_statuses(lastUpdated);
+            CREATE INDEX IF NOT EXISTS idx_file_statuses_pipeline ON file_statuses(pipelineId);
+            CREATE INDEX IF NOT EXISTS idx_file_statuses_completed ON file_statuses(completedAt);
         `);
         
         dbInstance = db;
@@ -153,36 +353,63 @@ async function updateSetting<T>(key: string, value: T): Promise<void> {
 }
 
 // --- USERS ---
+const toUser = (row: any): User => ({
+    ...row,
+    twoFactorRequired: !!row.twoFactorRequired,
+    mustChangePassword: !!row.mustChangePassword,
+});
+
 export async function getUsers(): Promise<User[]> {
     const db = getDb();
     const stmt = db.prepare('SELECT * FROM users');
     const rows = stmt.all() as any[];
-    return rows.map(row => ({ ...row, twoFactorRequired: !!row.twoFactorRequired })) as User[];
+    return rows.map(toUser);
 }
 
 export async function getUserById(id: string): Promise<User | null> {
     const db = getDb();
     const stmt = db.prepare('SELECT * FROM users WHERE id = ?');
     const row = stmt.get(id) as any;
-    return row ? { ...row, twoFactorRequired: !!row.twoFactorRequired } as User : null;
+    return row ? toUser(row) : null;
 }
 
 export async function getUserByUsername(username: string): Promise<User | null> {
     const db = getDb();
     const stmt = db.prepare('SELECT * FROM users WHERE username = ?');
     const row = stmt.get(username) as any;
-    return row ? { ...row, twoFactorRequired: !!row.twoFactorRequired } as User : null;
+    return row ? toUser(row) : null;
+}
+
+export async function getUserByEmail(email: string): Promise<User | null> {
+    const db = getDb();
+    const stmt = db.prepare('SELECT * FROM users WHERE email = ?');
+    const row = stmt.get(email) as any;
+    return row ? toUser(row) : null;
+}
+
+export async function getUserByExternalId(authProvider: AuthProviderId, externalId: string): Promise<User | null> {
+    const db = getDb();
+    const stmt = db.prepare('SELECT * FROM users WHERE authProvider = ? AND externalId = ?');
+    const row = stmt.get(authProvider, externalId) as any;
+    return row ? toUser(row) : null;
 }
 
 export async function addUser(user: User): Promise<{ success: boolean }> {
     const db = getDb();
     try {
-        const stmt = db.prepare('INSERT INTO users (id, username, name, email, role, password, avatar, twoFactorRequired, twoFactorSecret) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)');
-        stmt.run(
-            user.id, user.username, user.name, user.email || null, user.role, 
-            user.password || null, user.avatar || null, 
-            user.twoFactorRequired ? 1 : 0, user.twoFactorSecret || null
-        );
+        const stmt = db.prepare('INSERT INTO users (id, username, name, email, role, password, avatar, twoFactorRequired, twoFactorSecret, mustChangePassword, passwordChangedAt, authProvider, externalId) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+        db.transaction(() => {
+            stmt.run(
+                user.id, user.username, user.name, user.email || null, user.role, 
+                user.password || null, user.avatar || null, 
+                user.twoFactorRequired ? 1 : 0, user.twoFactorSecret || null,
+                user.mustChangePassword ? 1 : 0, new Date().toISOString(),
+                user.authProvider || 'local', user.externalId || null
+            );
+            if (user.password) {
+                recordPasswordHistory(db, user.id, user.password);
+            }
+        })();
         return { success: true };
     } catch (error: any) {
         if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
@@ -216,75 +443,463 @@ export async function bulkUpsertUsers(users: User[]): Promise<void> {
     transaction(users);
 }
 
+// Users are matched by id. A username or email that belongs to another user fails the whole
+// write instead of replacing that user, and the link to an external account is kept.
 export async function bulkUpsertUsersWithPasswords(users: User[]): Promise<void> {
     const db = getDb();
-    const stmt = db.prepare('INSERT OR REPLACE INTO users (id, username, name, email, role, password, avatar, twoFactorRequired, twoFactorSecret) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)');
+    const stmt = db.prepare(`
+        INSERT INTO users (id, username, name, email, role, password, avatar, twoFactorRequired, twoFactorSecret, mustChangePassword, passwordChangedAt, authProvider, externalId)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+            username = excluded.username, name = excluded.name, email = excluded.email, role = excluded.role,
+            password = excluded.password, avatar = excluded.avatar, twoFactorRequired = excluded.twoFactorRequired,
+            twoFactorSecret = excluded.twoFactorSecret, mustChangePassword = excluded.mustChangePassword,
+            passwordChangedAt = excluded.passwordChangedAt, authProvider = excluded.authProvider,
+            externalId = COALESCE(excluded.externalId, users.externalId)
+    `);
     const transaction = db.transaction((usersToInsert: User[]) => {
         for (const user of usersToInsert) {
              stmt.run(
                 user.id, user.username, user.name, user.email || null, user.role, 
-                user.password, user.avatar || null, user.twoFactorRequired ? 1 : 0, 
-                user.twoFactorSecret || null
+                user.password || null, user.avatar || null, user.twoFactorRequired ? 1 : 0, 
+                user.twoFactorSecret || null, user.mustChangePassword ? 1 : 0,
+                user.passwordChangedAt || new Date().toISOString(),
+                user.authProvider || 'local', user.externalId || null
             );
         }
     });
     transaction(users);
 }
 
-export async function updateUserPassword(userId: string, newPassword: string): Promise<void> {
+// Keeps enough previous hashes for the largest reuse history the policy allows.
+const PASSWORD_HISTORY_LIMIT = 24;
+
+function recordPasswordHistory(db: Database.Database, userId: string, passwordHash: string) {
+    db.prepare('INSERT INTO password_history (userId, passwordHash, changedAt) VALUES (?, ?, ?)').run(userId, passwordHash, new Date().toISOString());
+    db.prepare(`
+        DELETE FROM password_history WHERE userId = ? AND id NOT IN (
+            SELECT id FROM password_history WHERE userId = ? ORDER BY id DESC LIMIT ?
+        )
+    `).run(userId, userId, PASSWORD_HISTORY_LIMIT);
+}
+
+// Stores a new password hash. `mustChangePassword` marks it as temporary, so the user
+// has to replace it at their next login.
+export async function updateUserPassword(userId: string, passwordHash: string, mustChangePassword: boolean): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('UPDATE users SET password = ?, mustChangePassword = ?, passwordChangedAt = ? WHERE id = ?');
+    db.transaction(() => {
+        stmt.run(passwordHash, mustChangePassword ? 1 : 0, new Date().toISOString(), userId);
+        recordPasswordHistory(db, userId, passwordHash);
+    })();
+}
+
+// Upgrades how the current password is stored without counting as a password change.
+export async function rehashUserPassword(userId: string, passwordHash: string): Promise<void> {
     const db = getDb();
     const stmt = db.prepare('UPDATE users SET password = ? WHERE id = ?');
-    stmt.run(newPassword, userId);
+    stmt.run(passwordHash, userId);
+}
+
+export async function getPasswordHistory(userId: string, limit: number): Promise<string[]> {
+    const db = getDb();
+    const stmt = db.prepare('SELECT passwordHash FROM password_history WHERE userId = ? ORDER BY id DESC LIMIT ?');
+    return (stmt.all(userId, limit) as { passwordHash: string }[]).map(row => row.passwordHash);
 }
 
 
 export async function removeUser(userId: string): Promise<void> {
     const db = getDb();
     const stmt = db.prepare('DELETE FROM users WHERE id = ?');
-    stmt.run(userId);
+    db.transaction(() => {
+        stmt.run(userId);
+        db.prepare('DELETE FROM password_history WHERE userId = ?').run(userId);
+        db.prepare('DELETE FROM recovery_codes WHERE userId = ?').run(userId);
+        db.prepare('DELETE FROM api_tokens WHERE userId = ?').run(userId);
+    })();
+}
+
+
+// --- RECOVERY CODES ---
+// Replaces all of the user's codes, so codes from an earlier set stop working.
+export async function replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    const db = getDb();
+    const insert = db.prepare('INSERT INTO recovery_codes (userId, codeHash, createdAt, usedAt) VALUES (?, ?, ?, NULL)');
+    const createdAt = new Date().toISOString();
+    db.transaction(() => {
+        db.prepare('DELETE FROM recovery_codes WHERE userId = ?').run(userId);
+        for (const codeHash of codeHashes) {
+            insert.run(userId, codeHash, createdAt);
+        }
+    })();
+}
+
+// Marks the code as used. Returns false if it does not exist or was used before.
+export async function redeemRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const db = getDb();
+    const stmt = db.prepare('UPDATE recovery_codes SET usedAt = ? WHERE userId = ? AND codeHash = ? AND usedAt IS NULL');
+    return stmt.run(new Date().toISOString(), userId, codeHash).changes > 0;
+}
+
+export async function getRemainingRecoveryCodeCounts(): Promise<Record<string, number>> {
+    const db = getDb();
+    const stmt = db.prepare('SELECT userId, COUNT(*) as count FROM recovery_codes WHERE usedAt IS NULL GROUP BY userId');
+    const rows = stmt.all() as { userId: string; count: number }[];
+    return Object.fromEntries(rows.map(row => [row.userId, row.count]));
+}
+
+export async function deleteRecoveryCodes(userId: string): Promise<void> {
+    const db = getDb();
+    db.prepare('DELETE FROM recovery_codes WHERE userId = ?').run(userId);
+}
+
+// --- API TOKENS ---
+export async function createApiToken(token: ApiToken, tokenHash: string): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('INSERT INTO api_tokens (id, userId, name, tokenHash, prefix, createdAt, expiresAt, lastUsedAt, revokedAt) VALUES (?, ?, ?, ?, ?, ?, ?, NULL, NULL)');
+    stmt.run(token.id, token.userId, token.name, tokenHash, token.prefix, token.createdAt, token.expiresAt);
+}
+
+export async function getApiTokensForUser(userId: string): Promise<ApiToken[]> {
+    const db = getDb();
+    const stmt = db.prepare('SELECT id, userId, name, prefix, createdAt, expiresAt, lastUsedAt, revokedAt FROM api_tokens WHERE userId = ? ORDER BY createdAt DESC');
+    return stmt.all(userId) as ApiToken[];
+}
+
+export async function getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const db = getDb();
+    const stmt = db.prepare('SELECT id, userId, name, prefix, createdAt, expiresAt, lastUsedAt, revokedAt FROM api_tokens WHERE tokenHash = ?');
+    return stmt.get(tokenHash) as ApiToken || null;
+}
+
+export async function touchApiToken(id: string, lastUsedAt: string): Promise<void> {
+    const db = getDb();
+    db.prepare('UPDATE api_tokens SET lastUsedAt = ? WHERE id = ?').run(lastUsedAt, id);
+}
+
+// Only the owner's own tokens can be revoked. Returns false if there was no such active token.
+export async function revokeApiToken(id: string, userId: string): Promise<boolean> {
+    const db = getDb();
+    const stmt = db.prepare('UPDATE api_tokens SET revokedAt = ? WHERE id = ? AND userId = ? AND revokedAt IS NULL');
+    return stmt.run(new Date().toISOString(), id, userId).changes > 0;
+}
+
+// --- WEBHOOK DELIVERIES ---
+export type NewWebhookDelivery = Pick<WebhookDelivery, 'webhookId' | 'eventType' | 'payload' | 'nextAttemptAt'>;
+
+function insertWebhookDeliveries(db: Database.Database, deliveries: NewWebhookDelivery[]): number[] {
+    const stmt = db.prepare("INSERT INTO webhook_deliveries (webhookId, eventType, payload, status, attempts, createdAt, nextAttemptAt) VALUES (?, ?, ?, 'pending', 0, ?, ?)");
+    const createdAt = new Date().toISOString();
+    return deliveries.map(d => Number(stmt.run(d.webhookId, d.eventType, d.payload, createdAt, d.nextAttemptAt).lastInsertRowid));
+}
+
+export async function createWebhookDelivery(delivery: NewWebhookDelivery): Promise<WebhookDelivery> {
+    const db = getDb();
+    const [id] = insertWebhookDeliveries(db, [delivery]);
+    return db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as WebhookDelivery;
+}
+
+// Queues the deliveries for a batch of status events and moves the event cursor past the
+// batch in one transaction, so no event is delivered twice or skipped after a restart.
+export async function enqueueWebhookDeliveries(deliveries: NewWebhookDelivery[], cursor: number): Promise<void> {
+    const db = getDb();
+    db.transaction(() => {
+        insertWebhookDeliveries(db, deliveries);
+        db.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)').run('webhookCursor', JSON.stringify(cursor));
+    })();
+}
+
+export async function getWebhookCursor(): Promise<number | null> {
+    return getSetting<number | null>('webhookCursor', null);
+}
+
+export async function updateWebhookCursor(cursor: number): Promise<void> {
+    return updateSetting('webhookCursor', cursor);
+}
+
+export async function getDueWebhookDeliveries(now: string, limit: number): Promise<WebhookDelivery[]> {
+    const db = getDb();
+    const stmt = db.prepare("SELECT * FROM webhook_deliveries WHERE status = 'pending' AND nextAttemptAt <= ? ORDER BY id ASC LIMIT ?");
+    return stmt.all(now, limit) as WebhookDelivery[];
+}
+
+export async function getWebhookDeliveryById(id: number): Promise<WebhookDelivery | null> {
+    const db = getDb();
+    return db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as WebhookDelivery || null;
+}
+
+export async function getWebhookDeliveries(limit: number, webhookId?: string): Promise<WebhookDelivery[]> {
+    const db = getDb();
+    if (webhookId) {
+        return db.prepare('SELECT * FROM webhook_deliveries WHERE webhookId = ? ORDER BY id DESC LIMIT ?').all(webhookId, limit) as WebhookDelivery[];
+    }
+    return db.prepare('SELECT * FROM webhook_deliveries ORDER BY id DESC LIMIT ?').all(limit) as WebhookDelivery[];
+}
+
+export async function updateWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('UPDATE webhook_deliveries SET status = ?, attempts = ?, nextAttemptAt = ?, lastAttemptAt = ?, responseStatus = ?, error = ? WHERE id = ?');
+    stmt.run(delivery.status, delivery.attempts, delivery.nextAttemptAt, delivery.lastAttemptAt, delivery.responseStatus, delivery.error, delivery.id);
+}
+
+export async function deleteWebhookDeliveriesBefore(createdBefore: string): Promise<number> {
+    const db = getDb();
+    return db.prepare("DELETE FROM webhook_deliveries WHERE createdAt < ? AND status != 'pending'").run(createdBefore).changes;
+}
+
+// --- SESSIONS ---
+export async function createSession(session: Session): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('INSERT INTO sessions (id, userId, stage, createdAt, expiresAt, revokedAt, userAgent, ipAddress) VALUES (?, ?, ?, ?, ?, NULL, ?, ?)');
+    stmt.run(session.id, session.userId, session.stage, session.createdAt, session.expiresAt, session.userAgent || null, session.ipAddress || null);
+}
+
+export async function getSessionById(id: string): Promise<Session | null> {
+    const db = getDb();
+    const stmt = db.prepare('SELECT * FROM sessions WHERE id = ?');
+    return stmt.get(id) as Session || null;
+}
+
+export async function revokeSession(id: string): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('UPDATE sessions SET revokedAt = ? WHERE id = ? AND revokedAt IS NULL');
+    stmt.run(new Date().toISOString(), id);
+}
+
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('UPDATE sessions SET revokedAt = ? WHERE userId = ? AND id != ? AND revokedAt IS NULL');
+    stmt.run(new Date().toISOString(), userId, exceptSessionId ?? '');
+}
+
+export async function deleteExpiredSessions(): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('DELETE FROM sessions WHERE expiresAt <= ?');
+    stmt.run(new Date().toISOString());
+}
+
+
+// --- LOGIN THROTTLING ---
+export async function getLoginThrottles(keys: string[]): Promise<LoginThrottle[]> {
+    if (keys.length === 0) return [];
+    const db = getDb();
+    const stmt = db.prepare(`SELECT * FROM login_throttle WHERE key IN (${keys.map(() => '?').join(', ')})`);
+    return stmt.all(...keys) as LoginThrottle[];
+}
+
+export async function saveLoginThrottle(throttle: LoginThrottle): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('INSERT OR REPLACE INTO login_throttle (key, failures, lastFailureAt, lockedUntil) VALUES (?, ?, ?, ?)');
+    stmt.run(throttle.key, throttle.failures, throttle.lastFailureAt, throttle.lockedUntil);
+}
+
+export async function deleteLoginThrottle(key: string): Promise<boolean> {
+    const db = getDb();
+    const stmt = db.prepare('DELETE FROM login_throttle WHERE key = ?');
+    return stmt.run(key).changes > 0;
+}
+
+export async function deleteStaleLoginThrottles(lastFailureBefore: string): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('DELETE FROM login_throttle WHERE lastFailureAt < ? AND (lockedUntil IS NULL OR lockedUntil < ?)');
+    stmt.run(lastFailureBefore, new Date().toISOString());
+}
+
+export async function getLockedAccounts(): Promise<LockedAccount[]> {
+    const db = getDb();
+    const stmt = db.prepare("SELECT * FROM login_throttle WHERE key LIKE 'user:%' AND lockedUntil > ? ORDER BY lockedUntil DESC");
+    const rows = stmt.all(new Date().toISOString()) as LoginThrottle[];
+    return rows.map(row => ({
+        username: row.key.slice('user:'.length),
+        failures: row.failures,
+        lastFailureAt: row.lastFailureAt,
+        lockedUntil: row.lockedUntil!,
+    }));
+}
+
+export async function addSecurityEvent(event: Omit<SecurityEvent, 'id'>): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('INSERT INTO security_events (type, username, ipAddress, actor, timestamp, details) VALUES (?, ?, ?, ?, ?, ?)');
+    stmt.run(event.type, event.username, event.ipAddress, event.actor, event.timestamp, event.details);
+}
+
+export async function getSecurityEvents(limit: number): Promise<SecurityEvent[]> {
+    const db = getDb();
+    const stmt = db.prepare('SELECT * FROM security_events ORDER BY id DESC LIMIT ?');
+    return stmt.all(limit) as SecurityEvent[];
 }
 
 
 // --- FILE STATUSES ---
+// Every write below records the resulting status transitions in file_status_events.
+// `actor` is the username that caused the change, or 'watcher' for automated changes.
+
+function recordStatusEvents(db: Database.Database, files: FileStatus[], actor: string) {
+    const selectCurrent = db.prepare('SELECT status FROM file_statuses WHERE pipelineId = ? AND name = ?');
+    const insertEvent = db.prepare('INSERT INTO file_status_events (fileId, fileName, pipelineId, oldStatus, newStatus, actor, timestamp, remarks) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
+    for (const file of files) {
+        const pipelineId = file.pipelineId || DEFAULT_PIPELINE_ID;
+        const current = selectCurrent.get(pipelineId, file.name) as { status: FileStatus['status'] } | undefined;
+        if (current?.status === file.status) continue;
+        insertEvent.run(file.id, file.name, pipelineId, current?.status ?? null, file.status, actor, file.lastUpdated, file.remarks || null);
+    }
+}
+
+// Carries the processing timestamps over from the stored row. A file starts processing when it
+// enters 'processing' and completes when it moves on; the timestamp is the write's lastUpdated.
+// Files still arriving have not been processed, so they are not completed either.
+// Files without a stored row (new files, imported statuses) keep any timings they come with.
+function withTimings(file: FileStatus, current: FileStatus | undefined): FileStatus {
+    const processing = file.status === 'processing';
+    const pending = processing || file.status === 'arriving';
+    if (!current) {
+        return {
+            ...file,
+            firstSeen: file.firstSeen || file.lastUpdated,
+            processingStartedAt: file.processingStartedAt || (processing ? file.lastUpdated : null),
+            completedAt: pending ? null : file.completedAt || file.lastUpdated,
+        };
+    }
+    const statusChanged = current.status !== file.status;
+    return {
+        ...file,
+        firstSeen: current.firstSeen || file.lastUpdated,
+        processingStartedAt: processing && statusChanged ? file.lastUpdated : current.processingStartedAt ?? null,
+        completedAt: pending ? null : statusChanged ? file.lastUpdated : current.completedAt ?? file.lastUpdated,
+    };
+}
+
+// Content check results are only written by the watcher; other writes keep the stored ones.
+function withValidation(file: FileStatus, current: FileStatus | undefined): FileStatus {
+    return {
+        ...file,
+        fileSize: file.fileSize !== undefined ? file.fileSize : current?.fileSize ?? null,
+        checksum: file.checksum !== undefined ? file.checksum : current?.checksum ?? null,
+        validation: file.validation !== undefined ? file.validation : current?.validation ?? null,
+        validationDetails: file.validationDetails !== undefined ? file.validationDetails : current?.validationDetails ?? null,
+    };
+}
+
+function recordRemovalEvents(db: Database.Database, whereClause: string, params: unknown[], actor: string) {
+    const stmt = db.prepare(`
+        INSERT INTO file_status_events (fileId, fileName, pipelineId, oldStatus, newStatus, actor, timestamp, remarks)
+        SELECT id, name, pipelineId, status, NULL, ?, ?, NULL FROM file_statuses ${whereClause}
+    `);
+    stmt.run(actor, new Date().toISOString(), ...params);
+}
+
 export async function getFileStatuses(): Promise<FileStatus[]> {
     const db = getDb();
     const stmt = db.prepare('SELECT * FROM file_statuses ORDER BY lastUpdated DESC');
     return stmt.all() as FileStatus[];
 }
 
-export async function getFileStatusByName(name: string): Promise<FileStatus | null> {
+const FILE_STATUS_SORT_COLUMNS: Record<FileStatusSortColumn, string> = {
+    name: 'name',
+    status: 'status',
+    lastUpdated: 'lastUpdated',
+};
+
+export async function queryFileStatuses(query: FileStatusQuery): Promise<FileStatusQueryResult> {
+    const db = getDb();
+    const scope: string[] = [];
+    const scopeParams: unknown[] = [];
+    if (query.pipelineId && query.pipelineId !== 'all') {
+        scope.push('pipelineId = ?');
+        scopeParams.push(query.pipelineId);
+    }
+
+    const filters = [...scope];
+    const params = [...scopeParams];
+    if (query.status && query.status !== 'all') {
+        filters.push('status = ?');
+        params.push(query.status);
+    }
+    if (query.from) {
+        filters.push('lastUpdated >= ?');
+        params.push(query.from);
+    }
+    if (query.to) {
+        filters.push('lastUpdated < ?');
+        params.push(query.to);
+    }
+    if (query.search) {
+        filters.push("name LIKE ? ESCAPE '\\'");
+        params.push(`%${query.search.replace(/[\\%_]/g, '\\$&')}%`);
+    }
+
+    const toWhere = (clauses: string[]) => clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const where = toWhere(filters);
+    const sortColumn = FILE_STATUS_SORT_COLUMNS[query.sortBy ?? 'lastUpdated'] ?? 'lastUpdated';
+    const sortDir = query.sortDir === 'asc' ? 'ASC' : 'DESC';
+    const pageSize = Math.max(0, query.pageSize ?? 0);
+    const page = Math.max(1, query.page ?? 1);
+    const limit = pageSize > 0 ? `LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}` : '';
+
+    const files = db.prepare(`SELECT * FROM file_statuses ${where} ORDER BY ${sortColumn} ${sortDir}, id ASC ${limit}`).all(...params) as FileStatus[];
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM file_statuses ${where}`).get(...params) as { total: number };
+    const countRows = db.prepare(`SELECT status, COUNT(*) AS count FROM file_statuses ${toWhere(scope)} GROUP BY status`).all(...scopeParams) as { status: FileStatus['status'], count: number }[];
+
+    const counts: FileStatusQueryResult['counts'] = { arriving: 0, processing: 0, published: 0, failed: 0, 'timed-out': 0 };
+    for (const row of countRows) {
+        counts[row.status] = row.count;
+    }
+    return { files, total, counts };
+}
+
+export async function getFileStatus(pipelineId: string, name: string): Promise<FileStatus | null> {
     const db = getDb();
-    const stmt = db.prepare('SELECT * FROM file_statuses WHERE name = ?');
-    return stmt.get(name) as FileStatus || null;
+    const stmt = db.prepare('SELECT * FROM file_statuses WHERE pipelineId = ? AND name = ?');
+    return stmt.get(pipelineId, name) as FileStatus || null;
 }
 
-export async function upsertFileStatus(file: FileStatus): Promise<void> {
+// Every tracked file with the name, one per pipeline it passed through.
+export async function getFileStatusesByName(name: string): Promise<FileStatus[]> {
     const db = getDb();
-    const stmt = db.prepare('INSERT OR REPLACE INTO file_statuses (id, name, status, source, lastUpdated, remarks) VALUES (?, ?, ?, ?, ?, ?)');
-    stmt.run(file.id, file.name, file.status, file.source, file.lastUpdated, file.remarks || null);
+    const stmt = db.prepare('SELECT * FROM file_statuses WHERE name = ? ORDER BY lastUpdated DESC');
+    return stmt.all(name) as FileStatus[];
 }
 
-export async function bulkUpsertFileStatuses(files: FileStatus[]): Promise<void> {
+export async function upsertFileStatus(file: FileStatus, actor: string): Promise<void> {
+    return bulkUpsertFileStatuses([file], actor);
+}
+
+export async function bulkUpsertFileStatuses(files: FileStatus[], actor: string): Promise<void> {
     const db = getDb();
-    const stmt = db.prepare('INSERT OR REPLACE INTO file_statuses (id, name, status, source, lastUpdated, remarks) VALUES (?, ?, ?, ?, ?, ?)');
+    const selectCurrent = db.prepare('SELECT * FROM file_statuses WHERE pipelineId = ? AND name = ?');
+    const stmt = db.prepare('INSERT OR REPLACE INTO file_statuses (id, name, status, source, lastUpdated, remarks, pipelineId, firstSeen, processingStartedAt, completedAt, fileSize, checksum, validation, validationDetails) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
     const transaction = db.transaction((filesToInsert: FileStatus[]) => {
-        for (const file of filesToInsert) {
-            stmt.run(file.id, file.name, file.status, file.source, file.lastUpdated, file.remarks || null);
+        const timedFiles = filesToInsert.map(file => {
+            const current = selectCurrent.get(file.pipelineId || DEFAULT_PIPELINE_ID, file.name) as FileStatus | undefined;
+            return withValidation(withTimings(file, current), current);
+        });
+        recordStatusEvents(db, filesToInsert, actor);
+        for (const file of timedFiles) {
+            stmt.run(
+                file.id, file.name, file.status, file.source, file.lastUpdated, file.remarks || null, file.pipelineId || DEFAULT_PIPELINE_ID,
+                file.firstSeen, file.processingStartedAt, file.completedAt, file.fileSize, file.checksum, file.validation, file.validationDetails,
+            );
         }
     });
     transaction(files);
 }
 
-export async function deleteFileStatus(name: string): Promise<void> {
+export async function deleteFileStatus(pipelineId: string, name: string, actor: string): Promise<void> {
     const db = getDb();
-    const stmt = db.prepare('DELETE FROM file_statuses WHERE name = ?');
-    stmt.run(name);
+    const stmt = db.prepare('DELETE FROM file_statuses WHERE pipelineId = ? AND name = ?');
+    db.transaction(() => {
+        recordRemovalEvents(db, 'WHERE pipelineId = ? AND name = ?', [pipelineId, name], actor);
+        stmt.run(pipelineId, name);
+    })();
 }
 
-export async function deleteAllFileStatuses(): Promise<void> {
+export async function deleteAllFileStatuses(actor: string): Promise<void> {
     const db = getDb();
     const stmt = db.prepare('DELETE FROM file_statuses');
-    stmt.run();
+    db.transaction(() => {
+        recordRemovalEvents(db, '', [], actor);
+        stmt.run();
+    })();
 }
 
 
@@ -292,8 +907,93 @@ export async function deleteFileStatusesByAge(maxAgeMs: number): Promise<number>
     const db = getDb();
     const cutoffDate = new Date(Date.now() - maxAgeMs).toISOString();
     const stmt = db.prepare('DELETE FROM file_statuses WHERE lastUpdated <= ?');
-    const result = stmt.run(cutoffDate);
-    return result.changes;
+    // History is kept as long as the file is still on the dashboard.
+    const pruneEvents = db.prepare('DELETE FROM file_status_events WHERE timestamp <= ? AND NOT EXISTS (SELECT 1 FROM file_statuses f WHERE f.pipelineId = file_status_events.pipelineId AND f.name = file_status_events.fileName)');
+    return db.transaction(() => {
+        recordRemovalEvents(db, 'WHERE lastUpdated <= ?', [cutoffDate], 'watcher');
+        const result = stmt.run(cutoffDate);
+        pruneEvents.run(cutoffDate);
+        return result.changes;
+    })();
+}
+
+export async function getFileStatusEvents(pipelineId: string, fileName: string): Promise<FileStatusEvent[]> {
+    const db = getDb();
+    const stmt = db.prepare('SELECT * FROM file_status_events WHERE pipelineId = ? AND fileName = ? ORDER BY id ASC');
+    return stmt.all(pipelineId, fileName) as FileStatusEvent[];
+}
+
+// The events the failure analytics are built from: outcomes and retries, optionally only
+// those in [from, to).
+export async function getOutcomeEvents(from?: string, to?: string): Promise<FileStatusEvent[]> {
+    const db = getDb();
+    const stmt = db.prepare(`
+        SELECT * FROM file_status_events
+        WHERE (newStatus IN ('published', 'failed', 'timed-out') OR (newStatus = 'processing' AND oldStatus IN ('failed', 'timed-out')))
+        AND timestamp >= ? AND timestamp < ?
+        ORDER BY id ASC
+    `);
+    return stmt.all(from ?? '', to ?? '\uffff') as FileStatusEvent[];
+}
+
+export async function getLatestFileStatusEventId(): Promise<number> {
+    const db = getDb();
+    const result = db.prepare('SELECT MAX(id) AS id FROM file_status_events').get() as { id: number | null };
+    return result.id ?? 0;
+}
+
+// Events are appended by both the watcher process and the app, so tailing the table by id
+// is how either side's changes reach the dashboard stream.
+export async function getFileStatusChangesSince(afterId: number, limit: number): Promise<FileStatusChange[]> {
+    const db = getDb();
+    const events = db.prepare('SELECT * FROM file_status_events WHERE id > ? ORDER BY id ASC LIMIT ?').all(afterId, limit) as FileStatusEvent[];
+    const selectFile = db.prepare('SELECT * FROM file_statuses WHERE pipelineId = ? AND name = ?');
+    return events.map(event => ({
+        event,
+        file: (selectFile.get(event.pipelineId, event.fileName) as FileStatus | undefined) ?? null,
+    }));
+}
+
+// --- SUMMARY REPORTS ---
+// The figures below count status transitions recorded in [from, to).
+export async function getStatusCountsBetween(from: string, to: string): Promise<Partial<Record<FileStatus['status'], number>>> {
+    const db = getDb();
+    const stmt = db.prepare(`SELECT newStatus AS status, COUNT(DISTINCT pipelineId || '/' || fileName) AS count FROM file_status_events WHERE timestamp >= ? AND timestamp < ? AND newStatus IS NOT NULL GROUP BY newStatus`);
+    const rows = stmt.all(from, to) as { status: FileStatus['status']; count: number }[];
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+}
+
+export async function getTopFailureRemarksBetween(from: string, to: string, limit: number): Promise<{ remarks: string | null; count: number }[]> {
+    const db = getDb();
+    const stmt = db.prepare(`
+        SELECT NULLIF(remarks, '') AS remarks, COUNT(*) AS count FROM file_status_events
+        WHERE newStatus IN ('failed', 'timed-out') AND timestamp >= ? AND timestamp < ?
+        GROUP BY NULLIF(remarks, '') ORDER BY count DESC LIMIT ?
+    `);
+    return stmt.all(from, to, limit) as { remarks: string | null; count: number }[];
+}
+
+// Files whose current status is published and that were published in the range.
+export async function getPublishedFilesBetween(from: string, to: string): Promise<FileStatus[]> {
+    const db = getDb();
+    const stmt = db.prepare("SELECT * FROM file_statuses WHERE status = 'published' AND completedAt >= ? AND completedAt < ? ORDER BY completedAt ASC");
+    return stmt.all(from, to) as FileStatus[];
+}
+
+export async function createReportRun(run: Omit<ReportRun, 'id'>): Promise<void> {
+    const db = getDb();
+    const stmt = db.prepare('INSERT INTO report_runs (trigger, frequency, periodStart, periodEnd, recipients, status, error, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
+    stmt.run(run.trigger, run.frequency, run.periodStart, run.periodEnd, run.recipients, run.status, run.error, run.createdAt);
+}
+
+export async function getReportRuns(limit: number): Promise<ReportRun[]> {
+    const db = getDb();
+    return db.prepare('SELECT * FROM report_runs ORDER BY id DESC LIMIT ?').all(limit) as ReportRun[];
+}
+
+export async function deleteReportRunsBefore(createdBefore: string): Promise<number> {
+    const db = getDb();
+    return db.prepare('DELETE FROM report_runs WHERE createdAt < ?').run(createdBefore).changes;
 }
 
 // --- SETTINGS ---
@@ -309,21 +1009,26 @@ export async function updateBranding(settings: BrandingSettings): Promise<void>
     return updateSetting('branding', settings);
 }
 
-export async function getMonitoredPaths(): Promise<MonitoredPaths> {
-    return getSetting<MonitoredPaths>('monitoredPaths', {
-        import: { id: 'import-path', name: 'Import', path: '' },
-        failed: { id: 'failed-path', name: 'Failed', path: '' }
-    });
+export async function getPipelines(): Promise<Pipeline[]> {
+    const pipelines = await getSetting<Pipeline[] | null>('pipelines', null);
+    if (pipelines) return pipelines;
+
+    // Fall back to the single import/failed pair stored by older versions.
+    const legacyPaths = await getSetting<MonitoredPaths | null>('monitoredPaths', null);
+    if (!legacyPaths) return [];
+    const legacyExtensions = await getSetting<string[]>('monitoredExtensions', []);
+    return [{ ...legacyPaths, id: DEFAULT_PIPELINE_ID, name: 'Default', extensions: legacyExtensions }];
 }
-export async function updateMonitoredPaths(settings: MonitoredPaths): Promise<void> {
-    return updateSetting('monitoredPaths', settings);
+export async function getPipelineById(id: string): Promise<Pipeline | null> {
+    const pipelines = await getPipelines();
+    return pipelines.find(p => p.id === id) || null;
 }
-
-export async function getMonitoredExtensions(): Promise<string[]> {
-    return getSetting<string[]>('monitoredExtensions', []);
+export async function updatePipelines(pipelines: Pipeline[]): Promise<void> {
+    return updateSetting('pipelines', pipelines);
 }
-export async function updateMonitoredExtensions(extensions: string[]): Promise<void> {
-    return updateSetting('monitoredExtensions', extensions);
+// Replaces all pipelines with the single import/failed pair from an older settings backup.
+export async function importLegacyPipeline(paths: MonitoredPaths, extensions: string[]): Promise<void> {
+    return updateSetting<Pipeline[]>('pipelines', [{ ...paths, id: DEFAULT_PIPELINE_ID, name: 'Default', extensions }]);
 }
 
 export async function getCleanupSettings(): Promise<CleanupSettings> {
@@ -338,15 +1043,49 @@ export async function updateCleanupSettings(settings: CleanupSettings): Promise<
 }
 
 export async function getProcessingSettings(): Promise<ProcessingSettings> {
-    return getSetting<ProcessingSettings>('processingSettings', {
+    const settings = await getSetting<Partial<ProcessingSettings>>('processingSettings', {});
+    return {
         autoTrimInvalidChars: false,
         autoExpandPrefixes: false,
-    });
+        autoApplyRenameRules: false,
+        slaTargetMinutes: 0,
+        stabilityScans: 1,
+        ignorePatterns: ['*.part', '*.tmp', '*.crdownload'],
+        ...settings,
+    };
 }
 export async function updateProcessingSettings(settings: ProcessingSettings): Promise<void> {
     return updateSetting('processingSettings', settings);
 }
 
+export async function getFilenameRules(): Promise<FilenameRule[]> {
+    return getSetting<FilenameRule[]>('filenameRules', DEFAULT_FILENAME_RULES);
+}
+export async function updateFilenameRules(rules: FilenameRule[]): Promise<void> {
+    return updateSetting('filenameRules', rules);
+}
+
+export async function getSanitizeSteps(): Promise<SanitizeStep[]> {
+    return getSetting<SanitizeStep[]>('sanitizeSteps', DEFAULT_SANITIZE_STEPS);
+}
+export async function updateSanitizeSteps(steps: SanitizeStep[]): Promise<void> {
+    return updateSetting('sanitizeSteps', steps);
+}
+
+export async function getContentValidators(): Promise<ContentValidator[]> {
+    return getSetting<ContentValidator[]>('contentValidators', []);
+}
+export async function updateContentValidators(validators: ContentValidator[]): Promise<void> {
+    return updateSetting('contentValidators', validators);
+}
+
+export async function getNamingSchemas(): Promise<NamingSchema[]> {
+    return getSetting<NamingSchema[]>('namingSchemas', []);
+}
+export async function updateNamingSchemas(schemas: NamingSchema[]): Promise<void> {
+    return updateSetting('namingSchemas', schemas);
+}
+
 export async function getFailureRemark(): Promise<string> {
     return getSetting<string>('failureRemark', 'AUTOMATION ERROR: Contact Support');
 }
@@ -366,52 +1105,154 @@ export async function updateSmtpSettings(settings: SmtpSettings): Promise<void>
     return updateSetting('smtpSettings', settings);
 }
 
+export async function getAlertSettings(): Promise<AlertSettings> {
+    const settings = await getSetting<Partial<AlertSettings>>('alertSettings', {});
+    return { ...DEFAULT_ALERT_SETTINGS, ...settings };
+}
+export async function updateAlertSettings(settings: AlertSettings): Promise<void> {
+    return updateSetting('alertSettings', settings);
+}
+
+// Progress of the alert sender: the last status event handled by the immediate alerts and by
+// the digest, and when the last digest went out.
+export type AlertState = {
+    immediateCursor: number;
+    digestCursor: number;
+    lastDigestAt: string | null;
+};
+export async function getAlertState(): Promise<AlertState | null> {
+    return getSetting<AlertState | null>('alertState', null);
+}
+export async function updateAlertState(state: AlertState): Promise<void> {
+    return updateSetting('alertState', state);
+}
+
+export async function getReportSettings(): Promise<ReportSettings> {
+    const settings = await getSetting<Partial<ReportSettings>>('reportSettings', {});
+    return { ...DEFAULT_REPORT_SETTINGS, ...settings };
+}
+export async function updateReportSettings(settings: ReportSettings): Promise<void> {
+    return updateSetting('reportSettings', settings);
+}
+// End of the period covered by the last scheduled report, whether or not it could be sent.
+export async function getLastScheduledReportEnd(): Promise<string | null> {
+    return getSetting<string | null>('lastScheduledReportEnd', null);
+}
+export async function updateLastScheduledReportEnd(periodEnd: string): Promise<void> {
+    return updateSetting('lastScheduledReportEnd', periodEnd);
+}
+
 export async function getMaintenanceSettings(): Promise<MaintenanceSettings> {
     return getSetting<MaintenanceSettings>('maintenanceSettings', {
         enabled: false,
         message: "Maintenance in Progress\n\n{Brand Name} is currently down for maintenance. We’re performing necessary updates to improve performance and reliability. Please check back later."
     });
 }
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+    const policy = await getSetting<Partial<PasswordPolicy>>('passwordPolicy', {});
+    return { ...DEFAULT_PASSWORD_POLICY, ...policy };
+}
+export async function updatePasswordPolicy(policy: PasswordPolicy): Promise<void> {
+    return updateSetting('passwordPolicy', policy);
+}
+
 export async function updateMaintenanceSettings(settings: MaintenanceSettings): Promise<void> {
     return updateSetting('maintenanceSettings', settings);
 }
 
+export async function getLdapSettings(): Promise<LdapSettings> {
+    const settings = await getSetting<Partial<LdapSettings>>('ldapSettings', {});
+    return { ...DEFAULT_LDAP_SETTINGS, ...settings };
+}
+export async function updateLdapSettings(settings: LdapSettings): Promise<void> {
+    return updateSetting('ldapSettings', settings);
+}
+
+export async function getOidcSettings(): Promise<OidcSettings> {
+    const settings = await getSetting<Partial<OidcSettings>>('oidcSettings', {});
+    return { ...DEFAULT_OIDC_SETTINGS, ...settings };
+}
+export async function updateOidcSettings(settings: OidcSettings): Promise<void> {
+    return updateSetting('oidcSettings', settings);
+}
+
+// Webhooks hold their signing secrets, so like the sign-in providers they stay out of readDb and backups.
+export async function getWebhooks(): Promise<Webhook[]> {
+    return getSetting<Webhook[]>('webhooks', []);
+}
+export async function updateWebhooks(webhooks: Webhook[]): Promise<void> {
+    return updateSetting('webhooks', webhooks);
+}
+
+// Only custom roles are stored; the built-in ones always come from code.
+export async function getCustomRoles(): Promise<Role[]> {
+    return getSetting<Role[]>('roles', []);
+}
+export async function updateCustomRoles(roles: Role[]): Promise<void> {
+    return updateSetting('roles', roles.map(({ builtIn: _builtIn, ...role }) => role));
+}
+export async function getRoles(): Promise<Role[]> {
+    return [...BUILT_IN_ROLES, ...await getCustomRoles()];
+}
+export async function getRoleById(id: string): Promise<Role | null> {
+    const roles = await getRoles();
+    return roles.find(role => role.id === id) || null;
+}
+
 // --- Compatibility layer for old readDb/writeDb calls ---
 // This allows us to refactor actions.ts incrementally.
 export async function readDb(): Promise<JsonDatabase> {
     const [
         users,
         branding,
-        monitoredPaths,
-        monitoredExtensions,
+        pipelines,
         fileStatuses,
         cleanupSettings,
         processingSettings,
         failureRemark,
         smtpSettings,
         maintenanceSettings,
+        passwordPolicy,
+        alertSettings,
+        reportSettings,
+        filenameRules,
+        sanitizeSteps,
+        namingSchemas,
+        contentValidators,
     ] = await Promise.all([
         getUsers(),
         getBranding(),
-        getMonitoredPaths(),
-        getMonitoredExtensions(),
+        getPipelines(),
         getFileStatuses(),
         getCleanupSettings(),
         getProcessingSettings(),
         getFailureRemark(),
         getSmtpSettings(),
         getMaintenanceSettings(),
+        getPasswordPolicy(),
+        getAlertSettings(),
+        getReportSettings(),
+        getFilenameRules(),
+        getSanitizeSteps(),
+        getNamingSchemas(),
+        getContentValidators(),
     ]);
     return {
         users,
         branding,
-        monitoredPaths,
-        monitoredExtensions,
+        pipelines,
         fileStatuses,
         cleanupSettings,
         processingSettings,
         failureRemark,
         smtpSettings,
         maintenanceSettings,
+        passwordPolicy,
+        alertSettings,
+        reportSettings,
+        filenameRules,
+        sanitizeSteps,
+        namingSchemas,
+        contentValidators,
     };
 }
@@ -0,0 +1,89 @@
+import type { FileStatusEvent } from '../types';
+
+// Failure figures built from the status event log, so every failure and retry counts, not
+// just each file's current status. Shared by the statistics page and the statistics report.
+
+export type AnalyticsEvent = Pick<FileStatusEvent, 'fileName' | 'pipelineId' | 'oldStatus' | 'newStatus' | 'timestamp' | 'remarks'>;
+
+export type FailureVolume = {
+  key: string;
+  published: number;
+  failed: number;
+  timedOut: number;
+  retries: number;
+  // Share (0-1) of the files finishing in the period that failed or timed out.
+  failureRate: number | null;
+};
+
+export type FailureBreakdownRow = {
+  label: string;
+  failed: number;
+  timedOut: number;
+  total: number;
+};
+
+const isFailure = (event: AnalyticsEvent) => event.newStatus === 'failed' || event.newStatus === 'timed-out';
+
+// A retry is a failed or timed-out file going back into processing.
+const isRetry = (event: AnalyticsEvent) =>
+  event.newStatus === 'processing' && (event.oldStatus === 'failed' || event.oldStatus === 'timed-out');
+
+export function getFileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot).toLowerCase() : '(none)';
+}
+
+// The part before the first underscore, which names the upstream feed (e.g. `P1B2` in `P1B2_...`).
+export function getFilenamePrefix(fileName: string): string {
+  const underscore = fileName.indexOf('_');
+  return underscore > 0 ? fileName.slice(0, underscore).toUpperCase() : '(none)';
+}
+
+export const getFailureRemark = (event: AnalyticsEvent): string => event.remarks?.trim() || '(no remarks)';
+
+// Counts per period; getKey maps an event time to its period (e.g. its day). Sorted by key.
+export function getFailureVolume(events: AnalyticsEvent[], getKey: (date: Date) => string): FailureVolume[] {
+  const volumes: { [key: string]: FailureVolume } = {};
+  for (const event of events) {
+    const key = getKey(new Date(event.timestamp));
+    const volume = volumes[key] ||= { key, published: 0, failed: 0, timedOut: 0, retries: 0, failureRate: null };
+    if (event.newStatus === 'published') volume.published++;
+    else if (event.newStatus === 'failed') volume.failed++;
+    else if (event.newStatus === 'timed-out') volume.timedOut++;
+    else if (isRetry(event)) volume.retries++;
+  }
+  return Object.values(volumes).sort((a, b) => a.key.localeCompare(b.key)).map(volume => {
+    const failures = volume.failed + volume.timedOut;
+    const finished = failures + volume.published;
+    return { ...volume, failureRate: finished > 0 ? failures / finished : null };
+  });
+}
+
+// Failures grouped by getLabel (remark, extension, prefix...), most frequent first.
+export function getFailureBreakdown(events: AnalyticsEvent[], getLabel: (event: AnalyticsEvent) => string): FailureBreakdownRow[] {
+  const rows: { [label: string]: FailureBreakdownRow } = {};
+  for (const event of events.filter(isFailure)) {
+    const label = getLabel(event);
+    const row = rows[label] ||= { label, failed: 0, timedOut: 0, total: 0 };
+    if (event.newStatus === 'failed') row.failed++;
+    else row.timedOut++;
+    row.total++;
+  }
+  return Object.values(rows).sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+}
+
+export type FileRetries = { pipelineId: string | null; fileName: string; retries: number };
+
+// Files that were retried at least once, most retried first. A file is counted per pipeline, as
+// the same name may pass through several.
+export function getRetriesPerFile(events: AnalyticsEvent[]): FileRetries[] {
+  const retries = new Map<string, FileRetries>();
+  for (const event of events.filter(isRetry)) {
+    const key = JSON.stringify([event.pipelineId ?? null, event.fileName]);
+    const row = retries.get(key) || { pipelineId: event.pipelineId ?? null, fileName: event.fileName, retries: 0 };
+    row.retries++;
+    retries.set(key, row);
+  }
+  return [...retries.values()]
+    .sort((a, b) => b.retries - a.retries || a.fileName.localeCompare(b.fileName));
+}
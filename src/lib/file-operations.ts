@@ -0,0 +1,209 @@
+import { revalidatePath } from 'next/cache';
+import * as fs from 'fs/promises';
+import { constants } from 'fs';
+import * as path from 'path';
+import * as db from './db';
+import { findFilenameRule } from './filename-rules';
+import type { FileStatus, Pipeline } from '../types';
+
+// Moves, renames and deletes files of failed statuses. Shared by the server actions and the
+// REST API; callers check permissions and pass the name of the acting user for the audit trail.
+// A file is identified by its pipeline and name, as the same name may be tracked in several.
+
+export type FileOperationResult = { success: boolean; error?: string };
+
+// File names arrive from API clients as well as the dashboard, so anything that could
+// point outside the pipeline folders is refused.
+function isPlainFileName(name: string): boolean {
+    return !!name && name !== '.' && name !== '..' && path.basename(name) === name && !name.includes('\\');
+}
+
+const invalidFileName = (name: string): FileOperationResult => ({ success: false, error: `"${name}" is not a valid file name.` });
+
+// Looks up the pipeline of a tracked file.
+async function getPipelineForFile(pipelineId: string, fileName: string): Promise<Pipeline | null> {
+    const fileStatus = await db.getFileStatus(pipelineId, fileName);
+    if (!fileStatus) return null;
+    return db.getPipelineById(pipelineId);
+}
+
+export async function retryFile(pipelineId: string, fileName: string, username: string): Promise<FileOperationResult> {
+    if (!isPlainFileName(fileName)) return invalidFileName(fileName);
+    const pipeline = await getPipelineForFile(pipelineId, fileName);
+    if (!pipeline) {
+        return { success: false, error: `The pipeline for "${fileName}" is no longer configured.` };
+    }
+    const { import: importPath, failed: failedPath } = pipeline;
+    const oldPath = path.join(failedPath.path, fileName);
+    const newPath = path.join(importPath.path, fileName);
+
+    try {
+        await fs.access(oldPath);
+        await fs.rename(oldPath, newPath);
+
+        let fileStatus = await db.getFileStatus(pipelineId, fileName);
+        if (fileStatus) {
+            fileStatus.status = 'processing';
+            fileStatus.lastUpdated = new Date().toISOString();
+            fileStatus.remarks = `Retrying file. [user: ${username}]`;
+            await db.upsertFileStatus(fileStatus, username);
+        }
+        
+        revalidatePath('/dashboard');
+        return { success: true };
+    } catch (error: any) {
+        console.error(`Error retrying file ${fileName}:`, error);
+        if (error.code === 'EACCES') {
+             return { success: false, error: `Permission Denied: The application user does not have write permissions to move files between the 'import' and 'failed' directories. Please check folder permissions on the server.` };
+        }
+        if (error.code === 'ENOENT') {
+            return { success: false, error: `File not found in failed directory: ${fileName}` };
+        }
+        return { success: false, error: `An unexpected error occurred: ${error.message}` };
+    }
+}
+
+export async function renameFile(pipelineId: string, oldName: string, newName: string, username: string): Promise<FileOperationResult> {
+    if (!isPlainFileName(oldName)) return invalidFileName(oldName);
+    if (!isPlainFileName(newName)) return invalidFileName(newName);
+    const pipeline = await getPipelineForFile(pipelineId, oldName);
+    if (!pipeline) {
+        return { success: false, error: `The pipeline for "${oldName}" is no longer configured.` };
+    }
+    const { import: importPath, failed: failedPath } = pipeline;
+    const oldPath = path.join(failedPath.path, oldName);
+    const newPath = path.join(importPath.path, newName);
+
+    try {
+        await fs.access(oldPath);
+        try {
+            await fs.access(newPath);
+            return { success: false, error: `A file named "${newName}" already exists in the import directory.` };
+        } catch (e) {}
+
+        await fs.rename(oldPath, newPath);
+        await db.deleteFileStatus(pipelineId, oldName, username);
+        
+        const newFileStatus: FileStatus = {
+            id: `file-${Date.now()}-${Math.random()}`,
+            name: newName,
+            status: 'processing',
+            source: importPath.name,
+            lastUpdated: new Date().toISOString(),
+            remarks: `Renamed from "${oldName}" and retrying. [user: ${username}]`,
+            pipelineId: pipeline.id,
+        };
+        await db.upsertFileStatus(newFileStatus, username);
+        
+        revalidatePath('/dashboard');
+        return { success: true };
+    } catch (error: any) {
+        console.error(`Error renaming and moving file ${oldName}:`, error);
+        if (error.code === 'EACCES') {
+             return { success: false, error: `Permission Denied: The application user does not have write permissions to move files from the 'failed' to the 'import' directory. Please check folder permissions on the server.` };
+        }
+        if (error.code === 'ENOENT') {
+            return { success: false, error: `File not found to rename: ${oldName}` };
+        }
+        return { success: false, error: `An unexpected error occurred: ${error.message}` };
+    }
+}
+
+export async function deleteFailedFile(pipelineId: string, fileName: string, username: string): Promise<FileOperationResult> {
+    if (!isPlainFileName(fileName)) return invalidFileName(fileName);
+    const pipeline = await getPipelineForFile(pipelineId, fileName);
+    if (!pipeline) {
+        // Without a pipeline there is no folder to delete from; just drop the status entry.
+        await db.deleteFileStatus(pipelineId, fileName, username);
+        revalidatePath('/dashboard');
+        return { success: true, error: 'The pipeline for this file is no longer configured, but its status entry was removed.' };
+    }
+    const filePath = path.join(pipeline.failed.path, fileName);
+    
+    try {
+        await fs.unlink(filePath);
+        await db.deleteFileStatus(pipelineId, fileName, username);
+        revalidatePath('/dashboard');
+        return { success: true };
+    } catch (error: any) {
+        console.error(`Error deleting file ${fileName}:`, error);
+        if (error.code === 'ENOENT') {
+            await db.deleteFileStatus(pipelineId, fileName, username);
+            revalidatePath('/dashboard');
+            return { success: true, error: 'File was not found on disk, but its status entry was removed.' };
+        }
+         if (error.code === 'EACCES') {
+             return { success: false, error: `Permission Denied: The application user does not have write permissions to delete files from the 'failed' directory.` };
+        }
+        return { success: false, error: `An unexpected error occurred: ${error.message}` };
+    }
+}
+
+// Copies a failed file into the import folder under each name the first matching expand rule
+// gives it, then drops the original.
+export async function expandFile(pipelineId: string, fileName: string, username: string): Promise<FileOperationResult & { count?: number }> {
+    if (!isPlainFileName(fileName)) return invalidFileName(fileName);
+    const pipeline = await getPipelineForFile(pipelineId, fileName);
+    if (!pipeline) {
+        return { success: false, error: `The pipeline for "${fileName}" is no longer configured.` };
+    }
+    const { import: importPath, failed: failedPath } = pipeline;
+    const originalFilePath = path.join(failedPath.path, fileName);
+    
+    try {
+        await fs.access(originalFilePath);
+    } catch {
+        return { success: false, error: `File not found in failed directory: ${fileName}` };
+    }
+
+    const expansion = findFilenameRule(await db.getFilenameRules(), 'expand', fileName, pipeline.id);
+    if (!expansion) {
+        return { success: false, error: 'No expand rule on the settings page applies to this file name.' };
+    }
+
+    let allCopiesSucceeded = true;
+    const newFilesToUpsert: FileStatus[] = [];
+
+    for (const newFileName of expansion.fileNames) {
+        const newFilePath = path.join(importPath.path, newFileName);
+        try {
+            // Like a rename, an expansion never replaces a file already in the import folder.
+            await fs.copyFile(originalFilePath, newFilePath, constants.COPYFILE_EXCL);
+            newFilesToUpsert.push({
+                id: `file-${Date.now()}-${Math.random()}`,
+                name: newFileName,
+                status: 'processing',
+                source: importPath.name,
+                lastUpdated: new Date().toISOString(),
+                remarks: `Expanded from ${fileName} by rule "${expansion.rule.name}". [user: ${username}]`,
+                pipelineId: pipeline.id,
+            });
+        } catch (copyError: any) {
+            console.error(`[FileOps] ERROR: Failed to create copy "${newFileName}":`, copyError);
+            allCopiesSucceeded = false;
+            // Attempt to clean up the copies this expansion created
+            for (const fileToClean of newFilesToUpsert) {
+                try { await fs.unlink(path.join(importPath.path, fileToClean.name)); } catch {}
+            }
+            if (copyError.code === 'EEXIST') {
+                return { success: false, error: `A file named "${newFileName}" already exists in the import directory. Expansion aborted.` };
+            }
+            return { success: false, error: `Failed to create copy: ${newFileName}. Expansion aborted.` };
+        }
+    }
+
+    if (allCopiesSucceeded) {
+        try {
+            await fs.unlink(originalFilePath);
+            await db.deleteFileStatus(pipelineId, fileName, username);
+            await db.bulkUpsertFileStatuses(newFilesToUpsert, username);
+            revalidatePath('/dashboard');
+            return { success: true, count: expansion.fileNames.length };
+        } catch (deleteError) {
+            console.error(`[FileOps] ERROR: Failed to delete original expanded file "${fileName}":`, deleteError);
+            return { success: false, error: `Failed to delete original file after expansion.` };
+        }
+    }
+
+    return { success: false, error: 'An unknown error occurred during expansion.' };
+}
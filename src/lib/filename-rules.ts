@@ -0,0 +1,146 @@
+import type { FilenameRule, FilenameRuleAction } from '../types';
+
+// Filename conventions: which failed files are expanded into one copy per item (such as
+// `P1B2_...` into `P1_...` and `B2_...`) or renamed, and to what. Shared by the watcher, the
+// file operations, the dashboard and the rule preview on the settings page.
+
+export const DEFAULT_FILENAME_RULES: FilenameRule[] = [
+  {
+    id: 'prefix-expansion',
+    name: 'P/B/C prefix expansion',
+    enabled: true,
+    pipelineId: null,
+    action: 'expand',
+    // Four underscore-separated parts, the first made of two or more two-character prefixes.
+    pattern: '^(?<prefixes>(?:[^_]{2}){2,})_(?<rest>[^_]*_[^_]*_[^_]*?)(?<ext>\\.[^._]*)?$',
+    template: '{item}_{rest}{ext}',
+    splitGroup: 'prefixes',
+    splitSize: 2,
+    splitSeparator: '',
+    itemPattern: '^[PBC]',
+  },
+];
+
+export const BUILT_IN_PLACEHOLDERS = ['name', 'base', 'ext'];
+
+export type FilenameRuleMatch = { rule: FilenameRule; fileNames: string[] };
+
+const GROUP_NAME_PATTERN = /\(\?<([A-Za-z_$][\w$]*)>/g;
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+function compile(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+// The first capture of every match of a global pattern.
+function getCaptures(text: string, pattern: RegExp): string[] {
+  const captures: string[] = [];
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    captures.push(match[1]);
+  }
+  return captures;
+}
+
+export const getGroupNames = (pattern: string): string[] => getCaptures(pattern, GROUP_NAME_PATTERN);
+
+const isPlainFileName = (name: string) => !!name && name !== '.' && name !== '..' && !/[\/\\]/.test(name);
+
+const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot) : '';
+};
+
+const render = (template: string, values: { [key: string]: string }) =>
+  template.replace(PLACEHOLDER_PATTERN, (_, key: string) => values[key] ?? '');
+
+function splitItems(rule: FilenameRule, list: string): string[] {
+  if (rule.splitSize > 0) {
+    const items: string[] = [];
+    for (let i = 0; i < list.length; i += rule.splitSize) {
+      items.push(list.slice(i, i + rule.splitSize));
+    }
+    return items;
+  }
+  return list.split(rule.splitSeparator);
+}
+
+// Returns null when the rule is valid, otherwise the reason it cannot be used.
+export function validateFilenameRule(rule: FilenameRule): string | null {
+  const label = rule.name.trim();
+  if (!label) return 'Every filename rule needs a name.';
+  if (!rule.pattern || !compile(rule.pattern)) return `The pattern of "${label}" is not a valid regular expression.`;
+  if (!rule.template.trim()) return `"${label}" needs a template for the new file name.`;
+
+  const placeholders = [...BUILT_IN_PLACEHOLDERS, ...getGroupNames(rule.pattern)];
+  if (rule.action === 'expand') {
+    placeholders.push('item');
+    if (!getGroupNames(rule.pattern).includes(rule.splitGroup)) {
+      return `The split group of "${label}" must be a named group of its pattern, such as (?<prefixes>...).`;
+    }
+    if (!Number.isInteger(rule.splitSize) || rule.splitSize < 0) {
+      return `The split size of "${label}" must be a whole number.`;
+    }
+    if (rule.splitSize === 0 && !rule.splitSeparator) {
+      return `"${label}" needs a split size or a separator.`;
+    }
+    if (compile(rule.itemPattern) === null) {
+      return `The item pattern of "${label}" is not a valid regular expression.`;
+    }
+    if (!rule.template.includes('{item}')) {
+      return `The template of "${label}" must contain {item}, or every copy would get the same name.`;
+    }
+  }
+  const unknown = getCaptures(rule.template, PLACEHOLDER_PATTERN).find(key => !placeholders.includes(key));
+  if (unknown) {
+    return `The template of "${label}" uses {${unknown}}, which is not a named group of its pattern.`;
+  }
+  return null;
+}
+
+// The names a rule gives the file: one for a rename, two or more for an expansion. Null when
+// the rule does not apply, including when it would produce an invalid or unchanged name.
+export function applyFilenameRule(rule: FilenameRule, fileName: string): string[] | null {
+  const match = compile(rule.pattern)?.exec(fileName);
+  if (!match) return null;
+
+  const values: { [key: string]: string } = {
+    name: fileName,
+    base: fileName.slice(0, fileName.length - getExtension(fileName).length),
+    ext: getExtension(fileName),
+  };
+  for (const [key, value] of Object.entries(match.groups ?? {})) {
+    values[key] = value ?? '';
+  }
+
+  let fileNames: string[];
+  if (rule.action === 'rename') {
+    fileNames = [render(rule.template, values)];
+    if (fileNames[0] === fileName) return null;
+  } else {
+    const itemPattern = compile(rule.itemPattern);
+    const items = splitItems(rule, values[rule.splitGroup] ?? '').filter(item => item && itemPattern?.test(item));
+    fileNames = [...new Set(items.map(item => render(rule.template, { ...values, item })))];
+    if (fileNames.length < 2) return null;
+  }
+  return fileNames.every(isPlainFileName) ? fileNames : null;
+}
+
+// The first enabled rule of the pipeline with the action that applies to the file, in list order.
+export function findFilenameRule(
+  rules: FilenameRule[],
+  action: FilenameRuleAction,
+  fileName: string,
+  pipelineId: string | null | undefined
+): FilenameRuleMatch | null {
+  for (const rule of rules) {
+    if (!rule.enabled || rule.action !== action || (rule.pipelineId && rule.pipelineId !== pipelineId)) continue;
+    const fileNames = applyFilenameRule(rule, fileName);
+    if (fileNames) return { rule, fileNames };
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+import type { SanitizeStep, SanitizeStepType } from '../types';
+
+// The filename auto-fix: an ordered list of steps that turn the name of a failed file into one
+// the publishing system accepts. Shared by the watcher and the dry-run preview in the settings.
+
+export const SANITIZE_STEP_LABELS: Record<SanitizeStepType, string> = {
+  remove: 'Remove characters',
+  replace: 'Replace characters',
+  normalize: 'Unicode normalization',
+  transliterate: 'Transliterate accented characters',
+  case: 'Change case',
+  'max-length': 'Limit length',
+};
+
+export const newSanitizeStep = (type: SanitizeStepType): SanitizeStep => ({
+  id: `step-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  pattern: '[\\s]',
+  replacement: '_',
+  normalization: 'NFC',
+  case: 'lower',
+  maxLength: 100,
+});
+
+// What the auto-fix always did: drop whitespace and the characters Windows forbids.
+export const DEFAULT_SANITIZE_STEPS: SanitizeStep[] = [
+  { ...newSanitizeStep('remove'), id: 'remove-invalid', pattern: '[*"/\\\\<>:|?\\s]' },
+];
+
+// Letters that do not decompose into a base letter and a combining accent.
+const TRANSLITERATIONS: { [char: string]: string } = {
+  ß: 'ss', æ: 'ae', Æ: 'AE', œ: 'oe', Œ: 'OE', ø: 'o', Ø: 'O', đ: 'd', Đ: 'D', ł: 'l', Ł: 'L', þ: 'th', Þ: 'TH', ð: 'd', Ð: 'D',
+};
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+const SPECIAL_LETTERS = new RegExp(`[${Object.keys(TRANSLITERATIONS).join('')}]`, 'g');
+
+function compile(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'g');
+  } catch {
+    return null;
+  }
+}
+
+const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot) : '';
+};
+
+export function validateSanitizeStep(step: SanitizeStep, position: number): string | null {
+  const label = `Step ${position} (${SANITIZE_STEP_LABELS[step.type]})`;
+  if ((step.type === 'remove' || step.type === 'replace') && (!step.pattern || !compile(step.pattern))) {
+    return `${label} needs a valid regular expression, such as [\\s].`;
+  }
+  if (step.type === 'replace' && /[\/\\]/.test(step.replacement)) {
+    return `${label} cannot replace characters with a slash.`;
+  }
+  if (step.type === 'max-length' && (!Number.isInteger(step.maxLength) || step.maxLength < 1)) {
+    return `${label} needs a length of at least 1.`;
+  }
+  return null;
+}
+
+function applyStep(step: SanitizeStep, base: string, extension: string): string {
+  switch (step.type) {
+    case 'remove':
+    case 'replace': {
+      const pattern = compile(step.pattern);
+      const replacement = step.type === 'replace' ? step.replacement : '';
+      return pattern ? base.replace(pattern, () => replacement) : base;
+    }
+    case 'normalize':
+      return base.normalize(step.normalization);
+    case 'transliterate':
+      return base.normalize('NFD').replace(COMBINING_MARKS, '').replace(SPECIAL_LETTERS, char => TRANSLITERATIONS[char]).normalize('NFC');
+    case 'case':
+      return step.case === 'upper' ? base.toUpperCase() : base.toLowerCase();
+    case 'max-length':
+      // Counted in characters rather than UTF-16 units, so no character is cut in half.
+      return Array.from(base).slice(0, Math.max(1, step.maxLength - Array.from(extension).length)).join('');
+  }
+}
+
+// The file name after each step, for the dry run. The extension is kept as it is.
+export function previewSanitizeSteps(fileName: string, steps: SanitizeStep[]): string[] {
+  const extension = getExtension(fileName);
+  let base = fileName.slice(0, fileName.length - extension.length);
+  return steps.map(step => {
+    base = applyStep(step, base, extension);
+    return base + extension;
+  });
+}
+
+// The fixed file name, or the original when the steps would leave nothing of it.
+export function sanitizeFileName(fileName: string, steps: SanitizeStep[]): string {
+  const extension = getExtension(fileName);
+  const result = previewSanitizeSteps(fileName, steps).pop() ?? fileName;
+  return result.length > extension.length ? result : fileName;
+}
@@ -0,0 +1,123 @@
+import { Client, Filter, InvalidCredentialsError, type Entry, type SearchOptions, type SearchResult } from 'ldapts';
+import type { ConnectionOptions } from 'tls';
+import type { LdapSettings } from '../types';
+
+// LDAP bind authentication. Kept free of database access so it can be pointed at a local
+// OpenLDAP container, or at an in-process stub passed as `createClient`.
+
+export const DEFAULT_LDAP_SETTINGS: LdapSettings = {
+    enabled: false,
+    url: 'ldap://localhost:389',
+    startTls: false,
+    tlsRejectUnauthorized: true,
+    bindDn: '',
+    bindPassword: '',
+    searchBase: '',
+    userFilter: '(uid={username})',
+    nameAttribute: 'cn',
+    emailAttribute: 'mail',
+    groupAttribute: 'memberOf',
+    groupRoleMappings: [],
+    defaultRole: null,
+};
+
+const TIMEOUT_MS = 10 * 1000;
+
+// The part of the ldapts client used here.
+export interface LdapClient {
+    startTLS(options?: ConnectionOptions): Promise<void>;
+    bind(dn: string, password?: string): Promise<void>;
+    search(baseDn: string, options?: SearchOptions): Promise<SearchResult>;
+    unbind(): Promise<void>;
+}
+
+export type LdapClientFactory = (settings: LdapSettings) => LdapClient;
+
+export const createLdapClient: LdapClientFactory = (settings) => new Client({
+    url: settings.url,
+    timeout: TIMEOUT_MS,
+    connectTimeout: TIMEOUT_MS,
+    tlsOptions: { rejectUnauthorized: settings.tlsRejectUnauthorized },
+});
+
+// A directory user whose password has been verified.
+export type LdapIdentity = {
+    dn: string;
+    name: string | null;
+    email: string | null;
+    groups: string[];
+};
+
+function attributeValues(entry: Entry, attribute: string): string[] {
+    const value = entry[attribute];
+    if (value === undefined) return [];
+    const values = Array.isArray(value) ? value : [value];
+    return values.map(v => v.toString());
+}
+
+async function connect(settings: LdapSettings, createClient: LdapClientFactory): Promise<LdapClient> {
+    const client = createClient(settings);
+    try {
+        if (settings.startTls) {
+            await client.startTLS({ rejectUnauthorized: settings.tlsRejectUnauthorized });
+        }
+        if (settings.bindDn) {
+            await client.bind(settings.bindDn, settings.bindPassword);
+        }
+        return client;
+    } catch (error) {
+        await client.unbind().catch(() => {});
+        throw error;
+    }
+}
+
+// Connects and binds the service account, throwing if either fails.
+export async function checkLdapConnection(settings: LdapSettings, createClient: LdapClientFactory = createLdapClient): Promise<void> {
+    const client = await connect(settings, createClient);
+    await client.unbind().catch(() => {});
+}
+
+// Returns the identity of the user if the directory accepts the password, or null if the
+// user does not exist, is ambiguous or gave a wrong password. Connection and configuration
+// problems are thrown.
+export async function authenticateWithLdap(
+    settings: LdapSettings,
+    username: string,
+    password: string,
+    createClient: LdapClientFactory = createLdapClient,
+): Promise<LdapIdentity | null> {
+    // Most servers accept a bind with an empty password as an anonymous bind.
+    if (!username || !password) return null;
+
+    const client = await connect(settings, createClient);
+    try {
+        const filter = settings.userFilter.split('{username}').join(Filter.escape(username));
+        const { searchEntries } = await client.search(settings.searchBase, {
+            scope: 'sub',
+            filter,
+            attributes: [settings.nameAttribute, settings.emailAttribute, settings.groupAttribute],
+        });
+        if (searchEntries.length !== 1) {
+            if (searchEntries.length > 1) {
+                console.error(`[LDAP] The user filter matched ${searchEntries.length} entries for "${username}"; refusing to guess.`);
+            }
+            return null;
+        }
+
+        const [entry] = searchEntries;
+        try {
+            await client.bind(entry.dn, password);
+        } catch (error) {
+            if (error instanceof InvalidCredentialsError) return null;
+            throw error;
+        }
+        return {
+            dn: entry.dn,
+            name: attributeValues(entry, settings.nameAttribute)[0] || null,
+            email: attributeValues(entry, settings.emailAttribute)[0] || null,
+            groups: attributeValues(entry, settings.groupAttribute),
+        };
+    } finally {
+        await client.unbind().catch(() => {});
+    }
+}
@@ -0,0 +1,94 @@
+import * as db from './db';
+import type { LoginThrottle } from '../types';
+
+// Brute-force protection for the login flow. Failed password and 2FA attempts are counted
+// per username and per client address. After a few free attempts every further failure
+// locks the key for twice as long as the previous one, up to MAX_LOCK_MS.
+
+const USER_FREE_ATTEMPTS = 5;
+// Higher for addresses, since several users may sign in from behind the same NAT or proxy.
+const ADDRESS_FREE_ATTEMPTS = 20;
+const BASE_LOCK_MS = 30 * 1000;
+const MAX_LOCK_MS = 30 * 60 * 1000;
+// Failures are forgotten after a day without new ones.
+const FAILURE_RESET_MS = 24 * 60 * 60 * 1000;
+
+const usernameKey = (username: string) => `user:${username}`;
+const addressKey = (ipAddress: string) => `ip:${ipAddress}`;
+
+function keysFor(username: string, ipAddress: string | null): string[] {
+    return ipAddress ? [usernameKey(username), addressKey(ipAddress)] : [usernameKey(username)];
+}
+
+function lockDuration(key: string, failures: number): number {
+    const freeAttempts = key.startsWith('ip:') ? ADDRESS_FREE_ATTEMPTS : USER_FREE_ATTEMPTS;
+    if (failures < freeAttempts) return 0;
+    return Math.min(BASE_LOCK_MS * 2 ** (failures - freeAttempts), MAX_LOCK_MS);
+}
+
+// Returns how long the caller has to wait before another attempt is accepted, or 0.
+export async function getLoginRetryDelay(username: string, ipAddress: string | null): Promise<number> {
+    const now = Date.now();
+    const throttles = await db.getLoginThrottles(keysFor(username, ipAddress));
+    const lockedUntil = Math.max(0, ...throttles.map(t => (t.lockedUntil ? Date.parse(t.lockedUntil) : 0)));
+    return Math.max(0, lockedUntil - now);
+}
+
+export async function recordLoginFailure(username: string, ipAddress: string | null): Promise<void> {
+    const now = new Date();
+    await db.deleteStaleLoginThrottles(new Date(now.getTime() - FAILURE_RESET_MS).toISOString());
+
+    const keys = keysFor(username, ipAddress);
+    const existing = await db.getLoginThrottles(keys);
+    for (const key of keys) {
+        const failures = (existing.find(t => t.key === key)?.failures ?? 0) + 1;
+        const duration = lockDuration(key, failures);
+        const throttle: LoginThrottle = {
+            key,
+            failures,
+            lastFailureAt: now.toISOString(),
+            lockedUntil: duration > 0 ? new Date(now.getTime() + duration).toISOString() : null,
+        };
+        await db.saveLoginThrottle(throttle);
+
+        if (throttle.lockedUntil) {
+            const isAddress = key.startsWith('ip:');
+            console.log(`[Auth] Locked ${isAddress ? `address ${ipAddress}` : `account ${username}`} until ${throttle.lockedUntil} after ${failures} failed attempts.`);
+            await db.addSecurityEvent({
+                type: isAddress ? 'address_locked' : 'account_locked',
+                username,
+                ipAddress,
+                actor: 'system',
+                timestamp: now.toISOString(),
+                details: `${failures} failed attempts, locked until ${throttle.lockedUntil}`,
+            });
+        }
+    }
+}
+
+// Called once a login has fully succeeded. The address counter is left alone so one valid
+// account cannot be used to reset the backoff for guesses against others.
+export async function clearLoginFailures(username: string): Promise<void> {
+    await db.deleteLoginThrottle(usernameKey(username));
+}
+
+export async function unlockAccount(username: string, actor: string): Promise<boolean> {
+    const unlocked = await db.deleteLoginThrottle(usernameKey(username));
+    if (unlocked) {
+        await db.addSecurityEvent({
+            type: 'account_unlocked',
+            username,
+            ipAddress: null,
+            actor,
+            timestamp: new Date().toISOString(),
+            details: null,
+        });
+    }
+    return unlocked;
+}
+
+export function formatRetryDelay(delayMs: number): string {
+    const minutes = Math.ceil(delayMs / 60000);
+    const wait = delayMs < 60000 ? `${Math.ceil(delayMs / 1000)} seconds` : `${minutes} minute${minutes === 1 ? '' : 's'}`;
+    return `Too many failed sign-in attempts. Please try again in ${wait}.`;
+}
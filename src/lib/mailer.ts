@@ -0,0 +1,59 @@
+import nodemailer from 'nodemailer';
+import type { BrandingSettings, SmtpSettings } from '../types';
+
+// Outgoing email over the SMTP server from the settings. Used by the server actions
+// (password resets, tests) and by the watcher process (failure alerts).
+
+const LOGO_CID = 'brand-logo';
+
+export type MailMessage = {
+    to: string | string[];
+    subject: string;
+    html: string;
+    text?: string;
+    attachments?: { filename: string; path?: string; content?: string; cid?: string }[];
+};
+
+// Servers that take mail without logging in, such as a local SMTP sink, get no credentials.
+export function createMailTransport(smtpSettings: SmtpSettings) {
+    return nodemailer.createTransport({
+        host: smtpSettings.host,
+        port: smtpSettings.port,
+        secure: smtpSettings.secure,
+        auth: smtpSettings.auth.user ? smtpSettings.auth : undefined,
+    });
+}
+
+export async function sendMail(smtpSettings: SmtpSettings, branding: BrandingSettings, message: MailMessage): Promise<void> {
+    if (!smtpSettings.host) {
+        throw new Error('SMTP is not configured.');
+    }
+    const fromAddress = smtpSettings.fromAddress || smtpSettings.auth.user;
+    if (!fromAddress) {
+        throw new Error('SMTP has no sender address. Set a from address or a username.');
+    }
+    await createMailTransport(smtpSettings).sendMail({
+        from: `"${branding.brandName}" <${fromAddress}>`,
+        ...message,
+    });
+}
+
+export const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Wraps a plain-text body in a simple layout with the brand name, logo and footer. The logo
+// is attached inline, as many mail clients block data: URLs in images.
+export function renderBrandedEmail(branding: BrandingSettings, text: string): Pick<MailMessage, 'html' | 'text' | 'attachments'> {
+    const paragraphs = text.split(/\n{2,}/).map(p => `<p style="margin:0 0 16px">${escapeHtml(p).replace(/\n/g, '<br>')}</p>`).join('');
+    const logo = branding.logo ? `<img src="cid:${LOGO_CID}" alt="" style="height:32px;vertical-align:middle;margin-right:8px">` : '';
+    const html = `<div style="font-family:Arial,Helvetica,sans-serif;font-size:14px;color:#1f2937;max-width:640px">`
+        + `<div style="padding:12px 0;border-bottom:1px solid #e5e7eb;margin-bottom:16px;font-size:18px;font-weight:bold">${logo}${escapeHtml(branding.brandName)}</div>`
+        + paragraphs
+        + `<div style="padding-top:12px;border-top:1px solid #e5e7eb;color:#6b7280;font-size:12px">${escapeHtml(branding.footerText)}</div>`
+        + `</div>`;
+    return {
+        html,
+        text: `${text}\n\n--\n${branding.footerText}`,
+        attachments: branding.logo ? [{ filename: 'logo', path: branding.logo, cid: LOGO_CID }] : [],
+    };
+}
@@ -0,0 +1,153 @@
+import { format, isValid, parse } from 'date-fns';
+import type { NamingField, NamingFieldType, NamingSchema } from '../types';
+
+// Checks file names against the naming schema of their pipeline. Shared by the watcher, which
+// flags or quarantines new arrivals, the dashboard, which marks the wrong part of a name, and
+// the schema preview on the settings page.
+
+export const NAMING_FIELD_LABELS: Record<NamingFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  list: 'One of',
+  date: 'Date',
+};
+
+// Where and why a file name does not conform. start and end delimit the offending part of the
+// name; field is 1-based.
+export type NamingViolation = {
+  schema: string;
+  field: number;
+  fieldName: string;
+  start: number;
+  end: number;
+  message: string;
+};
+
+export const newNamingField = (): NamingField => ({
+  id: `field-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: '',
+  type: 'text',
+  minLength: 0,
+  maxLength: 0,
+  allowedValues: [],
+  dateFormat: 'yyyyMMdd',
+  separator: '_',
+});
+
+const isFixedLength = (field: NamingField) => field.minLength > 0 && field.minLength === field.maxLength;
+
+const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot) : '';
+};
+
+function isValidDateFormat(dateFormat: string): boolean {
+  try {
+    format(new Date(), dateFormat);
+    return !!dateFormat;
+  } catch {
+    return false;
+  }
+}
+
+export function validateNamingSchema(schema: NamingSchema): string | null {
+  const label = schema.name.trim();
+  if (!label) return 'Every naming schema needs a name.';
+  if (schema.fields.length === 0) return `"${label}" needs at least one field.`;
+  for (const [index, field] of schema.fields.entries()) {
+    const fieldLabel = `Field ${index + 1} of "${label}"`;
+    if (!field.name.trim()) return `${fieldLabel} needs a name.`;
+    if (!Number.isInteger(field.minLength) || !Number.isInteger(field.maxLength) || field.minLength < 0 || field.maxLength < 0) {
+      return `${fieldLabel} needs whole-number lengths.`;
+    }
+    if (field.maxLength > 0 && field.minLength > field.maxLength) {
+      return `${fieldLabel} has a minimum length above its maximum.`;
+    }
+    if (field.type === 'list' && field.allowedValues.length === 0) {
+      return `${fieldLabel} needs at least one allowed value.`;
+    }
+    if (field.type === 'date' && !isValidDateFormat(field.dateFormat)) {
+      return `${fieldLabel} has an invalid date format. Use date-fns tokens such as yyyyMMdd; quote other letters.`;
+    }
+    if (index < schema.fields.length - 1 && !field.separator && !isFixedLength(field)) {
+      return `${fieldLabel} needs a separator after it, or the same minimum and maximum length.`;
+    }
+  }
+  return null;
+}
+
+// The first enabled schema for the pipeline, in list order.
+export function getNamingSchema(schemas: NamingSchema[], pipelineId: string | null | undefined): NamingSchema | null {
+  return schemas.find(schema => schema.enabled && (!schema.pipelineId || schema.pipelineId === pipelineId)) ?? null;
+}
+
+// Why a field value is invalid, or null if it is fine.
+function checkFieldValue(field: NamingField, value: string, separators: string[]): string | null {
+  if (!value) return 'it is empty';
+  const separator = separators.find(s => value.includes(s));
+  if (separator) return `"${value}" contains "${separator}"; the name has more parts than the schema`;
+  const length = Array.from(value).length;
+  if (field.minLength > 0 && length < field.minLength) return `"${value}" is shorter than ${field.minLength} characters`;
+  if (field.maxLength > 0 && length > field.maxLength) return `"${value}" is longer than ${field.maxLength} characters`;
+  switch (field.type) {
+    case 'number':
+      return /^\d+$/.test(value) ? null : `"${value}" is not a number`;
+    case 'list':
+      return field.allowedValues.some(allowed => allowed.toLowerCase() === value.toLowerCase())
+        ? null
+        : `"${value}" is not one of ${field.allowedValues.join(', ')}`;
+    case 'date': {
+      // The round trip rejects dates that parse loosely, such as month 13 rolling over.
+      const date = parse(value, field.dateFormat, new Date());
+      return isValid(date) && format(date, field.dateFormat) === value ? null : `"${value}" is not a ${field.dateFormat} date`;
+    }
+    default:
+      return null;
+  }
+}
+
+// The first problem with the file name under the schema, or null if it conforms.
+export function checkFileName(fileName: string, schema: NamingSchema): NamingViolation | null {
+  const base = fileName.slice(0, fileName.length - getExtension(fileName).length);
+  const separators = schema.fields.map(field => field.separator).filter(Boolean);
+  let position = 0;
+
+  for (const [index, field] of schema.fields.entries()) {
+    const isLast = index === schema.fields.length - 1;
+    let end: number;
+    let problem: string | null = null;
+    if (isLast) {
+      end = base.length;
+    } else if (field.separator) {
+      end = base.indexOf(field.separator, position);
+      if (end === -1) {
+        end = base.length;
+        problem = `no "${field.separator}" after it; the name has fewer parts than the schema`;
+      }
+    } else {
+      end = Math.min(base.length, position + field.maxLength);
+    }
+
+    const value = base.slice(position, end);
+    problem ??= checkFieldValue(field, value, field.separator || isLast ? separators : []);
+    if (problem) {
+      return {
+        schema: schema.name,
+        field: index + 1,
+        fieldName: field.name,
+        // An empty part is marked by the character before it.
+        start: end > position ? position : Math.max(0, position - 1),
+        end: Math.max(end, Math.min(position, base.length)),
+        message: `field ${index + 1} '${field.name}' invalid: ${problem}`,
+      };
+    }
+    position = end + field.separator.length;
+  }
+  return null;
+}
+
+// The violation of the file name under its pipeline's schema, if the pipeline has one.
+export function findNamingViolation(fileName: string, schemas: NamingSchema[], pipelineId: string | null | undefined): NamingViolation | null {
+  const schema = getNamingSchema(schemas, pipelineId);
+  return schema ? checkFileName(fileName, schema) : null;
+}
@@ -0,0 +1,110 @@
+import * as client from 'openid-client';
+import type { OidcSettings } from '../types';
+
+// OpenID Connect sign-in: the authorization code flow with PKCE. Kept free of database access;
+// the route handlers under /api/auth/oidc hold the request state in a short-lived cookie.
+
+export const DEFAULT_OIDC_SETTINGS: OidcSettings = {
+    enabled: false,
+    displayName: 'Single Sign-On',
+    issuerUrl: '',
+    clientId: '',
+    clientSecret: '',
+    scopes: 'openid profile email',
+    usernameClaim: 'preferred_username',
+    nameClaim: 'name',
+    emailClaim: 'email',
+    groupsClaim: 'groups',
+    groupRoleMappings: [],
+    defaultRole: null,
+};
+
+export const OIDC_CALLBACK_PATH = '/api/auth/oidc/callback';
+
+// What the callback needs to check the response against the request that started it.
+export type OidcPendingLogin = {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    redirectUri: string;
+};
+
+// The signed-in user as described by the identity provider.
+export type OidcIdentity = {
+    subject: string;
+    username: string | null;
+    name: string | null;
+    email: string | null;
+    groups: string[];
+};
+
+export async function discoverOidcProvider(settings: OidcSettings): Promise<client.Configuration> {
+    const issuer = new URL(settings.issuerUrl);
+    // Plain HTTP is only accepted when the admin configured an http:// issuer, e.g. a local mock server.
+    const execute = issuer.protocol === 'http:' ? [client.allowInsecureRequests] : [];
+    const clientAuth = settings.clientSecret ? client.ClientSecretBasic(settings.clientSecret) : client.None();
+    return client.discovery(issuer, settings.clientId, undefined, clientAuth, { execute });
+}
+
+export async function createOidcAuthorizationRequest(
+    config: client.Configuration,
+    settings: OidcSettings,
+    redirectUri: string,
+): Promise<{ url: URL; pending: OidcPendingLogin }> {
+    const pending: OidcPendingLogin = {
+        state: client.randomState(),
+        nonce: client.randomNonce(),
+        codeVerifier: client.randomPKCECodeVerifier(),
+        redirectUri,
+    };
+    const url = client.buildAuthorizationUrl(config, {
+        redirect_uri: redirectUri,
+        scope: settings.scopes,
+        state: pending.state,
+        nonce: pending.nonce,
+        code_challenge: await client.calculatePKCECodeChallenge(pending.codeVerifier),
+        code_challenge_method: 'S256',
+    });
+    return { url, pending };
+}
+
+function claimValues(claims: Record<string, unknown>, claim: string): string[] {
+    const value = claims[claim];
+    if (value === undefined || value === null) return [];
+    const values = Array.isArray(value) ? value : [value];
+    return values.filter(v => typeof v === 'string' || typeof v === 'number').map(String);
+}
+
+// Exchanges the code from the callback URL for tokens and returns the identity they carry.
+// Claims missing from the ID token are taken from the userinfo endpoint, where many
+// providers put profile and group claims.
+export async function completeOidcAuthorization(
+    config: client.Configuration,
+    settings: OidcSettings,
+    callbackUrl: URL,
+    pending: OidcPendingLogin,
+): Promise<OidcIdentity> {
+    // The token request must repeat the exact redirect URI of the authorization request.
+    const currentUrl = new URL(pending.redirectUri);
+    currentUrl.search = callbackUrl.search;
+    const tokens = await client.authorizationCodeGrant(config, currentUrl, {
+        pkceCodeVerifier: pending.codeVerifier,
+        expectedState: pending.state,
+        expectedNonce: pending.nonce,
+        idTokenExpected: true,
+    });
+    const idTokenClaims = tokens.claims()!;
+    let claims: Record<string, unknown> = { ...idTokenClaims };
+    if (config.serverMetadata().userinfo_endpoint) {
+        const userInfo = await client.fetchUserInfo(config, tokens.access_token, idTokenClaims.sub);
+        claims = { ...userInfo, ...claims };
+    }
+
+    return {
+        subject: idTokenClaims.sub,
+        username: claimValues(claims, settings.usernameClaim)[0] || null,
+        name: claimValues(claims, settings.nameClaim)[0] || null,
+        email: claimValues(claims, settings.emailClaim)[0] || null,
+        groups: claimValues(claims, settings.groupsClaim),
+    };
+}
@@ -0,0 +1,45 @@
+import type { PasswordPolicy } from '../types';
+
+// Shared by the server actions, which enforce the policy, and the password forms,
+// which show the same rules while the user types.
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 12,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  historyCount: 5,
+  maxAgeDays: 0,
+};
+
+// A rule without `isMet` can only be checked on the server (password reuse).
+export type PasswordRule = {
+  label: string;
+  isMet?: (password: string) => boolean;
+};
+
+export function getPasswordRules(policy: PasswordPolicy): PasswordRule[] {
+  const rules: PasswordRule[] = [
+    { label: `At least ${policy.minLength} characters`, isMet: password => password.length >= policy.minLength },
+  ];
+  if (policy.requireUppercase) rules.push({ label: 'An uppercase letter', isMet: password => /[A-Z]/.test(password) });
+  if (policy.requireLowercase) rules.push({ label: 'A lowercase letter', isMet: password => /[a-z]/.test(password) });
+  if (policy.requireNumber) rules.push({ label: 'A number', isMet: password => /[0-9]/.test(password) });
+  if (policy.requireSymbol) rules.push({ label: 'A symbol', isMet: password => /[^A-Za-z0-9]/.test(password) });
+  if (policy.historyCount > 0) rules.push({ label: `Not one of your last ${policy.historyCount} passwords` });
+  return rules;
+}
+
+// Returns the labels of the rules the password breaks; an empty list means it is acceptable.
+export function validatePassword(password: string, policy: PasswordPolicy): string[] {
+  return getPasswordRules(policy)
+    .filter(rule => rule.isMet && !rule.isMet(password))
+    .map(rule => rule.label);
+}
+
+export function isPasswordExpired(passwordChangedAt: string | null | undefined, policy: PasswordPolicy): boolean {
+  if (policy.maxAgeDays <= 0 || !passwordChangedAt) return false;
+  const ageMs = Date.now() - new Date(passwordChangedAt).getTime();
+  return ageMs > policy.maxAgeDays * 24 * 60 * 60 * 1000;
+}
@@ -0,0 +1,92 @@
+import { randomBytes, randomInt, scrypt, timingSafeEqual } from 'crypto';
+import type { PasswordPolicy } from '../types';
+
+// Password hashing for stored user credentials. Hashes are self-describing strings:
+//   scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+// so the cost parameters can be raised later and old hashes upgraded on the next login.
+
+const HASH_PREFIX = 'scrypt';
+const COST = 2 ** 15;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+type ScryptParams = { N: number; r: number; p: number };
+
+function deriveKey(password: string, salt: Buffer, params: ScryptParams): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        // scrypt needs 128 * N * r bytes of memory, which exceeds Node's 32 MB default at these costs.
+        const maxmem = 256 * params.N * params.r;
+        scrypt(password, salt, KEY_LENGTH, { ...params, maxmem }, (error, key) => {
+            if (error) reject(error);
+            else resolve(key);
+        });
+    });
+}
+
+export function isPasswordHash(value: string | null | undefined): boolean {
+    return !!value && value.startsWith(`${HASH_PREFIX}$`) && value.split('$').length === 6;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const params = { N: COST, r: BLOCK_SIZE, p: PARALLELIZATION };
+    const key = await deriveKey(password, salt, params);
+    return [HASH_PREFIX, params.N, params.r, params.p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+// Checks a password against what is stored for the user. `needsRehash` is set when the
+// stored value is a legacy plaintext password or a hash made with outdated parameters,
+// so the caller can store a fresh hash while it still has the plaintext at hand.
+export async function verifyPassword(password: string, stored: string | null | undefined): Promise<{ valid: boolean; needsRehash: boolean }> {
+    if (!stored) {
+        return { valid: false, needsRehash: false };
+    }
+
+    if (!isPasswordHash(stored)) {
+        const expected = Buffer.from(stored);
+        const actual = Buffer.from(password);
+        const valid = expected.length === actual.length && timingSafeEqual(expected, actual);
+        return { valid, needsRehash: valid };
+    }
+
+    const [, N, r, p, salt, hash] = stored.split('$');
+    const params = { N: Number(N), r: Number(r), p: Number(p) };
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await deriveKey(password, Buffer.from(salt, 'base64'), params);
+    const valid = expected.length === actual.length && timingSafeEqual(expected, actual);
+    const outdated = params.N !== COST || params.r !== BLOCK_SIZE || params.p !== PARALLELIZATION;
+    return { valid, needsRehash: valid && outdated };
+}
+
+const TEMPORARY_PASSWORD_ALPHABETS = {
+    upper: 'ABCDEFGHJKLMNPQRSTUVWXYZ',
+    lower: 'abcdefghijkmnopqrstuvwxyz',
+    number: '23456789',
+    symbol: '!@#$%^&*-_=+?',
+};
+
+// Generates a random one-time password that satisfies the policy. Look-alike characters
+// are left out since the password is read from an email and typed in by hand.
+export function generateTemporaryPassword(policy: PasswordPolicy): string {
+    const length = Math.max(policy.minLength, 16);
+    const required = [
+        policy.requireUppercase && TEMPORARY_PASSWORD_ALPHABETS.upper,
+        policy.requireLowercase && TEMPORARY_PASSWORD_ALPHABETS.lower,
+        policy.requireNumber && TEMPORARY_PASSWORD_ALPHABETS.number,
+        policy.requireSymbol && TEMPORARY_PASSWORD_ALPHABETS.symbol,
+    ].filter((alphabet): alphabet is string => !!alphabet);
+    const all = Object.values(TEMPORARY_PASSWORD_ALPHABETS).join('');
+
+    const chars = required.map(alphabet => alphabet[randomInt(alphabet.length)]);
+    while (chars.length < length) {
+        chars.push(all[randomInt(all.length)]);
+    }
+    // Shuffle so the required characters are not always at the front.
+    for (let i = chars.length - 1; i > 0; i--) {
+        const j = randomInt(i + 1);
+        [chars[i], chars[j]] = [chars[j], chars[i]];
+    }
+    return chars.join('');
+}
@@ -0,0 +1,38 @@
+import type { GroupRoleMapping, Permission, Role, User } from '../types';
+
+// Shared by the server actions, which enforce the permissions, and the UI, which hides
+// the controls a user is not allowed to use.
+
+export const PERMISSIONS: { id: Permission; label: string; description: string }[] = [
+    { id: 'view', label: 'View', description: 'See the dashboard, file history and statistics.' },
+    { id: 'retry', label: 'Retry', description: 'Move failed files back to the import folder.' },
+    { id: 'rename', label: 'Rename', description: 'Rename failed files and retry them.' },
+    { id: 'expand', label: 'Expand prefixes', description: 'Split failed files with combined prefixes into one file per prefix.' },
+    { id: 'delete', label: 'Delete', description: 'Delete failed files from disk.' },
+    { id: 'clear-all', label: 'Clear all', description: 'Remove every tracked file status.' },
+    { id: 'import-export', label: 'Import/export', description: 'Import and export file statuses as CSV.' },
+    { id: 'manage-users', label: 'Manage users', description: 'Add, edit and remove users, reset their passwords and 2FA, and define roles.' },
+    { id: 'manage-settings', label: 'Manage settings', description: 'Change pipelines, branding, email, maintenance mode and other settings.' },
+];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSIONS.map(permission => permission.id);
+
+export const BUILT_IN_ROLES: Role[] = [
+    { id: 'admin', name: 'Admin', permissions: ALL_PERMISSIONS, builtIn: true },
+    { id: 'user', name: 'User', permissions: ['view', 'retry', 'rename', 'expand'], builtIn: true },
+];
+
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+    return !!user?.permissions?.includes(permission);
+}
+
+// The role of the first mapping whose group the user is in, else the default role. Used for
+// LDAP and OIDC groups; null means the user may not sign in.
+export function resolveMappedRole(
+    settings: { groupRoleMappings: GroupRoleMapping[]; defaultRole: string | null },
+    groups: string[],
+): string | null {
+    const memberOf = new Set(groups.map(group => group.trim().toLowerCase()));
+    const mapping = settings.groupRoleMappings.find(m => memberOf.has(m.group.trim().toLowerCase()));
+    return mapping ? mapping.role : settings.defaultRole;
+}
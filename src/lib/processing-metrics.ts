@@ -0,0 +1,49 @@
+import type { FileStatus } from '../types';
+
+// Time-to-publish figures, shared by the statistics page and the summary report emails.
+
+export type DurationSummary = {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  // Share (0-1) of files published within the SLA target, or null without a target.
+  withinSla: number | null;
+};
+
+// Milliseconds from entering 'processing' to being published, or null if unknown.
+export function getTimeToPublish(file: FileStatus): number | null {
+  if (file.status !== 'published' || !file.processingStartedAt || !file.completedAt) {
+    return null;
+  }
+  return Math.max(0, Date.parse(file.completedAt) - Date.parse(file.processingStartedAt));
+}
+
+// Nearest-rank percentile of values sorted in ascending order.
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function summarizeDurations(durations: number[], slaTargetMinutes: number): DurationSummary | null {
+  if (durations.length === 0) {
+    return null;
+  }
+  const sorted = [...durations].sort((a, b) => a - b);
+  const slaTargetMs = slaTargetMinutes * 60 * 1000;
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    withinSla: slaTargetMs > 0 ? sorted.filter(d => d <= slaTargetMs).length / sorted.length : null,
+  };
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  return [days && `${days}d`, hours && `${hours}h`, minutes % 60 && `${minutes % 60}m`].filter(Boolean).join(' ');
+}
@@ -0,0 +1,20 @@
+import { createHash, randomInt } from 'crypto';
+
+// One-time codes that stand in for the authenticator app when it is lost. They are random
+// enough (about 49 bits each) that a plain SHA-256 is a safe way to store them.
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+const randomChunk = (length: number) =>
+    Array.from({ length }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]).join('');
+
+export function generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => `${randomChunk(5)}-${randomChunk(5)}`);
+}
+
+// Codes are matched regardless of case, spaces and dashes, as they are typed in by hand.
+export function hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+}
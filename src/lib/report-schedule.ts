@@ -0,0 +1,41 @@
+import { getZonedParts, zonedTimeToDate } from './time-zones';
+import type { ReportSettings } from '../types';
+
+// When scheduled reports are due, worked out in the report's time zone. Shared by the watcher,
+// which sends the reports, and the settings page, which shows the next run.
+
+export const DEFAULT_REPORT_SETTINGS: ReportSettings = {
+  enabled: false,
+  frequency: 'daily',
+  time: '08:00',
+  dayOfWeek: 1,
+  timeZone: 'UTC',
+  recipients: [],
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidReportTime = (time: string): boolean => TIME_PATTERN.test(time);
+
+// The most recent time the report was scheduled for, at or before now, and the start of
+// the day or week it covers.
+export function getLastScheduledReport(settings: ReportSettings, now: Date): { periodStart: Date; periodEnd: Date } {
+  const [hour, minute] = settings.time.split(':').map(Number);
+  const local = getZonedParts(now, settings.timeZone);
+  let daysBack = local.hour * 60 + local.minute < hour * 60 + minute ? 1 : 0;
+  if (settings.frequency === 'weekly') {
+    daysBack += (local.weekday - daysBack - settings.dayOfWeek + 14) % 7;
+  }
+  const periodDays = settings.frequency === 'weekly' ? 7 : 1;
+  return {
+    periodStart: zonedTimeToDate(local.year, local.month, local.day - daysBack - periodDays, hour, minute, settings.timeZone),
+    periodEnd: zonedTimeToDate(local.year, local.month, local.day - daysBack, hour, minute, settings.timeZone),
+  };
+}
+
+export function getNextScheduledReport(settings: ReportSettings, now: Date): Date {
+  const { periodEnd } = getLastScheduledReport(settings, now);
+  const [hour, minute] = settings.time.split(':').map(Number);
+  const local = getZonedParts(periodEnd, settings.timeZone);
+  return zonedTimeToDate(local.year, local.month, local.day + (settings.frequency === 'weekly' ? 7 : 1), hour, minute, settings.timeZone);
+}
@@ -0,0 +1,212 @@
+import Papa from 'papaparse';
+import { format, parseISO, startOfWeek, startOfMonth } from 'date-fns';
+import * as db from './db';
+import { renderBrandedEmail, sendMail } from './mailer';
+import { getLastScheduledReport } from './report-schedule';
+import { formatInTimeZone } from './time-zones';
+import { formatDuration, getTimeToPublish, summarizeDurations } from './processing-metrics';
+import { getFailureBreakdown, getFailureRemark, getFailureVolume, getFileExtension, getFilenamePrefix, getRetriesPerFile, type AnalyticsEvent } from './failure-analytics';
+import type { FileStatus, Pipeline, ReportRunTrigger, ReportSettings } from '../types';
+
+// Statistics reports: the CSV download on the statistics page and the scheduled summary
+// emails, which the watcher process sends.
+
+const TOP_REMARKS = 5;
+const SLOWEST_FILES = 5;
+// A scheduled report is skipped rather than sent this long after it was due (e.g. when the
+// watcher was down), so nobody gets last week's report on Thursday.
+const MAX_REPORT_DELAY = 6 * 60 * 60 * 1000;
+const REPORT_RUN_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+const STATUS_LABELS: Record<FileStatus['status'], string> = {
+    arriving: 'Arrived',
+    processing: 'Processing',
+    published: 'Published',
+    failed: 'Failed',
+    'timed-out': 'Timed out',
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '' : `${(rate * 100).toFixed(1)}%`);
+
+// Published file counts per day, week and month and the published files, followed by the
+// failure analytics from the status events. Returns null if there is nothing to report.
+export function buildStatisticsCsv(files: FileStatus[], events: AnalyticsEvent[], pipelines: Pipeline[]): string | null {
+    const publishedFiles = files.filter(file => file.status === 'published');
+    if (publishedFiles.length === 0 && events.length === 0) {
+        return null;
+    }
+
+    const dailyCounts: { [key: string]: number } = {};
+    const weeklyCounts: { [key: string]: number } = {};
+    const monthlyCounts: { [key: string]: number } = {};
+
+    publishedFiles.forEach(file => {
+        const date = parseISO(file.lastUpdated);
+        const dailyKey = format(date, "yyyy-MM-dd");
+        const weeklyKey = format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
+        const monthlyKey = format(startOfMonth(date), "yyyy-MM");
+
+        dailyCounts[dailyKey] = (dailyCounts[dailyKey] || 0) + 1;
+        weeklyCounts[weeklyKey] = (weeklyCounts[weeklyKey] || 0) + 1;
+        monthlyCounts[monthlyKey] = (monthlyCounts[monthlyKey] || 0) + 1;
+    });
+
+    // Convert to arrays
+    const dailyData = Object.entries(dailyCounts).map(([date, count]) => ({ period: 'Daily', date, count }));
+    const weeklyData = Object.entries(weeklyCounts).map(([date, count]) => ({ period: 'Weekly', date: `Week of ${date}`, count }));
+    const monthlyData = Object.entries(monthlyCounts).map(([date, count]) => ({ period: 'Monthly', date: format(parseISO(`${date}-01`), 'MMM yyyy'), count }));
+
+    const summaryData = [...dailyData, ...weeklyData, ...monthlyData];
+
+    // Format raw data
+    const rawData = publishedFiles.map(f => ({
+        period: 'Raw Data',
+        fileName: f.name,
+        publishedDate: f.lastUpdated,
+        source: f.source,
+    }));
+
+    const summaryCsv = Papa.unparse(summaryData);
+    const rawDataCsv = Papa.unparse(rawData);
+
+    const volumeCsv = Papa.unparse([
+        ...getFailureVolume(events, date => format(date, "yyyy-MM-dd")).map(v => ({ period: 'Daily', date: v.key, ...v })),
+        ...getFailureVolume(events, date => format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd")).map(v => ({ period: 'Weekly', date: `Week of ${v.key}`, ...v })),
+        ...getFailureVolume(events, date => format(startOfMonth(date), "yyyy-MM")).map(v => ({ period: 'Monthly', date: format(parseISO(`${v.key}-01`), 'MMM yyyy'), ...v })),
+    ].map(({ period, date, published, failed, timedOut, retries, failureRate }) => ({ period, date, published, failed, timedOut, retries, failureRate: formatRate(failureRate) })), {
+        columns: ['period', 'date', 'published', 'failed', 'timedOut', 'retries', 'failureRate'],
+    });
+    const breakdownCsv = Papa.unparse([
+        ...getFailureBreakdown(events, getFailureRemark).map(row => ({ breakdown: 'Remark', ...row })),
+        ...getFailureBreakdown(events, event => getFileExtension(event.fileName)).map(row => ({ breakdown: 'Extension', ...row })),
+        ...getFailureBreakdown(events, event => getFilenamePrefix(event.fileName)).map(row => ({ breakdown: 'Prefix', ...row })),
+    ], { columns: ['breakdown', 'label', 'failed', 'timedOut', 'total'] });
+    const pipelineNames = new Map(pipelines.map(p => [p.id, p.name]));
+    const retriesCsv = Papa.unparse(getRetriesPerFile(events).map(({ pipelineId, fileName, retries }) => ({
+        pipeline: pipelineNames.get(pipelineId ?? '') ?? pipelineId, fileName, retries,
+    })), { columns: ['pipeline', 'fileName', 'retries'] });
+
+    return `STATISTICS SUMMARY\n${summaryCsv}\n\nRAW PUBLISHED DATA\n${rawDataCsv}`
+        + `\n\nFAILURE VOLUME\n${volumeCsv}\n\nFAILURE BREAKDOWN\n${breakdownCsv}\n\nRETRIES PER FILE\n${retriesCsv}`;
+}
+
+async function buildSummaryText(settings: ReportSettings, periodStart: Date, periodEnd: Date, brandName: string): Promise<string> {
+    const from = periodStart.toISOString();
+    const to = periodEnd.toISOString();
+    const [counts, remarks, published, pipelines, processingSettings] = await Promise.all([
+        db.getStatusCountsBetween(from, to),
+        db.getTopFailureRemarksBetween(from, to, TOP_REMARKS),
+        db.getPublishedFilesBetween(from, to),
+        db.getPipelines(),
+        db.getProcessingSettings(),
+    ]);
+    const timed = published
+        .map(file => ({ file, duration: getTimeToPublish(file) }))
+        .filter((t): t is { file: FileStatus; duration: number } => t.duration !== null)
+        .sort((a, b) => b.duration - a.duration);
+    const slowest = timed.slice(0, SLOWEST_FILES);
+    const durations = summarizeDurations(timed.map(t => t.duration), processingSettings.slaTargetMinutes);
+    const pipelineNames = new Map(pipelines.map(p => [p.id, p.name]));
+    const failedCount = (counts.failed ?? 0) + (counts['timed-out'] ?? 0);
+    const finishedCount = failedCount + (counts.published ?? 0);
+    const failureRate = finishedCount > 0 ? `${(failedCount / finishedCount * 100).toFixed(1)}% (${failedCount} of ${finishedCount} finished files)` : 'no files finished';
+
+    const sections = [
+        `${brandName} ${settings.frequency} report for ${formatInTimeZone(periodStart, settings.timeZone)} to ${formatInTimeZone(periodEnd, settings.timeZone)} (${settings.timeZone}).`,
+        ['Files by status:', ...(Object.keys(STATUS_LABELS) as FileStatus['status'][]).map(status => `- ${STATUS_LABELS[status]}: ${counts[status] ?? 0}`)].join('\n'),
+        `Failure rate: ${failureRate}`,
+        durations
+            ? `Time to publish: median ${formatDuration(durations.p50)}, p90 ${formatDuration(durations.p90)}, p99 ${formatDuration(durations.p99)}`
+                + (durations.withinSla !== null ? `\n${(durations.withinSla * 100).toFixed(1)}% published within the ${formatDuration(processingSettings.slaTargetMinutes * 60000)} target` : '')
+            : 'Time to publish: no files published',
+        remarks.length > 0
+            ? ['Top failure remarks:', ...remarks.map(r => `- ${r.remarks ?? '(no remarks)'}: ${r.count}`)].join('\n')
+            : 'Top failure remarks: none',
+        slowest.length > 0
+            ? ['Slowest files:', ...slowest.map(({ file, duration }) => {
+                const pipeline = pipelineNames.get(file.pipelineId ?? '') ?? file.pipelineId;
+                return `- ${file.name} (${pipeline}): ${formatDuration(duration)}, published ${formatInTimeZone(file.completedAt!, settings.timeZone)}`;
+            })].join('\n')
+            : 'Slowest files: none published',
+    ];
+    return sections.join('\n\n');
+}
+
+// Emails the summary for the period to the recipients and logs the run. Failures are logged
+// too and then rethrown.
+export async function sendSummaryReport(settings: ReportSettings, periodStart: Date, periodEnd: Date, trigger: ReportRunTrigger): Promise<void> {
+    const run = {
+        trigger,
+        frequency: settings.frequency,
+        periodStart: periodStart.toISOString(),
+        periodEnd: periodEnd.toISOString(),
+        recipients: settings.recipients.join(', '),
+    };
+    try {
+        if (settings.recipients.length === 0) {
+            throw new Error('The report has no recipients.');
+        }
+        // The attachment covers the reported period only: files published in it and its events.
+        const [branding, smtpSettings, files, events, pipelines] = await Promise.all([
+            db.getBranding(),
+            db.getSmtpSettings(),
+            db.getPublishedFilesBetween(run.periodStart, run.periodEnd),
+            db.getOutcomeEvents(run.periodStart, run.periodEnd),
+            db.getPipelines(),
+        ]);
+        const csv = buildStatisticsCsv(files, events, pipelines);
+        const text = await buildSummaryText(settings, periodStart, periodEnd, branding.brandName)
+            + (csv ? '\n\nThe statistics report for the period is attached.' : '\n\nThere was no file activity in the period, so there is no statistics report attached.');
+        const email = renderBrandedEmail(branding, text);
+        const title = settings.frequency === 'weekly' ? 'Weekly' : 'Daily';
+        await sendMail(smtpSettings, branding, {
+            to: settings.recipients,
+            subject: `[${branding.brandName}] ${title} summary report`,
+            ...email,
+            attachments: [
+                ...(email.attachments ?? []),
+                ...(csv ? [{ filename: `statistics-report-${periodEnd.toISOString().slice(0, 10)}.csv`, content: csv }] : []),
+            ],
+        });
+        await db.createReportRun({ ...run, status: 'sent', error: null, createdAt: new Date().toISOString() });
+        console.log(`[Reports] Sent the ${settings.frequency} report to ${settings.recipients.length} recipient(s).`);
+    } catch (error: any) {
+        await db.createReportRun({ ...run, status: 'failed', error: error.message, createdAt: new Date().toISOString() });
+        throw error;
+    }
+}
+
+// Sends the report for the latest scheduled period, once. Called by the watcher every minute.
+export async function processScheduledReports(): Promise<void> {
+    const settings = await db.getReportSettings();
+    const now = new Date();
+    const { periodStart, periodEnd } = getLastScheduledReport(settings, now);
+    const lastPeriodEnd = await db.getLastScheduledReportEnd();
+
+    // Periods that ended before the schedule was set up, or while it was off, are not sent.
+    if (!settings.enabled || !lastPeriodEnd) {
+        if (lastPeriodEnd !== periodEnd.toISOString()) {
+            await db.updateLastScheduledReportEnd(periodEnd.toISOString());
+        }
+        return;
+    }
+    if (Date.parse(lastPeriodEnd) >= periodEnd.getTime()) {
+        return;
+    }
+
+    // Marked as done first: a failed report is logged and not retried every minute.
+    await db.updateLastScheduledReportEnd(periodEnd.toISOString());
+    if (now.getTime() - periodEnd.getTime() > MAX_REPORT_DELAY) {
+        console.log(`[Reports] Skipped the ${settings.frequency} report due at ${periodEnd.toISOString()}; it is too late to send it.`);
+        return;
+    }
+    try {
+        await sendSummaryReport(settings, periodStart, periodEnd, 'schedule');
+    } catch (error: any) {
+        console.error('[Reports] Failed to send the scheduled report:', error.message);
+    }
+}
+
+export async function pruneReportRuns(): Promise<number> {
+    return db.deleteReportRunsBefore(new Date(Date.now() - REPORT_RUN_RETENTION_MS).toISOString());
+}
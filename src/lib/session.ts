@@ -0,0 +1,173 @@
+import { cookies, headers } from 'next/headers';
+import { createHash, randomBytes } from 'crypto';
+import * as db from './db';
+import type { Permission, Session, SessionStage, User } from '../types';
+import type { OidcPendingLogin } from './oidc';
+
+// Server-only session helpers used by the server actions and route handlers.
+// The browser only ever holds an opaque token in an HTTP-only cookie; who is logged in,
+// and with which permissions, is always looked up from the sessions table.
+
+const SESSION_COOKIE = 'file-tracker-session';
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+const PENDING_SESSION_TTL_MS = 10 * 60 * 1000; // 10 minutes to complete 2FA
+const OIDC_LOGIN_COOKIE = 'file-tracker-oidc';
+const OIDC_COOKIE_PATH = '/api/auth/oidc';
+
+export type AuthenticatedSession = {
+    session: Session;
+    user: User;
+    permissions: Permission[];
+};
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+// Secure cookies are only sent back over HTTPS, so they are used when the request came in
+// over HTTPS (directly or via a proxy) or when explicitly forced for the deployment.
+async function shouldUseSecureCookie(): Promise<boolean> {
+    if (process.env.SESSION_COOKIE_SECURE) {
+        return process.env.SESSION_COOKIE_SECURE === 'true';
+    }
+    const requestHeaders = await headers();
+    return requestHeaders.get('x-forwarded-proto') === 'https';
+}
+
+// Number of reverse proxies in front of the app, from TRUST_PROXY ('true' for one). Without it
+// X-Forwarded-For is not trusted, since clients can send the header themselves.
+function getTrustedProxyCount(): number {
+    const value = process.env.TRUST_PROXY;
+    if (value === 'true') return 1;
+    const count = parseInt(value ?? '', 10);
+    return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+// Address of the client as seen by the outermost trusted proxy: each proxy appends the address
+// it received the request from, so entries further left may be made up by the client. Null when
+// the app is not configured to run behind a proxy.
+export async function getClientIpAddress(): Promise<string | null> {
+    const proxyCount = getTrustedProxyCount();
+    if (proxyCount === 0) return null;
+    const requestHeaders = await headers();
+    const addresses = (requestHeaders.get('x-forwarded-for') ?? '').split(',').map(address => address.trim()).filter(Boolean);
+    return addresses[Math.max(0, addresses.length - proxyCount)] || null;
+}
+
+// Origin the browser used to reach the app, which differs from the request URL behind a proxy.
+export async function getRequestOrigin(request: Request): Promise<string> {
+    const requestHeaders = await headers();
+    const url = new URL(request.url);
+    const protocol = requestHeaders.get('x-forwarded-proto')?.split(',')[0].trim() || url.protocol.replace(':', '');
+    const host = requestHeaders.get('x-forwarded-host')?.split(',')[0].trim() || requestHeaders.get('host') || url.host;
+    return `${protocol}://${host}`;
+}
+
+// Issues a new session for the user and sets its cookie. A fresh token is issued for every
+// stage change so a token seen before the second factor never becomes a full session.
+export async function startSession(userId: string, stage: SessionStage): Promise<void> {
+    const requestHeaders = await headers();
+    const token = randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const expiresAt = new Date(now + (stage === 'active' ? SESSION_TTL_MS : PENDING_SESSION_TTL_MS));
+
+    await db.deleteExpiredSessions();
+    await db.createSession({
+        id: hashToken(token),
+        userId,
+        stage,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: expiresAt.toISOString(),
+        userAgent: requestHeaders.get('user-agent'),
+        ipAddress: await getClientIpAddress(),
+    });
+
+    const cookieStore = await cookies();
+    cookieStore.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        secure: await shouldUseSecureCookie(),
+        sameSite: 'lax',
+        path: '/',
+        expires: expiresAt,
+    });
+}
+
+// Returns the session of the current request, whatever its stage, or null if there is no
+// valid (present, unexpired, unrevoked) session.
+export async function getCurrentSession(): Promise<AuthenticatedSession | null> {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(SESSION_COOKIE)?.value;
+    if (!token) return null;
+
+    const session = await db.getSessionById(hashToken(token));
+    if (!session || session.revokedAt || Date.parse(session.expiresAt) <= Date.now()) {
+        return null;
+    }
+    const user = await db.getUserById(session.userId);
+    if (!user) return null;
+    return { session, user, permissions: await getUserPermissions(user) };
+}
+
+// Permissions come from the user's role; a user whose role was deleted has none.
+export async function getUserPermissions(user: User): Promise<Permission[]> {
+    const role = await db.getRoleById(user.role);
+    return role?.permissions ?? [];
+}
+
+export async function requireSession(permission?: Permission): Promise<AuthenticatedSession> {
+    const current = await getCurrentSession();
+    if (!current || current.session.stage !== 'active') {
+        throw new Error('Your session has expired. Please sign in again.');
+    }
+    if (permission && !current.permissions.includes(permission)) {
+        throw new Error('You do not have permission to perform this action.');
+    }
+    return current;
+}
+
+// Each login step only accepts the stage it belongs to, so no step can be skipped.
+export async function requirePendingSession(...stages: SessionStage[]): Promise<AuthenticatedSession> {
+    const current = await getCurrentSession();
+    if (!current || !stages.includes(current.session.stage)) {
+        throw new Error('Your sign-in attempt has expired. Please sign in again.');
+    }
+    return current;
+}
+
+export async function endSession(): Promise<void> {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(SESSION_COOKIE)?.value;
+    if (token) {
+        await db.revokeSession(hashToken(token));
+    }
+    cookieStore.delete(SESSION_COOKIE);
+}
+
+// Keeps what the OIDC callback has to check until the browser returns from the identity
+// provider. Scoped to the OIDC routes and only valid for one attempt.
+export async function setPendingOidcLogin(pending: OidcPendingLogin): Promise<void> {
+    const cookieStore = await cookies();
+    cookieStore.set(OIDC_LOGIN_COOKIE, JSON.stringify(pending), {
+        httpOnly: true,
+        secure: await shouldUseSecureCookie(),
+        // Lax, so the cookie is sent on the top-level redirect back from the provider.
+        sameSite: 'lax',
+        path: OIDC_COOKIE_PATH,
+        maxAge: PENDING_SESSION_TTL_MS / 1000,
+    });
+}
+
+export async function takePendingOidcLogin(): Promise<OidcPendingLogin | null> {
+    const cookieStore = await cookies();
+    const value = cookieStore.get(OIDC_LOGIN_COOKIE)?.value;
+    cookieStore.delete({ name: OIDC_LOGIN_COOKIE, path: OIDC_COOKIE_PATH });
+    try {
+        return value ? JSON.parse(value) : null;
+    } catch {
+        return null;
+    }
+}
+
+// Strips credentials before a user object is sent to the browser.
+export function toClientUser(user: User): User {
+    const { password: _password, twoFactorSecret: _secret, ...clientUser } = user;
+    return clientUser;
+}
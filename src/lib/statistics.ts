@@ -0,0 +1,209 @@
+import * as db from './db';
+import { getZonedParts, zonedTimeToDate } from './time-zones';
+import { getTimeToPublish, summarizeDurations, type DurationSummary } from './processing-metrics';
+import {
+  getFailureBreakdown,
+  getFailureRemark,
+  getFailureVolume,
+  getFileExtension,
+  getFilenamePrefix,
+  getRetriesPerFile,
+  type FailureBreakdownRow,
+  type FileRetries,
+} from './failure-analytics';
+import type { StatisticsBucket, StatisticsQuery } from '../types';
+
+// The statistics page figures for a date range, bucketed by hour, day, week or month in the
+// viewer's time zone. Only the events and files of the range are read from the database.
+
+// Keeps a year of days or six weeks of hours on one chart.
+const MAX_BUCKETS = 1000;
+
+export type StatisticsPoint = {
+  // The bucket start: yyyy-MM-ddTHH:00 for hours, yyyy-MM-dd for days and weeks (the Monday),
+  // yyyy-MM for months.
+  key: string;
+  published: number;
+  failed: number;
+  timedOut: number;
+  retries: number;
+  failureRate: number | null;
+  // Time-to-publish percentiles in milliseconds, null without published files.
+  p50: number | null;
+  p90: number | null;
+  withinSla: number | null;
+  // The bucket in the same position of the previous period, when comparing.
+  previousKey?: string;
+  previousPublished?: number;
+};
+
+export type StatisticsTotals = {
+  published: number;
+  failed: number;
+  timedOut: number;
+  retries: number;
+  failureRate: number | null;
+};
+
+export type StatisticsResult = {
+  series: StatisticsPoint[];
+  totals: StatisticsTotals;
+  previousTotals: StatisticsTotals | null;
+  durations: DurationSummary | null;
+  slaTargetMinutes: number;
+  retriesPerFile: FileRetries[];
+  failuresByRemark: FailureBreakdownRow[];
+  failuresByExtension: FailureBreakdownRow[];
+  failuresByPrefix: FailureBreakdownRow[];
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const parseDay = (day: string) => day.split('-').map(Number) as [number, number, number];
+
+// The day `days` days after day (yyyy-MM-dd), counting on the calendar rather than in hours.
+function addDays(day: string, days: number): string {
+  const [year, month, date] = parseDay(day);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+}
+
+const getDayNumber = (day: string) => {
+  const [year, month, date] = parseDay(day);
+  return Date.UTC(year, month - 1, date) / (24 * 60 * 60 * 1000);
+};
+
+export function isValidDay(day: string): boolean {
+  return DAY_PATTERN.test(day) && addDays(day, 0) === day;
+}
+
+function getDayBucketKey(day: string, bucket: Exclude<StatisticsBucket, 'hour'>): string {
+  if (bucket === 'day') return day;
+  if (bucket === 'month') return day.slice(0, 7);
+  const [year, month, date] = parseDay(day);
+  const weekday = new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+  return addDays(day, -((weekday + 6) % 7));
+}
+
+export function getBucketKey(date: Date, bucket: StatisticsBucket, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const day = `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+  return bucket === 'hour' ? `${day}T${pad(p.hour)}:00` : getDayBucketKey(day, bucket);
+}
+
+// The instants the days from..to (both included) start and end at in the time zone.
+function getRange(from: string, to: string, timeZone: string): { start: Date; end: Date } {
+  const [fromYear, fromMonth, fromDay] = parseDay(from);
+  const [toYear, toMonth, toDay] = parseDay(to);
+  return {
+    start: zonedTimeToDate(fromYear, fromMonth, fromDay, 0, 0, timeZone),
+    end: zonedTimeToDate(toYear, toMonth, toDay + 1, 0, 0, timeZone),
+  };
+}
+
+// Every bucket of the range in order, including empty ones so the charts show the gaps.
+function getBucketKeys(from: string, to: string, bucket: StatisticsBucket, timeZone: string): string[] {
+  const keys = new Set<string>();
+  if (bucket === 'hour') {
+    // Walking the instants gives 23 or 25 hours on the days the clocks change.
+    const { start, end } = getRange(from, to, timeZone);
+    for (let t = start.getTime(); t < end.getTime() && keys.size <= MAX_BUCKETS; t += 60 * 60 * 1000) {
+      keys.add(getBucketKey(new Date(t), bucket, timeZone));
+    }
+  } else {
+    for (let day = from; day <= to && keys.size <= MAX_BUCKETS; day = addDays(day, 1)) {
+      keys.add(getDayBucketKey(day, bucket));
+    }
+  }
+  if (keys.size > MAX_BUCKETS) {
+    throw new Error(`The range has more than ${MAX_BUCKETS} ${bucket}s. Choose a shorter range or a larger bucket.`);
+  }
+  return [...keys];
+}
+
+function getTotals(points: { published: number; failed: number; timedOut: number; retries: number }[]): StatisticsTotals {
+  const totals = { published: 0, failed: 0, timedOut: 0, retries: 0 };
+  for (const point of points) {
+    totals.published += point.published;
+    totals.failed += point.failed;
+    totals.timedOut += point.timedOut;
+    totals.retries += point.retries;
+  }
+  const failures = totals.failed + totals.timedOut;
+  const finished = failures + totals.published;
+  return { ...totals, failureRate: finished > 0 ? failures / finished : null };
+}
+
+async function getVolumes(from: string, to: string, bucket: StatisticsBucket, timeZone: string) {
+  const { start, end } = getRange(from, to, timeZone);
+  const events = await db.getOutcomeEvents(start.toISOString(), end.toISOString());
+  const volumes = new Map(getFailureVolume(events, date => getBucketKey(date, bucket, timeZone)).map(v => [v.key, v]));
+  return { events, volumes, start, end };
+}
+
+export async function buildStatistics(query: StatisticsQuery): Promise<StatisticsResult> {
+  const { from, to, bucket, timeZone } = query;
+  const keys = getBucketKeys(from, to, bucket, timeZone);
+  const { events, volumes, start, end } = await getVolumes(from, to, bucket, timeZone);
+  const [published, processingSettings] = await Promise.all([
+    db.getPublishedFilesBetween(start.toISOString(), end.toISOString()),
+    db.getProcessingSettings(),
+  ]);
+  const { slaTargetMinutes } = processingSettings;
+
+  const durations: { [key: string]: number[] } = {};
+  for (const file of published) {
+    const duration = getTimeToPublish(file);
+    if (duration !== null) {
+      (durations[getBucketKey(new Date(file.completedAt!), bucket, timeZone)] ||= []).push(duration);
+    }
+  }
+
+  const series: StatisticsPoint[] = keys.map(key => {
+    const volume = volumes.get(key);
+    const summary = summarizeDurations(durations[key] ?? [], slaTargetMinutes);
+    return {
+      key,
+      published: volume?.published ?? 0,
+      failed: volume?.failed ?? 0,
+      timedOut: volume?.timedOut ?? 0,
+      retries: volume?.retries ?? 0,
+      failureRate: volume?.failureRate ?? null,
+      p50: summary?.p50 ?? null,
+      p90: summary?.p90 ?? null,
+      withinSla: summary?.withinSla ?? null,
+    };
+  });
+
+  // The previous period has as many days and ends the day before from. Its buckets are lined
+  // up with the current ones by position, so the first day is compared with the first day.
+  let previousTotals: StatisticsTotals | null = null;
+  if (query.compare) {
+    const days = getDayNumber(to) - getDayNumber(from) + 1;
+    const previousFrom = addDays(from, -days);
+    const previousTo = addDays(from, -1);
+    const previousKeys = getBucketKeys(previousFrom, previousTo, bucket, timeZone);
+    const previous = await getVolumes(previousFrom, previousTo, bucket, timeZone);
+    series.forEach((point, index) => {
+      const previousKey = previousKeys[index];
+      if (previousKey) {
+        point.previousKey = previousKey;
+        point.previousPublished = previous.volumes.get(previousKey)?.published ?? 0;
+      }
+    });
+    previousTotals = getTotals([...previous.volumes.values()]);
+  }
+
+  return {
+    series,
+    totals: getTotals(series),
+    previousTotals,
+    durations: summarizeDurations(Object.values(durations).flat(), slaTargetMinutes),
+    slaTargetMinutes,
+    retriesPerFile: getRetriesPerFile(events),
+    failuresByRemark: getFailureBreakdown(events, getFailureRemark),
+    failuresByExtension: getFailureBreakdown(events, event => getFileExtension(event.fileName)),
+    failuresByPrefix: getFailureBreakdown(events, event => getFilenamePrefix(event.fileName)),
+  };
+}
@@ -0,0 +1,65 @@
+// Wall-clock arithmetic in IANA time zones (such as Europe/Berlin) using Intl, for the
+// scheduled reports and the statistics buckets.
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export type ZonedParts = { year: number; month: number; day: number; hour: number; minute: number; second: number; weekday: number };
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Creating a formatter is slow compared to using one, and statistics format every event.
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// The wall-clock date and time of an instant in the time zone.
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = partFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'long',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    partFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+// The instant at which the wall clock in the time zone shows the given date and time. The day
+// may be out of range (such as 0 or 32); it rolls over like in Date.UTC.
+export function zonedTimeToDate(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const p = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - instant;
+  };
+  // The second pass corrects the offset when the guess lands on the other side of a DST change.
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+export function formatInTimeZone(date: Date | string, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'medium', timeStyle: 'short' }).format(new Date(date));
+}
@@ -3,22 +3,47 @@
 
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import { constants, createReadStream, watch, type FSWatcher } from 'fs';
+import { createHash } from 'crypto';
 import * as db from './db';
-import type { FileStatus } from '../types';
+import { dispatchWebhookDeliveries, enqueueWebhookEvents, pruneWebhookDeliveries } from './webhooks';
+import { processAlerts } from './alerts';
+import { processScheduledReports, pruneReportRuns } from './reports';
+import { findFilenameRule, type FilenameRuleMatch } from './filename-rules';
+import { sanitizeFileName } from './filename-sanitizer';
+import { checkFileName, getNamingSchema } from './naming-schema';
+import { formatBytes, getContentValidator, matchesMagicBytes, parseChecksumSidecar, parseMagicBytes, toHex } from './content-validators';
+import type { ChecksumAlgorithm, ContentValidator, FilenameRule, FileStatus, MonitoredPath, NamingSchema, Pipeline, ProcessingSettings, SanitizeStep } from '../types';
 
 const POLLING_INTERVAL = 5000; // 5 seconds
 const CLEANUP_INTERVAL = 60000; // 1 minute
+const WATCH_DEBOUNCE = 500; // Coalesce bursts of change notifications into one scan
+const RECONCILE_INTERVAL = 60000; // Full rescan while every location is event-driven
+const WEBHOOK_INTERVAL = 5000;
+const ALERT_INTERVAL = 15000;
+const REPORT_INTERVAL = 60000;
 let isPolling = false;
 let isCleaning = false;
-
-// Helper function to clean filenames
-const cleanFileName = (fileName: string): string => {
-    const invalidCharsAndSpaces = /[*"\/\\<>:|\?\s]/g;
-    const extension = path.extname(fileName);
-    const baseName = path.basename(fileName, extension);
-    const cleanedBase = baseName.replace(invalidCharsAndSpaces, '');
-    return cleanedBase + extension;
-};
+let isSendingWebhooks = false;
+let isSendingAlerts = false;
+let isSendingReports = false;
+let pollRequested = false;
+let lastPollAt = 0;
+// Set when the last scan left files arriving, so they are rescanned even if no change is reported.
+let hasArrivingFiles = false;
+
+// Active change-notification watchers, keyed by location id.
+const locationWatchers = new Map<string, { path: string; watcher: FSWatcher }>();
+// Locations (`id:path`) where change notifications failed; these fall back to polling.
+const unwatchableLocations = new Set<string>();
+// Import folder entries reported by change notifications since the last scan, per pipeline.
+// Lets a scan register files that arrived and left again between two scans.
+const observedImportFiles = new Map<string, Set<string>>();
+// Size and modification time of the files in each monitored folder (by path) with the number of
+// scans they have stayed the same, until they settle.
+type Arrival = { size: number; mtimeMs: number; unchangedScans: number } | 'settled';
+const arrivals = new Map<string, Map<string, Arrival>>();
+let debounceTimer: NodeJS.Timeout | null = null;
 
 // Helper function to extract user from remarks
 const extractUserFromRemarks = (remarks: string | undefined): string | null => {
@@ -27,27 +52,52 @@ const extractUserFromRemarks = (remarks: string | undefined): string | null => {
   return match ? `[user: ${match[1]}]` : null;
 };
 
-const isExpandable = (fileName: string): boolean => {
-    const name = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
-    const parts = name.split('_');
-    if (parts.length !== 4) return false;
-    const prefixPairs = parts[0];
-    if (prefixPairs.length < 4 || prefixPairs.length % 2 !== 0) return false;
-
-    let validPrefixCount = 0;
-    for (let i = 0; i < prefixPairs.length; i += 2) {
-      if (['P', 'B', 'C'].includes(prefixPairs[i].toUpperCase())) {
-        validPrefixCount++;
-      }
-    }
-    return validPrefixCount > 1;
+const isMonitoredFile = (fileName: string, extensions: Set<string>): boolean => {
+    return extensions.size === 0 || extensions.has(path.extname(fileName).toLowerCase().substring(1));
+};
+
+// Ignore patterns are globs matched against the whole file name, ignoring case.
+const toIgnoreMatcher = (patterns: string[]) => {
+  const regexes = patterns.filter(Boolean).map(pattern =>
+    new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i'));
+  return (fileName: string) => regexes.some(regex => regex.test(fileName));
 };
 
-const expandFile = async (fileName: string): Promise<{ success: boolean; count?: number; error?: string }> => {
-    const { import: importPath, failed: failedPath } = await db.getMonitoredPaths();
+// Returns the listed files of a folder that are still being written: their size or modification
+// time changed within the last `stabilityScans` scans. Settled files are not looked at again.
+async function findArrivingFiles(folder: string, fileNames: string[], stabilityScans: number): Promise<Set<string>> {
+  const arriving = new Set<string>();
+  const previous = arrivals.get(folder) || new Map<string, Arrival>();
+  const current = new Map<string, Arrival>();
+  for (const fileName of fileNames) {
+    const before = previous.get(fileName);
+    if (stabilityScans === 0 || before === 'settled') {
+      current.set(fileName, 'settled');
+      continue;
+    }
+    const stats = await fs.stat(path.join(folder, fileName)).catch(() => null);
+    if (!stats || !stats.isFile()) continue;
+    const unchanged = before && before.size === stats.size && before.mtimeMs === stats.mtimeMs;
+    const unchangedScans = unchanged ? before.unchangedScans + 1 : 0;
+    if (unchangedScans >= stabilityScans) {
+      current.set(fileName, 'settled');
+    } else {
+      current.set(fileName, { size: stats.size, mtimeMs: stats.mtimeMs, unchangedScans });
+      arriving.add(fileName);
+    }
+  }
+  // Files no longer listed are forgotten.
+  arrivals.set(folder, current);
+  return arriving;
+}
+
+// A status entry is identified by its pipeline and file name.
+type TrackedFileKey = { pipelineId: string; name: string };
+
+// Copies a failed file into the import folder under each name an expand rule gave it.
+const expandFile = async (fileName: string, expansion: FilenameRuleMatch, pipeline: Pipeline): Promise<{ success: boolean; count?: number; error?: string }> => {
+    const { import: importPath, failed: failedPath } = pipeline;
     const originalFilePath = path.join(failedPath.path, fileName);
-    const fileExt = path.extname(fileName);
-    const baseName = path.basename(fileName, fileExt);
 
     try {
         await fs.access(originalFilePath);
@@ -55,203 +105,519 @@ const expandFile = async (fileName: string): Promise<{ success: boolean; count?:
         return { success: false, error: `File not found: ${fileName}` };
     }
 
-    const parts = baseName.split('_');
-    const prefixPairsStr = parts[0];
-    const validPairs: string[] = [];
-    if (prefixPairsStr.length > 0 && prefixPairsStr.length % 2 === 0) {
-        for (let i = 0; i < prefixPairsStr.length; i += 2) {
-            if (['P', 'B', 'C'].includes(prefixPairsStr[i].toUpperCase())) {
-                validPairs.push(prefixPairsStr.substring(i, i + 2));
-            }
-        }
-    }
-
     const newFilesToUpsert: FileStatus[] = [];
-    for (const pair of validPairs) {
-        const newFileName = `${pair}_${parts[1]}_${parts[2]}_${parts[3]}${fileExt}`;
+    for (const newFileName of expansion.fileNames) {
         const newFilePath = path.join(importPath.path, newFileName);
         try {
-            await fs.copyFile(originalFilePath, newFilePath);
+            await fs.copyFile(originalFilePath, newFilePath, constants.COPYFILE_EXCL);
             newFilesToUpsert.push({
                 id: `file-${Date.now()}-${Math.random()}`,
                 name: newFileName,
                 status: 'processing',
                 source: importPath.name,
                 lastUpdated: new Date().toISOString(),
-                remarks: `Auto-expanded from ${fileName}.`
+                remarks: `Auto-expanded from ${fileName} by rule "${expansion.rule.name}".`,
+                pipelineId: pipeline.id,
             });
-        } catch (copyError) {
+        } catch (copyError: any) {
             console.error(`[Watcher] ERROR: Failed to create copy for expansion "${newFileName}":`, copyError);
-            // Cleanup created files on failure
+            // Cleanup the copies this expansion created
             for (const fileToClean of newFilesToUpsert) {
                 try { await fs.unlink(path.join(importPath.path, fileToClean.name)); } catch {}
             }
+            if (copyError.code === 'EEXIST') {
+                return { success: false, error: `A file named "${newFileName}" already exists in the import directory.` };
+            }
             return { success: false, error: `Failed to create copy: ${newFileName}.` };
         }
     }
 
     try {
         await fs.unlink(originalFilePath);
-        await db.deleteFileStatus(fileName);
-        await db.bulkUpsertFileStatuses(newFilesToUpsert);
-        return { success: true, count: validPairs.length };
+        await db.deleteFileStatus(pipeline.id, fileName, 'watcher');
+        await db.bulkUpsertFileStatuses(newFilesToUpsert, 'watcher');
+        return { success: true, count: expansion.fileNames.length };
     } catch (deleteError) {
         console.error(`[Watcher] ERROR: Failed to delete original auto-expanded file "${fileName}":`, deleteError);
         return { success: false, error: `Failed to delete original file after expansion.` };
     }
 };
 
+// Moves a failed file to the import folder under a new name to be retried, unless a file
+// with that name is already there. Returns whether it was moved.
+async function retryWithNewName(
+  pipeline: Pipeline,
+  originalFileName: string,
+  newFileName: string,
+  remarks: string,
+  filesToUpsert: FileStatus[],
+  filesToDeleteFromDb: TrackedFileKey[]
+): Promise<boolean> {
+    const oldPath = path.join(pipeline.failed.path, originalFileName);
+    const newPath = path.join(pipeline.import.path, newFileName);
 
-async function pollDirectories() {
-  if (isPolling) return;
-  isPolling = true;
-
-  try {
-    const monitoredPaths = await db.getMonitoredPaths();
-    const monitoredExtensionsArray = await db.getMonitoredExtensions();
-    const processingSettings = await db.getProcessingSettings();
-    
-    const importPath = monitoredPaths.import.path;
-    const failedPath = monitoredPaths.failed.path;
-    const monitoredExtensions = new Set(monitoredExtensionsArray.map(ext => ext.toLowerCase()));
-    const { autoTrimInvalidChars, autoExpandPrefixes } = processingSettings;
-
-    if (!importPath || !failedPath) {
-        console.error('[Watcher] Monitored paths are not configured. Skipping poll cycle.');
-        isPolling = false;
-        return;
+    try {
+        await fs.access(newPath); // Check if a file with the new name already exists
+        return false;
+    } catch (e) {
+        try { // File does not exist, proceed with rename/move
+            await fs.rename(oldPath, newPath);
+            filesToDeleteFromDb.push({ pipelineId: pipeline.id, name: originalFileName });
+            filesToUpsert.push({
+                id: `file-${Date.now()}-${Math.random()}`, name: newFileName, status: 'processing',
+                source: pipeline.import.name, lastUpdated: new Date().toISOString(),
+                remarks, pipelineId: pipeline.id
+            });
+            return true;
+        } catch (renameError) {
+            console.error(`[Watcher] [${pipeline.name}] ERROR: Failed to rename and retry "${originalFileName}":`, renameError);
+            return false;
+        }
     }
-    
-    let dbWrites: Promise<any>[] = [];
-    let filesToUpsert: FileStatus[] = [];
-    let filesToDeleteFromDb: string[] = [];
+}
 
-    // --- Files on Disk ---
-    let filesInFailed = await fs.readdir(failedPath).catch(() => [] as string[]);
-    
-    // --- Pass 1: Handle automated workflows for files in Rejected folder ---
-    const filesToProcessInFailed = [...filesInFailed];
+// Runs the automated workflows (expand rules, rename rules, filename auto-fix) on a pipeline's
+// failed folder and returns the files left there afterwards, with those still arriving.
+async function processFailedFolder(
+  pipeline: Pipeline,
+  settings: ProcessingSettings,
+  filenameRules: FilenameRule[],
+  sanitizeSteps: SanitizeStep[],
+  filesToUpsert: FileStatus[],
+  filesToDeleteFromDb: TrackedFileKey[]
+): Promise<{ filesInFailed: string[]; arriving: Set<string> }> {
+    const { autoTrimInvalidChars, autoExpandPrefixes, autoApplyRenameRules } = settings;
+    const isIgnored = toIgnoreMatcher(settings.ignorePatterns);
+    let filesInFailed = await fs.readdir(pipeline.failed.path).catch(() => [] as string[]);
+    const arriving = await findArrivingFiles(pipeline.failed.path, filesInFailed.filter(f => !isIgnored(f)), settings.stabilityScans);
+
+    // Files still being written are left alone until they settle.
+    const filesToProcessInFailed = filesInFailed.filter(f => !isIgnored(f) && !arriving.has(f));
     for (const originalFileName of filesToProcessInFailed) {
       let wasProcessed = false;
 
-      // Workflow: Auto-expand prefixes
-      if (autoExpandPrefixes && isExpandable(originalFileName)) {
-          const expansionResult = await expandFile(originalFileName);
+      // Workflow: Auto-expand by the expand rules
+      const expansion = autoExpandPrefixes ? findFilenameRule(filenameRules, 'expand', originalFileName, pipeline.id) : null;
+      if (expansion) {
+          const expansionResult = await expandFile(originalFileName, expansion, pipeline);
           if (expansionResult.success) {
-            console.log(`[Watcher] Auto-expanded "${originalFileName}" into ${expansionResult.count} new files.`);
-            filesInFailed = filesInFailed.filter(f => f !== originalFileName);
+            console.log(`[Watcher] [${pipeline.name}] Auto-expanded "${originalFileName}" into ${expansionResult.count} new files.`);
             wasProcessed = true;
           } else {
-            console.error(`[Watcher] ERROR: Auto-expansion failed for "${originalFileName}":`, expansionResult.error);
+            console.error(`[Watcher] [${pipeline.name}] ERROR: Auto-expansion failed for "${originalFileName}":`, expansionResult.error);
           }
       }
-      
-      // Workflow: Auto-fix invalid characters (only if not expanded)
+
+      // Workflow: Auto-rename by the rename rules (only if not expanded)
+      const rename = !wasProcessed && autoApplyRenameRules ? findFilenameRule(filenameRules, 'rename', originalFileName, pipeline.id) : null;
+      if (rename) {
+        const remarks = `Auto-renamed from "${originalFileName}" by rule "${rename.rule.name}" and retried.`;
+        wasProcessed = await retryWithNewName(pipeline, originalFileName, rename.fileNames[0], remarks, filesToUpsert, filesToDeleteFromDb);
+      }
+
+      // Workflow: Auto-fix the filename with the sanitization steps (only if not expanded or renamed)
       if (!wasProcessed && autoTrimInvalidChars) {
-        const cleanedFileName = cleanFileName(originalFileName);
+        const cleanedFileName = sanitizeFileName(originalFileName, sanitizeSteps);
         if (originalFileName !== cleanedFileName) {
-            const oldPath = path.join(failedPath, originalFileName);
-            const newPath = path.join(importPath, cleanedFileName);
-            
-            try {
-                await fs.access(newPath); // Check if a file with the cleaned name already exists
-            } catch (e) {
-                try { // File does not exist, proceed with rename/move
-                    await fs.rename(oldPath, newPath);
-                    filesToDeleteFromDb.push(originalFileName);
-                    filesToUpsert.push({
-                        id: `file-${Date.now()}-${Math.random()}`, name: cleanedFileName, status: 'processing',
-                        source: monitoredPaths.import.name, lastUpdated: new Date().toISOString(),
-                        remarks: `Auto-renamed from "${originalFileName}" and retried.`
-                    });
-                    filesInFailed = filesInFailed.filter(f => f !== originalFileName);
-                    wasProcessed = true;
-                } catch (renameError) {
-                    console.error(`[Watcher] ERROR: Failed to auto-fix and retry "${originalFileName}":`, renameError);
-                }
-            }
+            const remarks = `Auto-renamed from "${originalFileName}" and retried.`;
+            wasProcessed = await retryWithNewName(pipeline, originalFileName, cleanedFileName, remarks, filesToUpsert, filesToDeleteFromDb);
         }
       }
+
+      if (wasProcessed) {
+        filesInFailed = filesInFailed.filter(f => f !== originalFileName);
+      }
     }
 
+    return { filesInFailed, arriving };
+}
 
-    // Refresh file lists after automated moves/deletes
-    const filesInImport = await fs.readdir(importPath).catch(() => [] as string[]);
-    const filesInImportSet = new Set(filesInImport);
-    const filesInFailedSet = new Set(filesInFailed);
-    const failureRemark = await db.getFailureRemark();
-    
-    const currentFileStatuses = await db.getFileStatuses();
-    const currentFileStatusesMap = new Map(currentFileStatuses.map(f => [f.name, f]));
-
-    // --- Pass 2: Update statuses based on current file locations ---
-    for (const [fileName, file] of currentFileStatusesMap.entries()) {
-      const isMonitored = monitoredExtensions.size === 0 || monitoredExtensions.has(path.extname(fileName).toLowerCase().substring(1));
-      if (!isMonitored) continue;
-      
-      const inImport = filesInImportSet.has(fileName);
-      const inFailed = filesInFailedSet.has(fileName);
-
-      if (file.status === 'processing' && !inImport && !inFailed) {
-        const userRemark = extractUserFromRemarks(file.remarks);
-        file.status = 'published';
-        file.remarks = `File processed successfully. ${userRemark || ''}`.trim();
-        file.lastUpdated = new Date().toISOString();
-        filesToUpsert.push(file);
-      } else if (inFailed && file.status !== 'failed') {
-        file.status = 'failed';
-        file.remarks = failureRemark;
-        file.lastUpdated = new Date().toISOString();
-        filesToUpsert.push(file);
-      } else if (inImport && ['published', 'failed', 'timed-out'].includes(file.status)) {
-        const userRemark = extractUserFromRemarks(file.remarks);
-        file.status = 'processing';
-        file.remarks = file.remarks?.includes('Auto-') ? file.remarks : `Retrying file. ${userRemark || ''}`.trim();
-        file.lastUpdated = new Date().toISOString();
-        filesToUpsert.push(file);
+// Moves a new arrival from the import folder to the failed folder before the publishing system
+// picks it up. Returns false if the file could not be moved.
+async function quarantineFile(file: FileStatus, pipeline: Pipeline, remark: string, filesInFailedSet: Set<string>): Promise<boolean> {
+  if (filesInFailedSet.has(file.name)) return false;
+  try {
+    await fs.rename(path.join(pipeline.import.path, file.name), path.join(pipeline.failed.path, file.name));
+    console.log(`[Watcher] Quarantined "${file.name}": ${remark}`);
+    filesInFailedSet.add(file.name);
+    file.status = 'failed';
+    file.source = pipeline.failed.name;
+    file.remarks = `${remark} Moved to the failed folder.`;
+    return true;
+  } catch (error) {
+    console.error(`[Watcher] ERROR: Could not quarantine "${file.name}":`, error);
+    return false;
+  }
+}
+
+// Flags a new arrival whose name does not follow the pipeline's naming schema, or quarantines it.
+async function checkNamingSchema(file: FileStatus, pipeline: Pipeline, namingSchemas: NamingSchema[], filesInFailedSet: Set<string>) {
+  const schema = getNamingSchema(namingSchemas, pipeline.id);
+  const violation = schema && checkFileName(file.name, schema);
+  if (!schema || !violation) return;
+
+  const remark = `Naming schema "${schema.name}": ${violation.message}.`;
+  if (schema.action === 'quarantine' && await quarantineFile(file, pipeline, remark, filesInFailedSet)) return;
+  file.remarks = remark;
+}
+
+const hashFile = (filePath: string, algorithm: ChecksumAlgorithm): Promise<string> => new Promise((resolve, reject) => {
+  const hash = createHash(algorithm);
+  createReadStream(filePath)
+    .on('data', chunk => hash.update(chunk))
+    .on('end', () => resolve(hash.digest('hex')))
+    .on('error', reject);
+});
+
+// Runs the checks of the validator for the file's extension and records the results on the
+// file. Failing files are flagged or quarantined.
+async function checkFileContent(file: FileStatus, pipeline: Pipeline, validator: ContentValidator, size: number, filesInFailedSet: Set<string>) {
+  const filePath = path.join(pipeline.import.path, file.name);
+  const problems: string[] = [];
+  const passed: string[] = [formatBytes(size)];
+  let checksum: string | null = null;
+
+  try {
+    if (size < validator.minSize) problems.push(`${formatBytes(size)} is below the minimum size of ${formatBytes(validator.minSize)}`);
+    if (validator.maxSize > 0 && size > validator.maxSize) problems.push(`${formatBytes(size)} is above the maximum size of ${formatBytes(validator.maxSize)}`);
+
+    const signatures = parseMagicBytes(validator.magicBytes) || [];
+    if (signatures.length > 0) {
+      const header = Buffer.alloc(Math.max(...signatures.map(signature => signature.length)));
+      const handle = await fs.open(filePath, 'r');
+      const { bytesRead } = await handle.read(header, 0, header.length, 0).finally(() => handle.close());
+      if (matchesMagicBytes(header.subarray(0, bytesRead), signatures)) {
+        passed.push('signature matches');
+      } else {
+        problems.push(`content starts with ${toHex(header.subarray(0, bytesRead)) || 'nothing'}, not a .${validator.extension} signature`);
       }
     }
 
-    // --- Pass 3: Detect new files ---
-    const allKnownFiles = new Set(currentFileStatusesMap.keys());
-    const newImportFiles = filesInImport.filter(f => !allKnownFiles.has(f));
-    const newFailedFiles = filesInFailed.filter(f => !allKnownFiles.has(f));
-
-    for (const fileName of newImportFiles) {
-       const isMonitored = monitoredExtensions.size === 0 || monitoredExtensions.has(path.extname(fileName).toLowerCase().substring(1));
-       if (isMonitored) {
-         filesToUpsert.push({
-           id: `file-${Date.now()}-${Math.random()}`, name: fileName, status: 'processing',
-           source: monitoredPaths.import.name, lastUpdated: new Date().toISOString(), remarks: ''
-         });
-       }
+    if (validator.checksum !== 'none') {
+      const sidecarName = `${file.name}.${validator.checksum}`;
+      const expected = parseChecksumSidecar(await fs.readFile(path.join(pipeline.import.path, sidecarName), 'utf8').catch(() => ''));
+      checksum = await hashFile(filePath, validator.checksum);
+      if (!expected) {
+        problems.push(`checksum sidecar ${sidecarName} is missing or unreadable`);
+      } else if (expected !== checksum) {
+        problems.push(`${validator.checksum.toUpperCase()} checksum ${checksum} does not match ${sidecarName}`);
+      } else {
+        passed.push(`${validator.checksum.toUpperCase()} verified`);
+      }
     }
-    for (const fileName of newFailedFiles) {
-      const isMonitored = monitoredExtensions.size === 0 || monitoredExtensions.has(path.extname(fileName).toLowerCase().substring(1));
-      if (isMonitored) {
-         filesToUpsert.push({
-           id: `file-${Date.now()}-${Math.random()}`, name: fileName, status: 'failed',
-           source: monitoredPaths.failed.name, lastUpdated: new Date().toISOString(), remarks: failureRemark
-         });
+  } catch (error: any) {
+    // The file was picked up or removed while it was being read.
+    console.error(`[Watcher] ERROR: Could not check the content of "${file.name}":`, error);
+    return;
+  }
+
+  file.fileSize = size;
+  file.checksum = checksum;
+  file.validation = problems.length > 0 ? 'failed' : 'passed';
+  file.validationDetails = problems.length > 0 ? problems.join('; ') : passed.join(', ');
+  if (problems.length === 0) {
+    file.remarks = [file.remarks, `Content checks passed (${file.validationDetails}).`].filter(Boolean).join(' ');
+    return;
+  }
+  const remark = `Content check failed: ${file.validationDetails}.`;
+  if (validator.action === 'quarantine' && await quarantineFile(file, pipeline, remark, filesInFailedSet)) return;
+  file.remarks = [file.remarks, remark].filter(Boolean).join(' ');
+}
+
+// Hands a file that has finished arriving in the import folder on to processing once it passes
+// the naming schema and content checks. Returns false if a content validator wants the file to
+// stay unchanged for longer first.
+async function admitImportFile(
+  file: FileStatus,
+  pipeline: Pipeline,
+  namingSchemas: NamingSchema[],
+  contentValidators: ContentValidator[],
+  filesInFailedSet: Set<string>
+): Promise<boolean> {
+  const validator = getContentValidator(contentValidators, file.name);
+  const stats = validator ? await fs.stat(path.join(pipeline.import.path, file.name)).catch(() => null) : null;
+  if (validator && stats && Date.now() - stats.mtimeMs < validator.stableSeconds * 1000) return false;
+
+  file.status = 'processing';
+  file.source = pipeline.import.name;
+  file.remarks = '';
+  await checkNamingSchema(file, pipeline, namingSchemas, filesInFailedSet);
+  if (validator && stats && file.status === 'processing') {
+    await checkFileContent(file, pipeline, validator, stats.size, filesInFailedSet);
+  }
+  return true;
+}
+
+const ARRIVING_REMARK = 'Waiting for the file to finish arriving.';
+
+// Pipelines skipped because a folder could not be reached, so the problem is logged once rather
+// than on every scan.
+const unreachablePipelines = new Set<string>();
+
+// The pipelines whose import and failed folders can be reached. Scanning the others would make
+// every file tracked in them look gone.
+async function getReachablePipelines(pipelines: Pipeline[]): Promise<Pipeline[]> {
+  const reachable: Pipeline[] = [];
+  for (const pipeline of pipelines) {
+    try {
+      await fs.access(pipeline.import.path);
+      await fs.access(pipeline.failed.path);
+      if (unreachablePipelines.delete(pipeline.id)) {
+        console.log(`[Watcher] Pipeline "${pipeline.name}" is accessible again and is monitored.`);
+      }
+      reachable.push(pipeline);
+    } catch (error: any) {
+      if (!unreachablePipelines.has(pipeline.id)) {
+        unreachablePipelines.add(pipeline.id);
+        console.error(`[Watcher] Pipeline "${pipeline.name}" is skipped: a monitored directory is not accessible. Please verify paths in settings. Error: ${error.message}`);
+      }
+    }
+  }
+  return reachable;
+}
+
+async function pollDirectories() {
+  if (isPolling) {
+    // A change arrived mid-scan; scan again once this one finishes.
+    pollRequested = true;
+    return;
+  }
+  isPolling = true;
+  pollRequested = false;
+  lastPollAt = Date.now();
+
+  try {
+    const pipelines = await getReachablePipelines((await db.getPipelines()).filter(p => p.import.path && p.failed.path));
+    const processingSettings = await db.getProcessingSettings();
+    const filenameRules = await db.getFilenameRules();
+    const sanitizeSteps = await db.getSanitizeSteps();
+    const namingSchemas = await db.getNamingSchemas();
+    const contentValidators = await db.getContentValidators();
+
+    if (pipelines.length === 0) {
+        isPolling = false;
+        return;
+    }
+    
+    let dbWrites: Promise<any>[] = [];
+    let filesToUpsert: FileStatus[] = [];
+    let filesToDeleteFromDb: TrackedFileKey[] = [];
+
+    let arrivingCount = 0;
+    const isIgnored = toIgnoreMatcher(processingSettings.ignorePatterns);
+
+    // --- Pass 1: Handle automated workflows for files in each Rejected folder ---
+    const failedFoldersByPipeline = new Map<string, { filesInFailed: string[]; arriving: Set<string> }>();
+    for (const pipeline of pipelines) {
+      failedFoldersByPipeline.set(pipeline.id, await processFailedFolder(pipeline, processingSettings, filenameRules, sanitizeSteps, filesToUpsert, filesToDeleteFromDb));
+    }
+
+    const failureRemark = await db.getFailureRemark();
+    const currentFileStatuses = await db.getFileStatuses();
+    
+    for (const pipeline of pipelines) {
+      // A file is tracked per pipeline, so new-file detection only checks this pipeline's files.
+      const knownFiles = new Set(currentFileStatuses.filter(f => f.pipelineId === pipeline.id).map(f => f.name));
+      const monitoredExtensions = new Set(pipeline.extensions.map(ext => ext.toLowerCase()));
+
+      // Refresh file lists after automated moves/deletes
+      const filesInImport = await fs.readdir(pipeline.import.path).catch(() => [] as string[]);
+      const { filesInFailed, arriving: arrivingInFailed } = failedFoldersByPipeline.get(pipeline.id) || { filesInFailed: [], arriving: new Set<string>() };
+      const arrivingInImport = await findArrivingFiles(pipeline.import.path, filesInImport.filter(f => !isIgnored(f)), processingSettings.stabilityScans);
+      const filesInImportSet = new Set(filesInImport);
+      const filesInFailedSet = new Set(filesInFailed);
+
+      // --- Pass 2: Update statuses based on current file locations ---
+      for (const file of currentFileStatuses) {
+        if (file.pipelineId !== pipeline.id) continue;
+        if (!isMonitoredFile(file.name, monitoredExtensions)) continue;
+        
+        const inImport = filesInImportSet.has(file.name);
+        const inFailed = filesInFailedSet.has(file.name);
+
+        if (file.status === 'arriving') {
+          if (inImport ? arrivingInImport.has(file.name) : inFailed && arrivingInFailed.has(file.name)) {
+            arrivingCount++;
+          } else if (inImport) {
+            if (await admitImportFile(file, pipeline, namingSchemas, contentValidators, filesInFailedSet)) {
+              file.lastUpdated = new Date().toISOString();
+              filesToUpsert.push(file);
+            } else {
+              arrivingCount++;
+            }
+          } else if (inFailed) {
+            file.status = 'failed';
+            file.source = pipeline.failed.name;
+            file.remarks = failureRemark;
+            file.lastUpdated = new Date().toISOString();
+            filesToUpsert.push(file);
+          } else if (isIgnored(file.name)) {
+            console.log(`[Watcher] [${pipeline.name}] "${file.name}" disappeared before it finished arriving.`);
+            filesToDeleteFromDb.push({ pipelineId: pipeline.id, name: file.name });
+          } else {
+            // Gone from both folders: like a transient file it was picked up downstream (and is
+            // published on the next scan), or it was removed from the failed folder.
+            const fromFailed = file.source === pipeline.failed.name;
+            file.status = fromFailed ? 'failed' : 'processing';
+            file.remarks = fromFailed ? failureRemark : '';
+            file.lastUpdated = new Date().toISOString();
+            filesToUpsert.push(file);
+          }
+        } else if (file.status === 'processing' && !inImport && !inFailed) {
+          const userRemark = extractUserFromRemarks(file.remarks);
+          file.status = 'published';
+          file.remarks = `File processed successfully. ${userRemark || ''}`.trim();
+          file.lastUpdated = new Date().toISOString();
+          filesToUpsert.push(file);
+        } else if (inFailed && file.status !== 'failed') {
+          file.status = 'failed';
+          file.remarks = failureRemark;
+          file.lastUpdated = new Date().toISOString();
+          filesToUpsert.push(file);
+        } else if (inImport && ['published', 'failed', 'timed-out'].includes(file.status)) {
+          const userRemark = extractUserFromRemarks(file.remarks);
+          file.status = 'processing';
+          file.remarks = file.remarks?.includes('Auto-') ? file.remarks : `Retrying file. ${userRemark || ''}`.trim();
+          file.lastUpdated = new Date().toISOString();
+          filesToUpsert.push(file);
+        }
+      }
+
+      // --- Pass 3: Detect new files ---
+      // Files seen by change notifications but already gone were picked up downstream between scans.
+      const observedFiles = observedImportFiles.get(pipeline.id) || new Set<string>();
+      observedImportFiles.delete(pipeline.id);
+      const transientImportFiles = [...observedFiles].filter(f => !filesInImportSet.has(f) && !filesInFailedSet.has(f));
+      const newImportFiles = [...filesInImport, ...transientImportFiles].filter(f => !knownFiles.has(f) && !isIgnored(f));
+      const newFailedFiles = filesInFailed.filter(f => !knownFiles.has(f) && !isIgnored(f));
+
+      for (const fileName of newImportFiles) {
+         if (isMonitoredFile(fileName, monitoredExtensions)) {
+           knownFiles.add(fileName);
+           const newFile: FileStatus = {
+             id: `file-${Date.now()}-${Math.random()}`, name: fileName, status: 'processing',
+             source: pipeline.import.name, lastUpdated: new Date().toISOString(), remarks: '', pipelineId: pipeline.id
+           };
+           // Files already picked up downstream are past checking.
+           if (filesInImportSet.has(fileName)) {
+             const admitted = !arrivingInImport.has(fileName) && await admitImportFile(newFile, pipeline, namingSchemas, contentValidators, filesInFailedSet);
+             if (!admitted) {
+               newFile.status = 'arriving';
+               newFile.remarks = ARRIVING_REMARK;
+               arrivingCount++;
+             }
+           }
+           filesToUpsert.push(newFile);
+         }
+      }
+      for (const fileName of newFailedFiles) {
+        if (isMonitoredFile(fileName, monitoredExtensions)) {
+           knownFiles.add(fileName);
+           const arriving = arrivingInFailed.has(fileName);
+           if (arriving) arrivingCount++;
+           filesToUpsert.push({
+             id: `file-${Date.now()}-${Math.random()}`, name: fileName, status: arriving ? 'arriving' : 'failed',
+             source: pipeline.failed.name, lastUpdated: new Date().toISOString(), remarks: arriving ? ARRIVING_REMARK : failureRemark, pipelineId: pipeline.id
+           });
+        }
       }
     }
 
     // --- Commit all DB changes at once ---
     if (filesToUpsert.length > 0) {
-      dbWrites.push(db.bulkUpsertFileStatuses(filesToUpsert));
+      dbWrites.push(db.bulkUpsertFileStatuses(filesToUpsert, 'watcher'));
     }
     if (filesToDeleteFromDb.length > 0) {
-      filesToDeleteFromDb.forEach(name => dbWrites.push(db.deleteFileStatus(name)));
+      filesToDeleteFromDb.forEach(({ pipelineId, name }) => dbWrites.push(db.deleteFileStatus(pipelineId, name, 'watcher')));
     }
     
     if (dbWrites.length > 0) {
       await Promise.all(dbWrites);
     }
+    hasArrivingFiles = arrivingCount > 0;
 
   } catch (error) {
     console.error('[Watcher] An error occurred during the poll cycle:', error);
   } finally {
     isPolling = false;
+    if (pollRequested) schedulePoll();
+  }
+}
+
+// --- Event-driven change detection ---
+function schedulePoll() {
+  if (debounceTimer) clearTimeout(debounceTimer);
+  debounceTimer = setTimeout(() => {
+    debounceTimer = null;
+    pollDirectories();
+  }, WATCH_DEBOUNCE);
+}
+
+function handleChangeNotification(pipelineId: string, type: 'import' | 'failed', fileName: string | null) {
+  // Write-access probes from the app itself are not tracked files.
+  if (type === 'import' && fileName && !fileName.startsWith('.write_test_')) {
+    const observed = observedImportFiles.get(pipelineId) || new Set<string>();
+    observed.add(fileName);
+    observedImportFiles.set(pipelineId, observed);
+  }
+  schedulePoll();
+}
+
+const isEventDriven = (location: MonitoredPath): boolean => {
+  return location.watchMode === 'events' && locationWatchers.get(location.id)?.path === location.path;
+};
+
+// Starts or stops change-notification watchers so they match the configured watch modes.
+function syncLocationWatchers(pipelines: Pipeline[]) {
+  const wanted = new Map<string, { pipelineId: string; type: 'import' | 'failed'; location: MonitoredPath }>();
+  for (const pipeline of pipelines) {
+    for (const type of ['import', 'failed'] as const) {
+      const location = pipeline[type];
+      if (location.watchMode === 'events' && !unwatchableLocations.has(`${location.id}:${location.path}`)) {
+        wanted.set(location.id, { pipelineId: pipeline.id, type, location });
+      }
+    }
+  }
+
+  for (const [locationId, active] of locationWatchers.entries()) {
+    if (wanted.get(locationId)?.location.path !== active.path) {
+      active.watcher.close();
+      locationWatchers.delete(locationId);
+    }
+  }
+
+  for (const [locationId, { pipelineId, type, location }] of wanted.entries()) {
+    if (locationWatchers.has(locationId)) continue;
+    const fallBackToPolling = (error: any) => {
+      console.error(`[Watcher] Change notifications unavailable for "${location.path}", falling back to polling:`, error?.message || error);
+      locationWatchers.get(locationId)?.watcher.close();
+      locationWatchers.delete(locationId);
+      unwatchableLocations.add(`${locationId}:${location.path}`);
+    };
+    try {
+      const watcher = watch(location.path, (_eventType, fileName) => handleChangeNotification(pipelineId, type, fileName));
+      watcher.on('error', fallBackToPolling);
+      locationWatchers.set(locationId, { path: location.path, watcher });
+      console.log(`[Watcher] Watching "${location.path}" for change notifications.`);
+    } catch (error) {
+      fallBackToPolling(error);
+    }
+  }
+}
+
+// Runs every POLLING_INTERVAL. Locations in polling mode are scanned every tick; when every
+// location is event-driven, scans are triggered by notifications plus a periodic reconcile.
+async function watcherTick() {
+  try {
+    const pipelines = (await db.getPipelines()).filter(p => p.import.path && p.failed.path);
+    syncLocationWatchers(pipelines);
+
+    const needsPolling = pipelines.some(p => !isEventDriven(p.import) || !isEventDriven(p.failed));
+    if (needsPolling || hasArrivingFiles || Date.now() - lastPollAt >= RECONCILE_INTERVAL) {
+      await pollDirectories();
+    }
+  } catch (error) {
+    console.error('[Watcher] An error occurred while scheduling a poll cycle:', error);
   }
 }
 
@@ -261,7 +627,7 @@ async function cleanupJob() {
 
   try {
     const cleanupSettings = await db.getCleanupSettings();
-    const monitoredPaths = await db.getMonitoredPaths();
+    const pipelines = await db.getPipelines();
     const now = new Date();
     let dbChanged = false;
 
@@ -287,7 +653,7 @@ async function cleanupJob() {
             }
         }
         if (filesToUpdate.length > 0) {
-          await db.bulkUpsertFileStatuses(filesToUpdate);
+          await db.bulkUpsertFileStatuses(filesToUpdate, 'watcher');
         }
       }
     }
@@ -301,12 +667,18 @@ async function cleanupJob() {
       }
     }
     
-    // 3. Clear old physical files from the 'failed' directory
+    // 3. Trim the webhook delivery and report logs
+    await pruneWebhookDeliveries();
+    await pruneReportRuns();
+
+    // 4. Clear old physical files from each pipeline's 'failed' directory
     if (cleanupSettings.files.enabled) {
         const fileMaxAgeMs = getMilliseconds(cleanupSettings.files.value, cleanupSettings.files.unit);
-        const failedPath = monitoredPaths.failed.path;
 
-        if (fileMaxAgeMs > 0 && failedPath) {
+        for (const pipeline of pipelines) {
+            const failedPath = pipeline.failed.path;
+            if (fileMaxAgeMs <= 0 || !failedPath) continue;
+
             try {
                 const filesInFailed = await fs.readdir(failedPath);
                 for (const fileName of filesInFailed) {
@@ -315,7 +687,7 @@ async function cleanupJob() {
                         const stats = await fs.stat(filePath);
                         if (now.getTime() - stats.birthtime.getTime() > fileMaxAgeMs) {
                             await fs.unlink(filePath);
-                            console.log(`[Cleanup] Deleted old file: ${fileName}`);
+                            console.log(`[Cleanup] [${pipeline.name}] Deleted old file: ${fileName}`);
                         }
                     } catch (statError: any) {
                          if (statError.code !== 'ENOENT') console.error(`[Cleanup] Error getting stats for ${filePath}:`, statError);
@@ -334,6 +706,49 @@ async function cleanupJob() {
   }
 }
 
+// Turns new status events into webhook deliveries and sends the ones that are due.
+async function webhookJob() {
+  if (isSendingWebhooks) return;
+  isSendingWebhooks = true;
+
+  try {
+    await enqueueWebhookEvents();
+    await dispatchWebhookDeliveries();
+  } catch (error) {
+    console.error('[Webhooks] An error occurred while sending webhooks:', error);
+  } finally {
+    isSendingWebhooks = false;
+  }
+}
+
+// Emails alerts and digests about failed and timed-out files.
+async function alertJob() {
+  if (isSendingAlerts) return;
+  isSendingAlerts = true;
+
+  try {
+    await processAlerts();
+  } catch (error) {
+    console.error('[Alerts] An error occurred while sending alerts:', error);
+  } finally {
+    isSendingAlerts = false;
+  }
+}
+
+// Sends the scheduled summary report when it is due.
+async function reportJob() {
+  if (isSendingReports) return;
+  isSendingReports = true;
+
+  try {
+    await processScheduledReports();
+  } catch (error) {
+    console.error('[Reports] An error occurred while sending reports:', error);
+  } finally {
+    isSendingReports = false;
+  }
+}
+
 // --- Service Initialization ---
 async function initializeWatcherService() {
   console.log('[Watcher] Initializing file watcher service...');
@@ -341,26 +756,27 @@ async function initializeWatcherService() {
     // Ensure DB is warm
     await db.getUsers(); 
     
-    const monitoredPaths = await db.getMonitoredPaths();
-    if (!monitoredPaths.import.path || !monitoredPaths.failed.path) {
-        console.log('[Watcher] Monitored paths are not configured. Watcher will not start.');
-        return;
+    const pipelines = (await db.getPipelines()).filter(p => p.import.path && p.failed.path);
+    if (pipelines.length === 0) {
+        console.log('[Watcher] No pipeline has its monitored paths configured yet. Files are watched once one is.');
+    }
+    // Pipelines with an inaccessible folder are logged and skipped until it can be reached.
+    for (const pipeline of await getReachablePipelines(pipelines)) {
+        console.log(`[Watcher] Pipeline "${pipeline.name}": import ${pipeline.import.path}, failed ${pipeline.failed.path}`);
     }
-
-    await fs.access(monitoredPaths.import.path);
-    await fs.access(monitoredPaths.failed.path);
-    
-    console.log(`[Watcher] Import directory: ${monitoredPaths.import.path}`);
-    console.log(`[Watcher] Failed directory: ${monitoredPaths.failed.path}`);
-    
-    setInterval(pollDirectories, POLLING_INTERVAL);
-    setInterval(cleanupJob, CLEANUP_INTERVAL);
-    
-    console.log(`[Watcher] Service started successfully. Polling every ${POLLING_INTERVAL / 1000} seconds.`);
   } catch(error: any) {
-       console.error(`[Watcher] CRITICAL: A monitored directory is not accessible. Please verify paths in settings. Error: ${error.message}`);
-       console.error('[Watcher] Service will not start due to inaccessible directories.');
+       console.error(`[Watcher] ERROR: Could not read the pipeline configuration: ${error.message}`);
   }
+
+  // The notification jobs run whatever the state of the monitored folders.
+  await watcherTick();
+  setInterval(watcherTick, POLLING_INTERVAL);
+  setInterval(cleanupJob, CLEANUP_INTERVAL);
+  setInterval(webhookJob, WEBHOOK_INTERVAL);
+  setInterval(alertJob, ALERT_INTERVAL);
+  setInterval(reportJob, REPORT_INTERVAL);
+  
+  console.log(`[Watcher] Service started successfully. Checking locations every ${POLLING_INTERVAL / 1000} seconds.`);
 }
 
 // Start the service. A delay is added to prevent race conditions during app startup.
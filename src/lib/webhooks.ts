@@ -0,0 +1,165 @@
+import { createHmac, randomBytes } from 'crypto';
+import * as db from './db';
+import type { FileStatus, FileStatusEvent, Webhook, WebhookDelivery, WebhookEventType } from '../types';
+
+// Outbound webhooks. The watcher turns committed status transitions into queued deliveries
+// and sends them with retries; the settings page can redeliver or send a test event.
+// Every request is signed: X-FileTracker-Signature is `sha256=` followed by the hex
+// HMAC-SHA256 of `<X-FileTracker-Timestamp>.<raw body>` with the webhook's secret.
+
+export const DEFAULT_WEBHOOK_STATUSES: FileStatus['status'][] = ['failed', 'timed-out', 'published'];
+
+const MAX_ATTEMPTS = 8;
+// Doubled after every failed attempt: 1, 2, 4, ... 64 minutes, so about two hours in total.
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_EVENTS_PER_RUN = 500;
+const MAX_DELIVERIES_PER_RUN = 50;
+const DELIVERY_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function generateWebhookSecret(): string {
+    return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+const matchesWebhook = (webhook: Webhook, event: FileStatusEvent): boolean =>
+    webhook.enabled
+    && event.newStatus !== null
+    && webhook.statuses.includes(event.newStatus)
+    && (webhook.pipelineIds.length === 0 || webhook.pipelineIds.includes(event.pipelineId ?? ''));
+
+// The event id doubles as the payload id, so receivers can drop redeliveries they already handled.
+function buildStatusPayload(event: FileStatusEvent, pipelineName: string | null): string {
+    return JSON.stringify({
+        id: String(event.id),
+        type: 'file.status_changed',
+        timestamp: event.timestamp,
+        data: {
+            fileName: event.fileName,
+            pipelineId: event.pipelineId ?? null,
+            pipelineName,
+            previousStatus: event.oldStatus,
+            status: event.newStatus,
+            remarks: event.remarks ?? null,
+            actor: event.actor,
+        },
+    });
+}
+
+export function buildPingPayload(webhook: Webhook): string {
+    return JSON.stringify({
+        id: `ping-${Date.now()}`,
+        type: 'ping',
+        timestamp: new Date().toISOString(),
+        data: { webhookId: webhook.id, webhookName: webhook.name },
+    });
+}
+
+// Queues a delivery per matching webhook for every status event since the last run. On the
+// first run the cursor starts at the newest event, so existing history is not replayed.
+export async function enqueueWebhookEvents(): Promise<number> {
+    const cursor = await db.getWebhookCursor();
+    if (cursor === null) {
+        await db.updateWebhookCursor(await db.getLatestFileStatusEventId());
+        return 0;
+    }
+
+    const changes = await db.getFileStatusChangesSince(cursor, MAX_EVENTS_PER_RUN);
+    if (changes.length === 0) return 0;
+
+    const webhooks = (await db.getWebhooks()).filter(w => w.enabled);
+    const pipelineNames = new Map((await db.getPipelines()).map(p => [p.id, p.name]));
+    const now = new Date().toISOString();
+    const deliveries: db.NewWebhookDelivery[] = [];
+    for (const { event } of changes) {
+        for (const webhook of webhooks) {
+            if (!matchesWebhook(webhook, event)) continue;
+            deliveries.push({
+                webhookId: webhook.id,
+                eventType: 'file.status_changed',
+                payload: buildStatusPayload(event, pipelineNames.get(event.pipelineId ?? '') ?? null),
+                nextAttemptAt: now,
+            });
+        }
+    }
+    await db.enqueueWebhookDeliveries(deliveries, changes[changes.length - 1].event.id);
+    return deliveries.length;
+}
+
+// Makes one attempt at a delivery and records its outcome. Anything but a 2xx response,
+// including redirects, counts as a failure and is retried until MAX_ATTEMPTS is reached.
+export async function attemptWebhookDelivery(delivery: WebhookDelivery, webhook: Webhook | undefined): Promise<WebhookDelivery> {
+    const now = new Date();
+    const result: WebhookDelivery = { ...delivery, attempts: delivery.attempts + 1, lastAttemptAt: now.toISOString(), responseStatus: null, error: null };
+
+    if (!webhook) {
+        result.error = 'The webhook has been deleted or disabled.';
+    } else {
+        const timestamp = String(Math.floor(now.getTime() / 1000));
+        try {
+            const response = await fetch(webhook.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'FileTracker-Webhook',
+                    'X-FileTracker-Event': delivery.eventType,
+                    'X-FileTracker-Delivery': String(delivery.id),
+                    'X-FileTracker-Timestamp': timestamp,
+                    'X-FileTracker-Signature': signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+                },
+                body: delivery.payload,
+                redirect: 'manual',
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+            result.responseStatus = response.status;
+            if (!response.ok) result.error = `The endpoint responded with HTTP ${response.status}.`;
+        } catch (error: any) {
+            result.error = error?.name === 'TimeoutError' ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds.` : (error?.cause?.message || error?.message || String(error));
+        }
+    }
+
+    if (!result.error) {
+        result.status = 'delivered';
+        result.nextAttemptAt = null;
+    } else if (!webhook || result.attempts >= MAX_ATTEMPTS) {
+        result.status = 'failed';
+        result.nextAttemptAt = null;
+    } else {
+        result.status = 'pending';
+        result.nextAttemptAt = new Date(now.getTime() + BASE_RETRY_DELAY_MS * 2 ** (result.attempts - 1)).toISOString();
+    }
+    await db.updateWebhookDelivery(result);
+    return result;
+}
+
+// Queues a new delivery of the payload and makes its first attempt right away. Used for
+// test events and redeliveries from the settings page, where the admin waits for the result.
+export async function sendWebhook(webhook: Webhook, eventType: WebhookEventType, payload: string): Promise<WebhookDelivery> {
+    // Scheduled past the first attempt so the watcher does not pick it up at the same time.
+    const nextAttemptAt = new Date(Date.now() + BASE_RETRY_DELAY_MS).toISOString();
+    const delivery = await db.createWebhookDelivery({ webhookId: webhook.id, eventType, payload, nextAttemptAt });
+    return attemptWebhookDelivery(delivery, webhook);
+}
+
+// Sends the deliveries that are due, oldest first.
+export async function dispatchWebhookDeliveries(): Promise<void> {
+    const due = await db.getDueWebhookDeliveries(new Date().toISOString(), MAX_DELIVERIES_PER_RUN);
+    if (due.length === 0) return;
+
+    const webhooks = new Map((await db.getWebhooks()).map(w => [w.id, w]));
+    for (const delivery of due) {
+        const webhook = webhooks.get(delivery.webhookId);
+        // Deliveries queued before their webhook was disabled are dropped rather than sent late.
+        const result = await attemptWebhookDelivery(delivery, webhook?.enabled ? webhook : undefined);
+        if (result.status === 'failed') {
+            console.error(`[Webhooks] Giving up on delivery ${delivery.id} to webhook "${delivery.webhookId}": ${result.error}`);
+        }
+    }
+}
+
+export async function pruneWebhookDeliveries(): Promise<number> {
+    return db.deleteWebhookDeliveriesBefore(new Date(Date.now() - DELIVERY_LOG_RETENTION_MS).toISOString());
+}
@@ -4,26 +4,195 @@ export type User = {
   username: string;
   name: string;
   email?: string;
-  role: 'admin' | 'user';
+  // Id of the user's role: 'admin', 'user' or a custom role.
+  role: string;
   password?: string;
   avatar?: string | null;
   twoFactorRequired?: boolean;
   twoFactorSecret?: string | null;
+  mustChangePassword?: boolean;
+  passwordChangedAt?: string | null;
+  // Where the user signs in. LDAP and OIDC users are created on their first sign-in and
+  // have no local password.
+  authProvider?: AuthProviderId;
+  // The user's subject at the OIDC identity provider.
+  externalId?: string | null;
+  // Only filled in for the admin user list; not stored on the user.
+  twoFactorEnrolled?: boolean;
+  recoveryCodesRemaining?: number;
+  // Only filled in for the signed-in user, from their role.
+  permissions?: Permission[];
+};
+
+export type AuthProviderId = 'local' | 'ldap' | 'oidc';
+
+export type Permission =
+  | 'view'
+  | 'retry'
+  | 'rename'
+  | 'expand'
+  | 'delete'
+  | 'clear-all'
+  | 'import-export'
+  | 'manage-users'
+  | 'manage-settings';
+
+// A named set of permissions assigned to users. Built-in roles are defined in code and
+// cannot be changed; custom roles are stored in the settings.
+export type Role = {
+  id: string;
+  name: string;
+  permissions: Permission[];
+  builtIn?: boolean;
+};
+
+// Pending sessions have passed the password check but not yet the second factor
+// ('pending_2fa_setup' when the user still has to enrol an authenticator app), or
+// must replace a temporary or expired password first ('pending_password_change').
+// Only 'active' sessions may call anything beyond the login flow.
+export type SessionStage = 'pending_2fa_setup' | 'pending_2fa' | 'pending_password_change' | 'active';
+
+// A server-side login session. The id is a SHA-256 hash of the token kept in the
+// HTTP-only session cookie, so the table never holds a usable credential.
+export type Session = {
+  id: string;
+  userId: string;
+  stage: SessionStage;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string | null;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+};
+
+// A personal token for the REST API. It acts with the permissions its owner has at the time
+// of each request. Only a SHA-256 hash of the token is stored; prefix is the start of the
+// token, kept so the owner can tell their tokens apart.
+export type ApiToken = {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+};
+
+// Failed sign-in attempts counted against one username ('user:<name>') or one client
+// address ('ip:<address>'). lockedUntil is set once the failures call for a backoff.
+export type LoginThrottle = {
+  key: string;
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil: string | null;
+};
+
+export type SecurityEventType =
+  | 'account_locked'
+  | 'address_locked'
+  | 'account_unlocked'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'two_factor_reset'
+  | 'recovery_codes_generated'
+  | 'recovery_code_used'
+  | 'api_token_created'
+  | 'api_token_revoked';
+
+export type SecurityEvent = {
+  id: number;
+  type: SecurityEventType;
+  username: string | null;
+  ipAddress: string | null;
+  actor: string;
+  timestamp: string;
+  details: string | null;
+};
+
+export type LockedAccount = {
+  username: string;
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil: string;
 };
 
 export type FileStatus = {
   id: string;
   name: string;
-  status: 'processing' | 'failed' | 'published' | 'timed-out';
+  // 'arriving' files are still being written into a monitored folder.
+  status: 'arriving' | 'processing' | 'failed' | 'published' | 'timed-out';
   source: string;
   lastUpdated: string;
   remarks?: string;
+  pipelineId?: string | null;
+  // Filled in by the database on write: when the file was first tracked, when it last entered
+  // 'processing' and when it last left it (null while processing).
+  firstSeen?: string | null;
+  processingStartedAt?: string | null;
+  completedAt?: string | null;
+  // Filled in by the watcher when a content validator applies to the file: its size in bytes,
+  // the checksum verified against the sidecar file and the outcome of the checks.
+  fileSize?: number | null;
+  checksum?: string | null;
+  validation?: 'passed' | 'failed' | null;
+  validationDetails?: string | null;
+};
+
+export type FileStatusSortColumn = 'name' | 'status' | 'lastUpdated';
+
+// Parameters of a dashboard query. `from` is inclusive and `to` exclusive (ISO timestamps
+// matched against lastUpdated); a pageSize of 0 returns every matching row.
+export type FileStatusQuery = {
+  status?: FileStatus['status'] | 'all';
+  pipelineId?: string | 'all';
+  from?: string;
+  to?: string;
+  search?: string;
+  sortBy?: FileStatusSortColumn;
+  sortDir?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+};
+
+// `total` is the number of rows matching every filter. `counts` are per-status totals
+// for the selected pipeline only, which is what the dashboard summary cards show.
+export type FileStatusQueryResult = {
+  files: FileStatus[];
+  total: number;
+  counts: Record<FileStatus['status'], number>;
+};
+
+// One status transition of a file. A null oldStatus marks the file being first recorded,
+// a null newStatus marks its status entry being removed.
+export type FileStatusEvent = {
+  id: number;
+  fileId: string;
+  fileName: string;
+  pipelineId?: string | null;
+  oldStatus: FileStatus['status'] | null;
+  newStatus: FileStatus['status'] | null;
+  actor: string;
+  timestamp: string;
+  remarks?: string | null;
+};
+
+// A committed status transition as pushed to dashboard subscribers. `file` is the row as it
+// is stored now, or null if it no longer exists.
+export type FileStatusChange = {
+  event: FileStatusEvent;
+  file: FileStatus | null;
 };
 
+// How a monitored location detects changes. 'events' relies on filesystem change
+// notifications; 'polling' rescans the folder on a timer and is the safe choice for network mounts.
+export type WatchMode = 'polling' | 'events';
+
 export type MonitoredPath = {
   id: string;
   name: string;
   path: string;
+  watchMode?: WatchMode;
 }
 
 export type MonitoredPaths = {
@@ -31,6 +200,14 @@ export type MonitoredPaths = {
   failed: MonitoredPath;
 };
 
+// A publishing pipeline: one import (hot) folder, one failed (reject) folder
+// and the file extensions tracked in them. An empty extension list tracks all files.
+export type Pipeline = MonitoredPaths & {
+  id: string;
+  name: string;
+  extensions: string[];
+};
+
 
 export type CleanupRule = {
   enabled: boolean;
@@ -47,6 +224,95 @@ export type CleanupSettings = {
 export type ProcessingSettings = {
   autoTrimInvalidChars: boolean;
   autoExpandPrefixes: boolean;
+  autoApplyRenameRules: boolean;
+  // Published files should take at most this long from entering 'processing'. 0 means no target.
+  slaTargetMinutes: number;
+  // New files must keep the same size and modification time for this many scans (at least one)
+  // before they are processed. Files matching an ignore pattern (such as *.part) are never tracked.
+  stabilityScans: number;
+  ignorePatterns: string[];
+}
+
+export type ChecksumAlgorithm = 'md5' | 'sha1' | 'sha256';
+
+// Checks on the content of new files with the given extension. Sizes are in bytes and 0 means
+// no limit; magicBytes lists accepted signatures as hex, separated by commas. A file must be
+// unchanged for stableSeconds before it is checked, and with a checksum algorithm its digest
+// must match the sidecar file named after it (report.xml.sha256).
+export type ContentValidator = {
+  id: string;
+  extension: string;
+  enabled: boolean;
+  minSize: number;
+  maxSize: number;
+  magicBytes: string;
+  stableSeconds: number;
+  checksum: ChecksumAlgorithm | 'none';
+  action: 'flag' | 'quarantine';
+};
+
+export type NamingFieldType = 'text' | 'number' | 'list' | 'date';
+
+// One part of a file name. separator is the text between this field and the next; it may be
+// empty for a fixed-length field (minLength equal to maxLength). Lengths of 0 mean any length.
+export type NamingField = {
+  id: string;
+  name: string;
+  type: NamingFieldType;
+  minLength: number;
+  maxLength: number;
+  // list: the values allowed, ignoring case.
+  allowedValues: string[];
+  // date: a date-fns format such as yyyyMMdd.
+  dateFormat: string;
+  separator: string;
+}
+
+// How the names of new files in a pipeline's import folder must look, extension aside. Files
+// that do not conform are flagged in their remarks, or quarantined in the failed folder.
+export type NamingSchema = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  pipelineId: string | null;
+  action: 'flag' | 'quarantine';
+  fields: NamingField[];
+}
+
+export type SanitizeStepType = 'remove' | 'replace' | 'normalize' | 'transliterate' | 'case' | 'max-length';
+
+// One step of the filename auto-fix, applied in order to the name without its extension.
+// remove and replace act on the characters matching pattern (e.g. `[*?\s]`); max-length limits
+// the whole name, extension included.
+export type SanitizeStep = {
+  id: string;
+  type: SanitizeStepType;
+  pattern: string;
+  replacement: string;
+  normalization: 'NFC' | 'NFD' | 'NFKC' | 'NFKD';
+  case: 'lower' | 'upper';
+  maxLength: number;
+}
+
+export type FilenameRuleAction = 'expand' | 'rename';
+
+// A naming convention, for one pipeline or (pipelineId null) all of them. pattern is a regular
+// expression matched against the whole file name, ignoring case; its named groups fill the
+// {placeholders} of template, as do {name}, {base} and {ext}. An expand rule splits the value
+// of splitGroup into items, every splitSize characters or at splitSeparator when splitSize is
+// 0, keeps the items matching itemPattern and creates a copy per item, with {item} in the template.
+export type FilenameRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  pipelineId: string | null;
+  action: FilenameRuleAction;
+  pattern: string;
+  template: string;
+  splitGroup: string;
+  splitSize: number;
+  splitSeparator: string;
+  itemPattern: string;
 }
 
 export type BrandingSettings = {
@@ -64,6 +330,59 @@ export type SmtpSettings = {
         user: string;
         pass: string;
     }
+    // Sender address. Defaults to the username; needed when the server takes mail without login.
+    fromAddress?: string;
+}
+
+// Who is emailed about failures. Each recipient gets an email per event, the digest, or both.
+export type AlertRecipient = {
+    email: string;
+    immediate: boolean;
+    digest: boolean;
+}
+
+// Subject and plain-text body with {{placeholders}}; the body is sent inside the branded layout.
+export type AlertTemplate = {
+    subject: string;
+    body: string;
+}
+
+export type AlertSettings = {
+    enabled: boolean;
+    // Transitions into these statuses raise an alert.
+    statuses: FileStatus['status'][];
+    recipients: AlertRecipient[];
+    // 0 turns the digest off.
+    digestIntervalMinutes: number;
+    immediateTemplate: AlertTemplate;
+    digestTemplate: AlertTemplate;
+}
+
+export type ReportFrequency = 'daily' | 'weekly';
+
+// Scheduled summary report emails. The time is the wall-clock time in timeZone (an IANA
+// name such as Europe/Berlin); dayOfWeek (0 = Sunday) only applies to weekly reports.
+export type ReportSettings = {
+    enabled: boolean;
+    frequency: ReportFrequency;
+    time: string;
+    dayOfWeek: number;
+    timeZone: string;
+    recipients: string[];
+}
+
+export type ReportRunTrigger = 'schedule' | 'manual';
+
+export type ReportRun = {
+    id: number;
+    trigger: ReportRunTrigger;
+    frequency: ReportFrequency;
+    periodStart: string;
+    periodEnd: string;
+    recipients: string;
+    status: 'sent' | 'failed';
+    error: string | null;
+    createdAt: string;
 }
 
 export type MaintenanceSettings = {
@@ -71,6 +390,105 @@ export type MaintenanceSettings = {
     message: string;
 }
 
+// Rules for new passwords. A historyCount or maxAgeDays of 0 disables that check.
+export type PasswordPolicy = {
+    minLength: number;
+    requireUppercase: boolean;
+    requireLowercase: boolean;
+    requireNumber: boolean;
+    requireSymbol: boolean;
+    historyCount: number;
+    maxAgeDays: number;
+}
+
+// Maps members of a directory or identity provider group (matched case-insensitively) to a role.
+export type GroupRoleMapping = {
+    group: string;
+    role: string;
+}
+
+// Directory sign-in. The service account (bindDn) looks up the user with userFilter, in which
+// {username} is replaced by the escaped login name, then the user's own DN and password are
+// bound to check the password. The first mapping matching one of the user's groups decides
+// the role; users matching none get defaultRole, or are refused if it is null.
+export type LdapSettings = {
+    enabled: boolean;
+    url: string;
+    startTls: boolean;
+    tlsRejectUnauthorized: boolean;
+    bindDn: string;
+    bindPassword: string;
+    searchBase: string;
+    userFilter: string;
+    nameAttribute: string;
+    emailAttribute: string;
+    groupAttribute: string;
+    groupRoleMappings: GroupRoleMapping[];
+    defaultRole: string | null;
+}
+
+// Single sign-on through an OpenID Connect identity provider (authorization code flow with
+// PKCE). Users are matched by their subject; the claims named here fill in the user, and
+// the groups claim is mapped to a role like the LDAP groups.
+export type OidcSettings = {
+    enabled: boolean;
+    displayName: string;
+    issuerUrl: string;
+    clientId: string;
+    clientSecret: string;
+    scopes: string;
+    usernameClaim: string;
+    nameClaim: string;
+    emailClaim: string;
+    groupsClaim: string;
+    groupRoleMappings: GroupRoleMapping[];
+    defaultRole: string | null;
+}
+
+// An outbound webhook. It receives a signed POST for every status transition into one of
+// `statuses`, for the listed pipelines or, when pipelineIds is empty, for every pipeline.
+export type Webhook = {
+    id: string;
+    name: string;
+    url: string;
+    secret: string;
+    enabled: boolean;
+    statuses: FileStatus['status'][];
+    pipelineIds: string[];
+}
+
+export type WebhookEventType = 'file.status_changed' | 'ping';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One attempt series to deliver an event to a webhook. Pending deliveries are retried with
+// backoff until they succeed or run out of attempts; the last response is kept for the log.
+export type WebhookDelivery = {
+    id: number;
+    webhookId: string;
+    eventType: WebhookEventType;
+    payload: string;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    createdAt: string;
+    nextAttemptAt: string | null;
+    lastAttemptAt: string | null;
+    responseStatus: number | null;
+    error: string | null;
+}
+
+export type StatisticsBucket = 'hour' | 'day' | 'week' | 'month';
+
+// A statistics page query. from and to are days (yyyy-MM-dd, both included) in timeZone, which
+// is also what the buckets are cut in. compare adds the period of the same length before.
+export type StatisticsQuery = {
+    from: string;
+    to: string;
+    bucket: StatisticsBucket;
+    timeZone: string;
+    compare: boolean;
+}
+
 export type ChartData = {
     date: string;
     count: number;
@@ -79,12 +497,18 @@ export type ChartData = {
 export type Database = {
     users: User[];
     branding: BrandingSettings;
-    monitoredPaths: MonitoredPaths;
-    monitoredExtensions: string[];
+    pipelines: Pipeline[];
     fileStatuses: FileStatus[];
     cleanupSettings: CleanupSettings;
     processingSettings: ProcessingSettings;
     failureRemark: string;
     smtpSettings: SmtpSettings;
     maintenanceSettings: MaintenanceSettings;
+    passwordPolicy: PasswordPolicy;
+    alertSettings: AlertSettings;
+    reportSettings: ReportSettings;
+    filenameRules: FilenameRule[];
+    sanitizeSteps: SanitizeStep[];
+    namingSchemas: NamingSchema[];
+    contentValidators: ContentValidator[];
 }